@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+/**
+ * Agent profile API route.
+ * Responsibilities:
+ * - List agent profiles and fetch a profile (latest or a specific version).
+ * - Save profile edits as a new version.
+ * - Delete stored versions of a profile.
+ */
+import { DEFAULT_RATE_LIMIT_WINDOW_MS } from '@/lib/config/env'
+import {
+  deleteAgentProfile,
+  getAgentProfile,
+  listAgentProfiles,
+  listAgentProfileVersions,
+  saveAgentProfile,
+} from '@/lib/server/agentProfiles'
+import { ensureDataDirs } from '@/lib/server/fsStore'
+import { enforceApiSecurity, enforceTenantAccess, getApiPrincipal } from '@/lib/server/security'
+import { canAccessAgent } from '@/lib/server/tenants'
+
+export const runtime = 'nodejs'
+
+function securityGuard(request: NextRequest): Promise<NextResponse | null> {
+  return enforceApiSecurity(request, {
+    routeId: 'agent-profiles',
+    maxRequests: Number.parseInt(process.env.RATE_LIMIT_AGENT_PROFILES_MAX || '60', 10),
+    windowMs: DEFAULT_RATE_LIMIT_WINDOW_MS,
+  })
+}
+
+// GET — list | profile | versions
+export async function GET(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    await ensureDataDirs()
+
+    const { searchParams } = new URL(request.url)
+    const action = searchParams.get('action') || 'list'
+
+    switch (action) {
+      case 'profile':
+      case 'versions': {
+        const agentId = searchParams.get('agent_id')
+        if (!agentId) {
+          return NextResponse.json({ success: false, error: 'agent_id is required' }, { status: 400 })
+        }
+        const accessError = enforceTenantAccess(request, { agentIds: [agentId] })
+        if (accessError) return accessError
+
+        if (action === 'versions') {
+          const versions = await listAgentProfileVersions(agentId)
+          return NextResponse.json({ success: true, agent_id: agentId, versions })
+        }
+
+        const versionParam = searchParams.get('version')
+        const version = versionParam ? Number.parseInt(versionParam, 10) : undefined
+        if (version !== undefined && !(Number.isFinite(version) && version > 0)) {
+          return NextResponse.json({ success: false, error: 'version must be a positive integer' }, { status: 400 })
+        }
+
+        const profile = await getAgentProfile(agentId, version)
+        if (!profile) {
+          return NextResponse.json({ success: false, error: 'Agent profile not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ success: true, profile })
+      }
+
+      case 'list':
+      default: {
+        const principal = getApiPrincipal(request)
+        const profiles = (await listAgentProfiles()).filter(profile => canAccessAgent(principal, profile.agent_id))
+        return NextResponse.json({ success: true, profiles })
+      }
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST — save profile as a new version
+export async function POST(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    await ensureDataDirs()
+
+    const body = await request.json()
+    const accessError = enforceTenantAccess(request, {
+      agentIds: [String(body?.profile?.agent_id ?? '').trim()],
+      ragIds: typeof body?.profile?.default_rag_id === 'string' ? [body.profile.default_rag_id.trim()] : [],
+    })
+    if (accessError) return accessError
+
+    try {
+      const profile = await saveAgentProfile(body?.profile)
+      return NextResponse.json({ success: true, profile }, { status: 201 })
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : 'Invalid profile' },
+        { status: 400 }
+      )
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE — remove stored versions; bundled profiles stay available
+export async function DELETE(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    await ensureDataDirs()
+
+    const body = await request.json()
+    const agentId = typeof body?.agent_id === 'string' ? body.agent_id.trim() : ''
+    if (!agentId) {
+      return NextResponse.json({ success: false, error: 'agent_id is required' }, { status: 400 })
+    }
+    const accessError = enforceTenantAccess(request, { agentIds: [agentId] })
+    if (accessError) return accessError
+
+    const deleted = await deleteAgentProfile(agentId)
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'No stored versions for this agent' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, message: 'Agent profile deleted', agent_id: agentId })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
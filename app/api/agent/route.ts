@@ -2,126 +2,278 @@ import { NextRequest, NextResponse } from 'next/server'
 /**
  * Agent API route.
  * Responsibilities:
- * - Submit async agent tasks.
- * - Poll task status/results.
- * - Keep in-memory task lifecycle isolated from client polling flow.
+ * - Submit async agent tasks to the durable task queue (`lib/server/agentTaskQueue.ts`).
+ * - Validate per-request generation parameters and describe the accepted values.
+ * - Poll task status, progress and results; cancel tasks.
+ * - Stream retrieval metadata, answer tokens and the final payload over SSE.
  */
-import { DEFAULT_AGENT_TASK_TTL_MS, DEFAULT_RATE_LIMIT_WINDOW_MS } from '@/lib/config/env'
-import { executeAgent } from '@/lib/server/agentRuntime'
+import { DEFAULT_RATE_LIMIT_WINDOW_MS } from '@/lib/config/env'
+import { getAgentProfile, resolveAgentProfile } from '@/lib/server/agentProfiles'
+import { getAssetsByIds } from '@/lib/server/assetStore'
+import type { AgentExecutionInput } from '@/lib/server/agentRuntime'
+import {
+  acquireAgentRunSlot,
+  cancelAgentTask,
+  enqueueAgentTask,
+  getAgentTask,
+  startAgentTaskWorkers,
+  type AgentTask,
+} from '@/lib/server/agentTaskQueue'
 import { ensureDataDirs } from '@/lib/server/fsStore'
-import { enforceApiSecurity } from '@/lib/server/security'
+import {
+  describeGenerationOptions,
+  getAllowedModels,
+  isModelAllowed,
+  parseGenerationParams,
+  type GenerationParams,
+} from '@/lib/server/generationParams'
+import { hasProvider, listProviders } from '@/lib/server/llmProviders'
+import { executeAgentCached } from '@/lib/server/responseCache'
+import { enforceApiSecurity, enforceTenantAccess, getApiPrincipal } from '@/lib/server/security'
+import { getTenantScope } from '@/lib/server/tenants'
 
 export const runtime = 'nodejs'
 
-type TaskState = {
-  status: 'processing' | 'completed' | 'failed'
-  createdAt: number
-  response?: {
-    status: 'success' | 'error'
-    result: Record<string, any>
-    message?: string
-    metadata?: Record<string, any>
-  }
-  error?: string
+startAgentTaskWorkers()
+
+function securityGuard(request: NextRequest): Promise<NextResponse | null> {
+  return enforceApiSecurity(request, {
+    routeId: 'agent',
+    maxRequests: Number.parseInt(process.env.RATE_LIMIT_AGENT_MAX || '240', 10),
+    windowMs: DEFAULT_RATE_LIMIT_WINDOW_MS,
+  })
 }
 
-const globalTaskState = globalThis as typeof globalThis & {
-  __researchTwinAgentTasks?: Map<string, TaskState>
+function missingFieldsResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      response: { status: 'error', result: {}, message: 'message and agent_id are required' },
+      error: 'message and agent_id are required',
+    },
+    { status: 400 }
+  )
 }
 
-const taskStore = globalTaskState.__researchTwinAgentTasks ?? new Map<string, TaskState>()
-if (!globalTaskState.__researchTwinAgentTasks) {
-  globalTaskState.__researchTwinAgentTasks = taskStore
+function unknownProviderResponse(provider: string) {
+  const error = `Unknown provider "${provider}". Available: ${listProviders().join(', ')}`
+  return NextResponse.json(
+    {
+      success: false,
+      response: { status: 'error', result: {}, message: error },
+      error,
+    },
+    { status: 400 }
+  )
 }
 
-const TASK_TTL_MS = DEFAULT_AGENT_TASK_TTL_MS
+function invalidParametersResponse(error: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      response: { status: 'error', result: {}, message: error },
+      error,
+    },
+    { status: 400 }
+  )
+}
 
-function purgeExpiredTasks() {
-  const now = Date.now()
-  for (const [taskId, task] of taskStore.entries()) {
-    if (now - task.createdAt > TASK_TTL_MS) {
-      taskStore.delete(taskId)
-    }
+function buildExecutionInput(body: any, params: GenerationParams): AgentExecutionInput | null {
+  const { message, agent_id, user_id, session_id, assets, rag_id, provider, retrieval_fusion, rerank, cache } = body
+  if (!message || !agent_id) return null
+
+  return {
+    message,
+    agent_id,
+    user_id: user_id || `user-${crypto.randomUUID()}`,
+    session_id: session_id || `${agent_id}-${crypto.randomUUID().slice(0, 12)}`,
+    assets: Array.isArray(assets) ? assets : [],
+    rag_id,
+    provider: typeof provider === 'string' && provider.trim() ? provider.trim().toLowerCase() : undefined,
+    // Fusion fields are sanitized in ragStore; unknown or negative values fall back to env defaults.
+    retrievalFusion: retrieval_fusion && typeof retrieval_fusion === 'object' ? retrieval_fusion : undefined,
+    rerank: typeof rerank === 'boolean' || typeof rerank === 'string' ? rerank : undefined,
+    useResponseCache: cache !== false,
+    ...params,
   }
 }
 
-async function submitTask(body: any) {
-  const { message, agent_id, user_id, session_id, assets, rag_id } = body
+/**
+ * A chat_model override must be on the allowlist for the provider that will serve it
+ * (the request's provider, else the agent profile's, else CHAT_PROVIDER).
+ */
+async function checkModelOverride(input: AgentExecutionInput): Promise<NextResponse | null> {
+  if (!input.chatModel) return null
+
+  const provider = input.provider ?? (await resolveAgentProfile(input.agent_id, input.tenant_id)).model.provider
+  if (isModelAllowed(provider, input.chatModel)) return null
+  return invalidParametersResponse(
+    `chat_model "${input.chatModel}" is not allowed. Allowed: ${getAllowedModels().join(', ')}`
+  )
+}
+
+/**
+ * Tenant and anonymous callers may only run agents they may access against corpora they may
+ * access, with assets they uploaded. The rag_id is resolved the same way executeAgent resolves it
+ * so an omitted rag_id cannot reach another tenant's corpus. A tenant agent without a profile is
+ * refused rather than answered with the default persona.
+ */
+async function authorizeExecution(request: NextRequest, input: AgentExecutionInput): Promise<NextResponse | null> {
+  const principal = getApiPrincipal(request)
+  if (principal.kind === 'admin') return null
+
+  const agentError = enforceTenantAccess(request, { agentIds: [input.agent_id] })
+  if (agentError) return agentError
 
-  if (!message || !agent_id) {
+  const tenantId = principal.kind === 'tenant' ? principal.tenant.tenant_id : undefined
+  const profile = tenantId ? await getAgentProfile(input.agent_id) : await resolveAgentProfile(input.agent_id)
+  if (!profile) {
     return NextResponse.json(
-      {
-        success: false,
-        response: { status: 'error', result: {}, message: 'message and agent_id are required' },
-        error: 'message and agent_id are required',
-      },
-      { status: 400 }
+      { success: false, error: `No profile for agent "${input.agent_id}"` },
+      { status: 404 }
     )
   }
 
-  const finalUserId = user_id || `user-${crypto.randomUUID()}`
-  const finalSessionId = session_id || `${agent_id}-${crypto.randomUUID().slice(0, 12)}`
-  const taskId = crypto.randomUUID()
+  const ragId = input.rag_id || profile.default_rag_id
+  const accessError = enforceTenantAccess(request, { ragIds: [ragId] })
+  if (accessError) return accessError
+
+  if (input.assets?.length) {
+    const visible = await getAssetsByIds(input.assets, getTenantScope(principal))
+    if (visible.length < new Set(input.assets).size) {
+      return NextResponse.json({ success: false, error: 'One or more assets were not found' }, { status: 404 })
+    }
+  }
+
+  input.rag_id = ragId
+  input.tenant_id = tenantId
+  return null
+}
+
+async function submitTask(input: AgentExecutionInput) {
+  const task = await enqueueAgentTask(input, input.tenant_id ?? null)
 
-  taskStore.set(taskId, {
-    status: 'processing',
-    createdAt: Date.now(),
+  return NextResponse.json({
+    task_id: task.id,
+    agent_id: input.agent_id,
+    user_id: input.user_id,
+    session_id: input.session_id,
   })
+}
 
-  void (async () => {
-    try {
-      const result = await executeAgent({
-        message,
-        agent_id,
-        user_id: finalUserId,
-        session_id: finalSessionId,
-        assets: Array.isArray(assets) ? assets : [],
-        rag_id,
-      })
+// Another tenant's task is reported as missing rather than forbidden. See getTenantScope.
+async function findOwnTask(taskId: string, tenantScope: string | null | undefined): Promise<AgentTask | null> {
+  const task = await getAgentTask(taskId)
+  if (!task || (tenantScope !== undefined && task.tenant_id !== tenantScope)) return null
+  return task
+}
 
-      taskStore.set(taskId, {
-        status: 'completed',
-        createdAt: Date.now(),
-        response: result,
-      })
-    } catch (error) {
-      taskStore.set(taskId, {
-        status: 'failed',
-        createdAt: Date.now(),
-        error: error instanceof Error ? error.message : 'Agent task failed',
+function taskNotFoundResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      status: 'failed',
+      error: 'Task expired or not found',
+    },
+    { status: 404 }
+  )
+}
+
+function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+/**
+ * Stream mode runs the agent inline (through the response cache) and emits:
+ * - `session`: resolved agent/user/session ids
+ * - `retrieval`: intent, rag_id, notes and evidence markers
+ * - `token`: incremental response_text deltas (a cache hit sends the whole answer as one delta)
+ * - `final`: the citation-enforced payload (same shape as a completed poll)
+ * - `error`: terminal failure
+ * Closing the connection (the client's "Stop generating") aborts the run and its model calls.
+ */
+function streamTask(input: AgentExecutionInput, requestSignal: AbortSignal) {
+  const encoder = new TextEncoder()
+  const abort = new AbortController()
+  const stopRun = () => abort.abort(new Error('Client disconnected'))
+  requestSignal.addEventListener('abort', stopRun, { once: true })
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return
+        controller.enqueue(encoder.encode(formatSseEvent(event, data)))
+      }
+
+      send('session', {
+        agent_id: input.agent_id,
+        user_id: input.user_id,
+        session_id: input.session_id,
       })
-    }
-  })()
 
-  return NextResponse.json({
-    task_id: taskId,
-    agent_id,
-    user_id: finalUserId,
-    session_id: finalSessionId,
+      let releaseSlot: (() => void) | null = null
+      try {
+        // Streamed runs share the task queue's per-process concurrency limit.
+        releaseSlot = await acquireAgentRunSlot(abort.signal)
+        const result = await executeAgentCached(input, {
+          onRetrieval: event => send('retrieval', event),
+          onToken: delta => send('token', { delta }),
+          signal: abort.signal,
+        })
+
+        send('final', {
+          success: true,
+          status: 'completed',
+          response: result,
+          timestamp: new Date().toISOString(),
+        })
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Agent task failed'
+        send('error', {
+          success: false,
+          status: 'failed',
+          response: { status: 'error', result: {}, message: errorMsg },
+          error: errorMsg,
+        })
+      } finally {
+        releaseSlot?.()
+        requestSignal.removeEventListener('abort', stopRun)
+        if (!abort.signal.aborted) controller.close()
+      }
+    },
+    cancel() {
+      stopRun()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
   })
 }
 
-function pollTask(taskId: string) {
-  purgeExpiredTasks()
+async function pollTask(taskId: string, tenantScope: string | null | undefined) {
+  const task = await findOwnTask(taskId, tenantScope)
+  if (!task) return taskNotFoundResponse()
 
-  const task = taskStore.get(taskId)
-  if (!task) {
-    return NextResponse.json(
-      {
-        success: false,
-        status: 'failed',
-        error: 'Task expired or not found',
-      },
-      { status: 404 }
-    )
+  if (task.status === 'queued' || task.status === 'running') {
+    return NextResponse.json({ status: 'processing', task_status: task.status, progress: task.progress })
   }
 
-  if (task.status === 'processing') {
-    return NextResponse.json({ status: 'processing' })
+  if (task.status === 'cancelled') {
+    return NextResponse.json({
+      success: false,
+      status: 'cancelled',
+      response: { status: 'error', result: {}, message: 'Agent task was cancelled' },
+      error: 'Agent task was cancelled',
+    })
   }
 
   if (task.status === 'failed') {
-    taskStore.delete(taskId)
     return NextResponse.json(
       {
         success: false,
@@ -133,7 +285,7 @@ function pollTask(taskId: string) {
     )
   }
 
-  taskStore.delete(taskId)
+  // Results stay readable until AGENT_TASK_TTL_MS, so repeated polls (from any process) see the same answer.
   return NextResponse.json({
     success: true,
     status: 'completed',
@@ -143,17 +295,48 @@ function pollTask(taskId: string) {
   })
 }
 
+async function cancelTask(taskId: string, tenantScope: string | null | undefined) {
+  if (!(await findOwnTask(taskId, tenantScope))) return taskNotFoundResponse()
+
+  const task = await cancelAgentTask(taskId)
+  if (!task) return taskNotFoundResponse()
+
+  return NextResponse.json({
+    success: task.status === 'cancelled',
+    status: task.status,
+    task_id: task.id,
+    ...(task.status === 'cancelled' ? {} : { error: `Task already ${task.status}` }),
+  })
+}
+
+/**
+ * GET /api/agent?action=options
+ * Providers, allowed chat models, intents, source roles and parameter ranges for request overrides.
+ */
+export async function GET(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  const { searchParams } = new URL(request.url)
+  if ((searchParams.get('action') || 'options') !== 'options') {
+    return NextResponse.json({ success: false, error: 'action must be options' }, { status: 400 })
+  }
+
+  return NextResponse.json({ success: true, ...describeGenerationOptions() })
+}
+
 /**
  * POST /api/agent
  * Submit mode: { message, agent_id, ... }
- * Poll mode: { task_id }
+ * Stream mode: { message, agent_id, ..., stream: true } -> text/event-stream
+ * Either mode accepts `provider` to pick a registered chat provider for this request, and the
+ * overrides chat_model, temperature, top_p, top_k, max_tokens, intent, source_roles and
+ * max_chunks_per_document (see GET ?action=options for accepted values).
+ * Poll mode: { task_id } -> processing (with task_status/progress) | completed | failed | cancelled
+ * Cancel mode: { action: 'cancel', task_id }
  */
 export async function POST(request: NextRequest) {
-  const securityError = enforceApiSecurity(request, {
-    routeId: 'agent',
-    maxRequests: Number.parseInt(process.env.RATE_LIMIT_AGENT_MAX || '240', 10),
-    windowMs: DEFAULT_RATE_LIMIT_WINDOW_MS,
-  })
+  const securityError = await securityGuard(request)
   if (securityError) return securityError
 
   try {
@@ -161,10 +344,33 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json()
     if (body.task_id) {
-      return pollTask(String(body.task_id))
+      const tenantScope = getTenantScope(getApiPrincipal(request))
+      return body.action === 'cancel'
+        ? await cancelTask(String(body.task_id), tenantScope)
+        : await pollTask(String(body.task_id), tenantScope)
+    }
+
+    if (typeof body.provider === 'string' && body.provider.trim() && !hasProvider(body.provider)) {
+      return unknownProviderResponse(body.provider)
+    }
+
+    const { params, errors } = parseGenerationParams(body)
+    if (errors.length > 0) return invalidParametersResponse(errors.join('; '))
+
+    const input = buildExecutionInput(body, params)
+    if (!input) return missingFieldsResponse()
+
+    const accessError = await authorizeExecution(request, input)
+    if (accessError) return accessError
+
+    const modelError = await checkModelOverride(input)
+    if (modelError) return modelError
+
+    if (body.stream === true) {
+      return streamTask(input, request.signal)
     }
 
-    return await submitTask(body)
+    return await submitTask(input)
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Server error'
     return NextResponse.json(
@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from 'next/server'
+/**
+ * Golden-question evaluation API route.
+ * Responsibilities:
+ * - Manage eval datasets (questions with expected papers, key facts and forbidden claims).
+ * - Start eval runs against the current agent configuration and report their progress.
+ * - Export finished runs as JSON or CSV.
+ */
+import { DEFAULT_RAG_ID, DEFAULT_RATE_LIMIT_WINDOW_MS } from '@/lib/config/env'
+import {
+  deleteEvalDataset,
+  evalRunToCsv,
+  getEvalDataset,
+  getEvalRun,
+  listEvalDatasets,
+  listEvalRuns,
+  saveEvalDataset,
+  startEvalRun,
+} from '@/lib/server/evalSuite'
+import { ensureDataDirs } from '@/lib/server/fsStore'
+import { hasProvider } from '@/lib/server/llmProviders'
+import { enforceApiSecurity, enforceTenantAccess, getApiPrincipal } from '@/lib/server/security'
+import { canAccessRag, getRagScope } from '@/lib/server/tenants'
+
+export const runtime = 'nodejs'
+
+function securityGuard(request: NextRequest): Promise<NextResponse | null> {
+  return enforceApiSecurity(request, {
+    routeId: 'eval',
+    maxRequests: Number.parseInt(process.env.RATE_LIMIT_EVAL_MAX || '30', 10),
+    windowMs: DEFAULT_RATE_LIMIT_WINDOW_MS,
+  })
+}
+
+function toFiniteNumber(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) return value
+  if (typeof value === 'string') {
+    const parsed = Number.parseFloat(value)
+    if (Number.isFinite(parsed)) return parsed
+  }
+  return undefined
+}
+
+// GET — datasets | dataset | runs | run | export
+export async function GET(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    await ensureDataDirs()
+
+    const { searchParams } = new URL(request.url)
+    const action = searchParams.get('action') || 'runs'
+
+    switch (action) {
+      case 'datasets': {
+        const datasets = await listEvalDatasets()
+        return NextResponse.json({ success: true, datasets })
+      }
+
+      case 'dataset': {
+        const name = searchParams.get('name')
+        if (!name) {
+          return NextResponse.json({ success: false, error: 'name is required' }, { status: 400 })
+        }
+
+        const dataset = await getEvalDataset(name)
+        if (!dataset) {
+          return NextResponse.json({ success: false, error: 'Eval dataset not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ success: true, dataset })
+      }
+
+      case 'run':
+      case 'export': {
+        const runId = searchParams.get('runId')
+        if (!runId) {
+          return NextResponse.json({ success: false, error: 'runId is required' }, { status: 400 })
+        }
+
+        const run = await getEvalRun(runId)
+        if (!run || !canAccessRag(getApiPrincipal(request), run.config.rag_id)) {
+          return NextResponse.json({ success: false, error: 'Eval run not found' }, { status: 404 })
+        }
+
+        if (action === 'run') {
+          return NextResponse.json({ success: true, run })
+        }
+
+        const format = searchParams.get('format') || 'json'
+        const fileName = `eval-${run.dataset}-${run.id.slice(0, 8)}`
+        if (format === 'csv') {
+          return new NextResponse(evalRunToCsv(run), {
+            headers: {
+              'Content-Type': 'text/csv; charset=utf-8',
+              'Content-Disposition': `attachment; filename="${fileName}.csv"`,
+            },
+          })
+        }
+
+        return new NextResponse(JSON.stringify(run, null, 2), {
+          headers: {
+            'Content-Type': 'application/json; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${fileName}.json"`,
+          },
+        })
+      }
+
+      case 'runs':
+      default: {
+        const dataset = searchParams.get('dataset')
+        const limit = Number.parseInt(searchParams.get('limit') || '20', 10)
+        const runs = await listEvalRuns({
+          dataset: dataset || undefined,
+          ...getRagScope(getApiPrincipal(request)),
+          limit: Number.isFinite(limit) && limit > 0 ? limit : 20,
+        })
+        return NextResponse.json({ success: true, runs })
+      }
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST — save_dataset | run
+export async function POST(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    await ensureDataDirs()
+
+    const body = await request.json()
+    const { action, ...params } = body || {}
+
+    switch (action) {
+      case 'save_dataset': {
+        // Datasets are shared across tenants, so only admins edit them.
+        const accessError = enforceTenantAccess(request, { adminOnly: true })
+        if (accessError) return accessError
+
+        try {
+          const dataset = await saveEvalDataset(params.dataset)
+          return NextResponse.json({ success: true, dataset }, { status: 201 })
+        } catch (error) {
+          return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Invalid dataset' },
+            { status: 400 }
+          )
+        }
+      }
+
+      case 'run': {
+        const datasetName = typeof params.dataset === 'string' ? params.dataset.trim() : ''
+        if (!datasetName) {
+          return NextResponse.json({ success: false, error: 'dataset is required' }, { status: 400 })
+        }
+        if (!(await getEvalDataset(datasetName))) {
+          return NextResponse.json({ success: false, error: 'Eval dataset not found' }, { status: 404 })
+        }
+
+        const provider = typeof params.provider === 'string' && params.provider.trim() ? params.provider.trim() : undefined
+        if (provider && !hasProvider(provider)) {
+          return NextResponse.json({ success: false, error: `Unknown provider "${provider}"` }, { status: 400 })
+        }
+
+        const ragId = typeof params.rag_id === 'string' && params.rag_id.trim() ? params.rag_id.trim() : DEFAULT_RAG_ID
+        const accessError = enforceTenantAccess(request, { ragIds: [ragId] })
+        if (accessError) return accessError
+
+        const run = await startEvalRun({
+          dataset: datasetName,
+          config: {
+            rag_id: ragId,
+            k: toFiniteNumber(params.k),
+            provider,
+            chat_model: typeof params.chat_model === 'string' && params.chat_model.trim() ? params.chat_model.trim() : undefined,
+            top_k: toFiniteNumber(params.top_k),
+            temperature: toFiniteNumber(params.temperature),
+            rerank: typeof params.rerank === 'boolean' || typeof params.rerank === 'string' ? params.rerank : undefined,
+            retrieval_fusion:
+              params.retrieval_fusion && typeof params.retrieval_fusion === 'object' ? params.retrieval_fusion : undefined,
+          },
+        })
+
+        return NextResponse.json({ success: true, message: 'Eval run started', run }, { status: 202 })
+      }
+
+      default:
+        return NextResponse.json({ success: false, error: 'action must be save_dataset or run' }, { status: 400 })
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE — delete dataset
+export async function DELETE(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    await ensureDataDirs()
+
+    const body = await request.json()
+    const name = typeof body?.name === 'string' ? body.name.trim() : ''
+    if (!name) {
+      return NextResponse.json({ success: false, error: 'name is required' }, { status: 400 })
+    }
+    const accessError = enforceTenantAccess(request, { adminOnly: true })
+    if (accessError) return accessError
+
+    const deleted = await deleteEvalDataset(name)
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Eval dataset not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, message: 'Eval dataset deleted', name })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
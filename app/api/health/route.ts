@@ -1,81 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { enforceApiSecurity } from '@/lib/server/security'
 import { getDataRoot } from '@/lib/server/fsStore'
+import {
+  getDefaultChatProviderName,
+  getDefaultEmbeddingProviderName,
+  getProvider,
+  listProviders,
+  type ProviderHealth,
+} from '@/lib/server/llmProviders'
 
 export const runtime = 'nodejs'
 
 export async function GET(request: NextRequest) {
-  const securityError = enforceApiSecurity(request, {
+  const securityError = await enforceApiSecurity(request, {
     routeId: 'health',
     maxRequests: Number.parseInt(process.env.RATE_LIMIT_HEALTH_MAX || '120', 10),
     skipAuth: process.env.HEALTH_SKIP_AUTH === 'true',
   })
   if (securityError) return securityError
 
-  const chatProvider = (process.env.CHAT_PROVIDER || 'ollama').toLowerCase()
-  let chatStatus: 'ok' | 'down' | 'misconfigured' = 'down'
-  let ollamaStatus: 'ok' | 'down' | 'skipped' = 'skipped'
-  let nvidiaStatus: 'ok' | 'down' | 'skipped' | 'misconfigured' = 'skipped'
+  // Only the providers in use are probed; the rest report `skipped` unless `?probe=all` is passed.
+  const probeAll = new URL(request.url).searchParams.get('probe') === 'all'
+  const chatProvider = getDefaultChatProviderName()
+  const embeddingProvider = getDefaultEmbeddingProviderName()
+  const providerStatus: Record<string, ProviderHealth['status'] | 'skipped'> = {}
+  const providerDetails: Record<string, string> = {}
 
-  if (chatProvider === 'nvidia') {
-    const nvidiaBase = (process.env.NVIDIA_API_BASE_URL || process.env.NVIDIA_NIM_BASE_URL || 'https://integrate.api.nvidia.com/v1').replace(/\/+$/, '')
-    const nvidiaModelsUrl = nvidiaBase.endsWith('/models') ? nvidiaBase : `${nvidiaBase}/models`
-    const nvidiaApiKey = process.env.NVIDIA_API_KEY || process.env.NGC_API_KEY
-
-    if (!nvidiaApiKey) {
-      nvidiaStatus = 'misconfigured'
-      chatStatus = 'misconfigured'
-    } else {
-      try {
-        const controller = new AbortController()
-        const timeout = setTimeout(() => controller.abort(), 3000)
-        const res = await fetch(nvidiaModelsUrl, {
-          signal: controller.signal,
-          headers: {
-            'Authorization': `Bearer ${nvidiaApiKey}`,
-          },
-        }).finally(() => clearTimeout(timeout))
-        if (res.ok) {
-          nvidiaStatus = 'ok'
-          chatStatus = 'ok'
-        } else {
-          nvidiaStatus = 'down'
-          chatStatus = 'down'
-        }
-      } catch {
-        nvidiaStatus = 'down'
-        chatStatus = 'down'
-      }
-    }
-  } else {
-    const ollamaBaseUrl = process.env.OLLAMA_BASE_URL || 'http://127.0.0.1:11434'
-    try {
-      const controller = new AbortController()
-      const timeout = setTimeout(() => controller.abort(), 3000)
-      const res = await fetch(`${ollamaBaseUrl}/api/tags`, {
-        signal: controller.signal,
-      }).finally(() => clearTimeout(timeout))
-      if (res.ok) {
-        ollamaStatus = 'ok'
-        chatStatus = 'ok'
-      } else {
-        ollamaStatus = 'down'
-        chatStatus = 'down'
-      }
-    } catch {
-      ollamaStatus = 'down'
-      chatStatus = 'down'
+  await Promise.all(listProviders().map(async name => {
+    if (!probeAll && name !== chatProvider && name !== embeddingProvider) {
+      providerStatus[name] = 'skipped'
+      return
     }
-  }
+    const health = await getProvider(name).checkHealth()
+    providerStatus[name] = health.status
+    if (health.detail) providerDetails[name] = health.detail
+  }))
 
   return NextResponse.json({
     status: 'ok',
     services: {
       chat_provider: chatProvider,
-      chat_backend: chatStatus,
-      ollama: ollamaStatus,
-      nvidia: nvidiaStatus,
+      chat_backend: providerStatus[chatProvider],
+      embedding_provider: embeddingProvider,
+      embedding_backend: providerStatus[embeddingProvider],
+      ...providerStatus,
     },
+    provider_details: providerDetails,
     data_root: getDataRoot(),
     timestamp: new Date().toISOString(),
   })
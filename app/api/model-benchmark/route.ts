@@ -2,37 +2,37 @@ import { NextRequest, NextResponse } from 'next/server'
 /**
  * Model benchmark API route.
  * Responsibilities:
- * - Run the same prompt against multiple configured LLMs.
+ * - Run the same prompt against multiple configured LLMs, each routed to its own provider (`provider:model`).
  * - Score response quality/grounding heuristically.
  * - Return ranked results for side-by-side comparison.
+ * - Persist each run and serve run history, single runs and run diffs.
  */
 import { DEFAULT_RAG_ID, DEFAULT_RAG_TOP_K, DEFAULT_RATE_LIMIT_WINDOW_MS } from '@/lib/config/env'
 import { executeAgent } from '@/lib/server/agentRuntime'
+import {
+  diffBenchmarkRuns,
+  getBenchmarkRun,
+  getPromptHash,
+  listBenchmarkRuns,
+  saveBenchmarkRun,
+  type BenchmarkQuality,
+  type BenchmarkResult,
+  type BenchmarkRun,
+} from '@/lib/server/benchmarkStore'
 import { ensureDataDirs } from '@/lib/server/fsStore'
-import { ollamaEmbedding } from '@/lib/server/ollama'
+import { getDefaultChatProviderName, hasProvider } from '@/lib/server/llmProviders'
+import { getChatModel, ollamaEmbedding } from '@/lib/server/ollama'
 import { retrieveRelevantChunks } from '@/lib/server/ragStore'
 import { cosineSimilarity, keywordScore } from '@/lib/server/text'
-import { enforceApiSecurity } from '@/lib/server/security'
+import { enforceApiSecurity, enforceTenantAccess, getApiPrincipal } from '@/lib/server/security'
+import { canAccessRag, getRagScope } from '@/lib/server/tenants'
 
 export const runtime = 'nodejs'
 
-type BenchmarkQuality = {
-  overall: number
-  relevance: number
-  grounding: number
-  citations: number
-  completeness: number
-}
-
-type BenchmarkResult = {
+type BenchmarkTarget = {
+  provider: string
   model: string
-  status: 'ok' | 'error'
-  latency_ms: number
-  quality: BenchmarkQuality
-  response_text: string
-  citations: Array<{ title: string; venue: string; year: string }>
-  suggested_followups: string[]
-  error?: string
+  label: string
 }
 
 function clamp01(value: number): number {
@@ -174,28 +174,125 @@ function computeQuality(params: {
   }
 }
 
-function parseModels(input: unknown): string[] {
+/**
+ * Split a `provider:model` entry. The prefix only counts when it names a registered provider,
+ * so Ollama tags such as `llama3.1:8b` stay whole and go to the default provider.
+ * `provider:` alone uses that provider's configured chat model.
+ */
+function parseBenchmarkTarget(entry: string): BenchmarkTarget {
+  const separator = entry.indexOf(':')
+  const prefix = separator > 0 ? entry.slice(0, separator).trim().toLowerCase() : ''
+
+  if (prefix && hasProvider(prefix)) {
+    const model = entry.slice(separator + 1).trim() || getChatModel(prefix)
+    return { provider: prefix, model, label: `${prefix}:${model}` }
+  }
+
+  const provider = getDefaultChatProviderName()
+  return { provider, model: entry, label: `${provider}:${entry}` }
+}
+
+function parseModels(input: unknown): BenchmarkTarget[] {
   if (!Array.isArray(input)) return []
-  const models: string[] = []
+  const targets: BenchmarkTarget[] = []
   const seen = new Set<string>()
 
   for (const raw of input) {
-    const model = String(raw || '').trim()
-    if (!model || seen.has(model)) continue
-    seen.add(model)
-    models.push(model)
-    if (models.length >= 5) break
+    const entry = String(raw || '').trim()
+    if (!entry) continue
+    const target = parseBenchmarkTarget(entry)
+    if (seen.has(target.label)) continue
+    seen.add(target.label)
+    targets.push(target)
+    if (targets.length >= 5) break
   }
 
-  return models
+  return targets
 }
 
-export async function POST(request: NextRequest) {
-  const securityError = enforceApiSecurity(request, {
+function securityGuard(request: NextRequest): Promise<NextResponse | null> {
+  return enforceApiSecurity(request, {
     routeId: 'model-benchmark',
     maxRequests: Number.parseInt(process.env.RATE_LIMIT_BENCHMARK_MAX || '30', 10),
     windowMs: DEFAULT_RATE_LIMIT_WINDOW_MS,
   })
+}
+
+// GET — list | get | diff (stored benchmark runs)
+export async function GET(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    const { searchParams } = new URL(request.url)
+    const action = searchParams.get('action') || 'list'
+
+    switch (action) {
+      case 'get': {
+        const runId = searchParams.get('runId')
+        if (!runId) {
+          return NextResponse.json({ success: false, error: 'runId is required' }, { status: 400 })
+        }
+
+        const run = await getBenchmarkRun(runId)
+        if (!run || !canAccessRag(getApiPrincipal(request), run.rag_id)) {
+          return NextResponse.json({ success: false, error: 'Benchmark run not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ success: true, run })
+      }
+
+      case 'diff': {
+        const baseId = searchParams.get('base')
+        const targetId = searchParams.get('target')
+        if (!baseId || !targetId) {
+          return NextResponse.json({ success: false, error: 'base and target run ids are required' }, { status: 400 })
+        }
+
+        const [base, target] = await Promise.all([getBenchmarkRun(baseId), getBenchmarkRun(targetId)])
+        const principal = getApiPrincipal(request)
+        if (!base || !target || !canAccessRag(principal, base.rag_id) || !canAccessRag(principal, target.rag_id)) {
+          return NextResponse.json({ success: false, error: 'Benchmark run not found' }, { status: 404 })
+        }
+
+        const entries = diffBenchmarkRuns(base, target)
+        return NextResponse.json({
+          success: true,
+          base: { id: base.id, created_at: base.created_at, message: base.message },
+          target: { id: target.id, created_at: target.created_at, message: target.message },
+          same_prompt: base.prompt_hash === target.prompt_hash,
+          entries,
+          regressions: entries.flatMap(entry => entry.regressions),
+        })
+      }
+
+      case 'list':
+      default: {
+        const prompt = searchParams.get('prompt')
+        const ragId = searchParams.get('rag_id')
+        const skip = Number.parseInt(searchParams.get('skip') || '0', 10)
+        const limit = Number.parseInt(searchParams.get('limit') || '20', 10)
+
+        const data = await listBenchmarkRuns({
+          promptHash: prompt ? getPromptHash(prompt) : undefined,
+          ragId: ragId || undefined,
+          ...getRagScope(getApiPrincipal(request)),
+          skip: Number.isFinite(skip) && skip > 0 ? skip : 0,
+          limit: Number.isFinite(limit) && limit > 0 ? limit : 20,
+        })
+        return NextResponse.json({ success: true, ...data })
+      }
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const securityError = await securityGuard(request)
   if (securityError) return securityError
 
   try {
@@ -205,12 +302,15 @@ export async function POST(request: NextRequest) {
     const message = String(body?.message || '').trim()
     const models = parseModels(body?.models)
     const ragId = String(body?.rag_id || DEFAULT_RAG_ID)
+    const accessError = enforceTenantAccess(request, { ragIds: [ragId] })
+    if (accessError) return accessError
     const topK = Math.max(
       1,
       Math.min(12, Math.floor(toFiniteNumber(body?.top_k) ?? DEFAULT_RAG_TOP_K))
     )
     const temperature = toFiniteNumber(body?.temperature) ?? Number.parseFloat(process.env.BENCHMARK_TEMPERATURE || '0.2')
     const topP = toFiniteNumber(body?.top_p) ?? Number.parseFloat(process.env.BENCHMARK_TOP_P || '0.9')
+    const rerank = typeof body?.rerank === 'boolean' || typeof body?.rerank === 'string' ? body.rerank : undefined
 
     if (!message) {
       return NextResponse.json(
@@ -235,7 +335,7 @@ export async function POST(request: NextRequest) {
     const queryEmbedding = await ollamaEmbedding(message)
     const results: BenchmarkResult[] = []
 
-    for (const model of models) {
+    for (const { provider, model, label } of models) {
       const startedAt = Date.now()
 
       try {
@@ -245,10 +345,13 @@ export async function POST(request: NextRequest) {
           user_id: String(body?.user_id || 'benchmark-user'),
           session_id: String(body?.session_id || `benchmark-${crypto.randomUUID().slice(0, 12)}`),
           rag_id: ragId,
+          provider,
           chatModel: model,
           temperature,
           topP,
           topK,
+          rerank,
+          useConversationMemory: false,
         })
         const latencyMs = Date.now() - startedAt
         const answer = String(response?.result?.response_text || '').trim()
@@ -263,7 +366,9 @@ export async function POST(request: NextRequest) {
         })
 
         results.push({
+          provider,
           model,
+          label,
           status: 'ok',
           latency_ms: latencyMs,
           quality,
@@ -273,7 +378,9 @@ export async function POST(request: NextRequest) {
         })
       } catch (error) {
         results.push({
+          provider,
           model,
+          label,
           status: 'error',
           latency_ms: Date.now() - startedAt,
           quality: {
@@ -294,22 +401,45 @@ export async function POST(request: NextRequest) {
     const successful = results.filter(item => item.status === 'ok')
     const sortedByQuality = [...successful].sort((a, b) => b.quality.overall - a.quality.overall)
     const sortedByLatency = [...successful].sort((a, b) => a.latency_ms - b.latency_ms)
+    const summary = {
+      evaluated_models: results.length,
+      successful_models: successful.length,
+      failed_models: results.length - successful.length,
+      best_quality_model: sortedByQuality[0]?.label || null,
+      fastest_model: sortedByLatency[0]?.label || null,
+      providers: Array.from(new Set(results.map(item => item.provider))),
+    }
+
+    // History is best-effort: a read-only data dir should not discard a finished benchmark.
+    let run: BenchmarkRun | null = null
+    try {
+      run = await saveBenchmarkRun({
+        created_at: new Date().toISOString(),
+        message,
+        rag_id: ragId,
+        models: models.map(target => target.label),
+        parameters: { top_k: topK, temperature, top_p: topP, rerank },
+        context_chunk_ids: contextChunks.map(chunk => chunk.id),
+        summary,
+        results,
+      })
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown error'
+      console.warn(`[model-benchmark] Could not persist benchmark run: ${reason}`)
+    }
 
     return NextResponse.json({
       success: true,
+      run_id: run?.id || null,
+      previous_run_id: run?.previous_run_id || null,
+      regressions: run?.regressions || [],
       message,
       rag_id: ragId,
       top_k: topK,
       temperature,
       top_p: topP,
       context_chunks_used: contextChunks.length,
-      summary: {
-        evaluated_models: results.length,
-        successful_models: successful.length,
-        failed_models: results.length - successful.length,
-        best_quality_model: sortedByQuality[0]?.model || null,
-        fastest_model: sortedByLatency[0]?.model || null,
-      },
+      summary,
       results,
       timestamp: new Date().toISOString(),
     })
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+/**
+ * RAG retrieval debugging route.
+ * Responsibilities:
+ * - Run intent detection and retrieval for a query without calling the chat model.
+ * - Return the intent signals, per-document mention scores, per-stage chunk scores and dropped chunks.
+ * - Simulate follow-up questions from an explicit previous question; stored sessions are not readable here.
+ */
+import { DEFAULT_RAG_ID } from '@/lib/config/env'
+import { explainRetrieval } from '@/lib/server/agentRuntime'
+import { ensureDataDirs } from '@/lib/server/fsStore'
+import { enforceApiSecurity, enforceTenantAccess } from '@/lib/server/security'
+
+export const runtime = 'nodejs'
+
+const DEFAULT_CANDIDATE_LIMIT = 50
+
+function securityGuard(request: NextRequest): Promise<NextResponse | null> {
+  return enforceApiSecurity(request, {
+    routeId: 'rag-debug',
+    maxRequests: Number.parseInt(process.env.RATE_LIMIT_RAG_MAX || '90', 10),
+  })
+}
+
+function parsePositiveInt(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : Number.parseInt(String(value ?? ''), 10)
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : undefined
+}
+
+// Accepts a JSON array or a comma-separated query parameter.
+function parseDocumentList(value: unknown): string[] | undefined {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : []
+  const names = items.map(item => String(item ?? '').trim()).filter(Boolean)
+  return names.length ? names : undefined
+}
+
+async function explain(request: NextRequest, params: {
+  query: unknown
+  rag_id?: unknown
+  top_k?: unknown
+  previous_question?: unknown
+  previous_cited_documents?: unknown
+  rerank?: unknown
+  retrieval_fusion?: unknown
+  candidate_limit?: unknown
+}): Promise<NextResponse> {
+  const query = typeof params.query === 'string' ? params.query.trim() : ''
+  if (!query) {
+    return NextResponse.json({ success: false, error: 'query is required' }, { status: 400 })
+  }
+
+  const ragId = typeof params.rag_id === 'string' && params.rag_id.trim() ? params.rag_id.trim() : DEFAULT_RAG_ID
+  const accessError = enforceTenantAccess(request, { ragIds: [ragId] })
+  if (accessError) return accessError
+
+  const rerank = params.rerank === 'true' ? true : params.rerank === 'false' ? false : params.rerank
+  const { trace, chunks } = await explainRetrieval({
+    query,
+    rag_id: ragId,
+    topK: parsePositiveInt(params.top_k),
+    previousQuestion:
+      typeof params.previous_question === 'string' && params.previous_question.trim()
+        ? params.previous_question.trim()
+        : undefined,
+    previousCitedDocuments: parseDocumentList(params.previous_cited_documents),
+    rerank: typeof rerank === 'boolean' || typeof rerank === 'string' ? rerank : undefined,
+    retrievalFusion:
+      params.retrieval_fusion && typeof params.retrieval_fusion === 'object' ? params.retrieval_fusion : undefined,
+  })
+
+  // Stage scoring lists every candidate chunk; trim the tail so large corpora stay readable.
+  const candidateLimit = parsePositiveInt(params.candidate_limit) ?? DEFAULT_CANDIDATE_LIMIT
+  const stages = trace.stages.map(stage => ({
+    ...stage,
+    scoring: stage.scoring
+      ? { ...stage.scoring, candidates: stage.scoring.candidates.slice(0, candidateLimit) }
+      : null,
+  }))
+
+  return NextResponse.json({
+    success: true,
+    trace: { ...trace, stages },
+    chunks: chunks.map(chunk => ({
+      chunk_id: chunk.id,
+      document: chunk.sourceName,
+      source_role: chunk.sourceRole,
+      is_redundant: Boolean(chunk.isRedundant),
+      preview: chunk.text.slice(0, 240),
+    })),
+  })
+}
+
+// GET — ?query=...&rag_id=&top_k=&previous_question=&previous_cited_documents=&rerank=&candidate_limit=
+export async function GET(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    await ensureDataDirs()
+    const { searchParams } = new URL(request.url)
+    return await explain(request, {
+      query: searchParams.get('query'),
+      rag_id: searchParams.get('rag_id'),
+      top_k: searchParams.get('top_k'),
+      previous_question: searchParams.get('previous_question'),
+      previous_cited_documents: searchParams.get('previous_cited_documents'),
+      rerank: searchParams.get('rerank') ?? undefined,
+      candidate_limit: searchParams.get('candidate_limit'),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST — same fields as GET in the JSON body, plus retrieval_fusion
+export async function POST(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    await ensureDataDirs()
+    const body = await request.json()
+    return await explain(request, body || {})
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
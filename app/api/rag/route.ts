@@ -5,24 +5,39 @@ import { NextRequest, NextResponse } from 'next/server'
  * - List indexed documents.
  * - Ingest uploaded files and crawled content.
  * - Delete indexed documents and rebuild corpus subsets.
+ * - Export/import the corpus in store.json format.
+ * - Export/import single-rag archives and manage named snapshots (`lib/server/ragArchive.ts`).
  */
 import { DEFAULT_RAG_ID } from '@/lib/config/env'
 import { ensureDataDirs } from '@/lib/server/fsStore'
-import { enforceApiSecurity } from '@/lib/server/security'
+import { enforceApiSecurity, enforceTenantAccess } from '@/lib/server/security'
 import { withCanonicalMetadata } from '@/lib/config/publications'
+import { getPublicationCatalog } from '@/lib/server/agentProfiles'
 import {
   deleteRagDocuments,
+  exportRagSnapshot,
+  importRagSnapshot,
   ingestRagDocument,
   listRagDocuments,
   type RagDocumentMetadata,
   type RagSourceRole,
 } from '@/lib/server/ragStore'
-import { extractTextFromFile } from '@/lib/server/assetStore'
+import {
+  createRagSnapshot,
+  deleteRagSnapshot,
+  exportRagArchive,
+  importRagArchive,
+  listRagSnapshots,
+  RagArchiveValidationError,
+  restoreRagSnapshot,
+  type RagArchiveConflictMode,
+} from '@/lib/server/ragArchive'
+import { extractPdfText, extractTextFromFile } from '@/lib/server/assetStore'
 import { stripHtmlToText } from '@/lib/server/text'
 
 export const runtime = 'nodejs'
 
-function securityGuard(request: NextRequest): NextResponse | null {
+function securityGuard(request: NextRequest): Promise<NextResponse | null> {
   return enforceApiSecurity(request, {
     routeId: 'rag',
     maxRequests: Number.parseInt(process.env.RATE_LIMIT_RAG_MAX || '90', 10),
@@ -116,15 +131,6 @@ function buildUploadMetadata(formData: FormData): RagDocumentMetadata | undefine
   return metadata
 }
 
-function normalizeExtractedText(input: string): string {
-  return input
-    .replace(/\u0000/g, ' ')
-    .replace(/\r\n/g, '\n')
-    .replace(/[ \t]+\n/g, '\n')
-    .replace(/\n{3,}/g, '\n\n')
-    .trim()
-}
-
 function hashSuffix(input: string): string {
   let hash = 0
   for (let i = 0; i < input.length; i++) {
@@ -212,19 +218,95 @@ async function extractPdfTextFromUrl(url: URL): Promise<string> {
   }
 
   const buffer = Buffer.from(await response.arrayBuffer())
-  const pdfParseModule = await import('pdf-parse')
-  const pdfParseFn = (pdfParseModule.default || pdfParseModule) as (dataBuffer: Buffer) => Promise<{ text?: string }>
-  const parsed = await pdfParseFn(buffer)
-  const text = normalizeExtractedText(parsed?.text || '')
+  const text = await extractPdfText(buffer, url.toString())
   if (!text) {
     throw new Error('PDF had no extractable text (possible scanned/image-only paper)')
   }
   return text
 }
 
-// POST - List documents (JSON body) or Upload + index (formData)
+function parseConflictMode(input: unknown): RagArchiveConflictMode | null {
+  if (input === undefined || input === null || input === '') return 'skip'
+  return input === 'skip' || input === 'replace' || input === 'rename' ? input : null
+}
+
+/**
+ * Archive and snapshot actions of the JSON POST body. Returns null for other actions.
+ * Invalid archives, name clashes and embedding mismatches are reported as 400s; other failures
+ * propagate to the POST handler's 500.
+ */
+async function handleArchiveAction(body: any, ragId: string): Promise<NextResponse | null> {
+  const snapshotName = typeof body.name === 'string' ? body.name.trim() : ''
+
+  try {
+    switch (body.action) {
+      case 'export_archive': {
+        const archive = await exportRagArchive(ragId)
+        return NextResponse.json({ success: true, ragId, archive, timestamp: new Date().toISOString() })
+      }
+
+      case 'import_archive': {
+        if (!body.archive || typeof body.archive !== 'object') {
+          return NextResponse.json({ success: false, error: 'archive is required for import_archive' }, { status: 400 })
+        }
+        const onConflict = parseConflictMode(body.onConflict)
+        if (!onConflict) {
+          return NextResponse.json(
+            { success: false, error: 'onConflict must be skip, replace or rename' },
+            { status: 400 }
+          )
+        }
+
+        const imported = await importRagArchive(body.archive, {
+          targetRagId: ragId,
+          onConflict,
+          allowEmbeddingMismatch: body.allowEmbeddingMismatch === true,
+          dryRun: body.dryRun === true,
+        })
+        return NextResponse.json({ success: true, ...imported, timestamp: new Date().toISOString() })
+      }
+
+      case 'list_snapshots': {
+        const snapshots = await listRagSnapshots(ragId)
+        return NextResponse.json({ success: true, ragId, snapshots, timestamp: new Date().toISOString() })
+      }
+
+      case 'create_snapshot': {
+        const snapshot = await createRagSnapshot(ragId, snapshotName, {
+          note: typeof body.note === 'string' ? body.note : undefined,
+          overwrite: body.overwrite === true,
+        })
+        return NextResponse.json({ success: true, snapshot, timestamp: new Date().toISOString() }, { status: 201 })
+      }
+
+      case 'restore_snapshot': {
+        const restored = snapshotName ? await restoreRagSnapshot(ragId, snapshotName) : null
+        if (!restored) {
+          return NextResponse.json({ success: false, error: 'Snapshot not found' }, { status: 404 })
+        }
+        return NextResponse.json({ success: true, snapshot: snapshotName, ...restored, timestamp: new Date().toISOString() })
+      }
+
+      case 'delete_snapshot': {
+        const deleted = snapshotName ? await deleteRagSnapshot(ragId, snapshotName) : false
+        if (!deleted) {
+          return NextResponse.json({ success: false, error: 'Snapshot not found' }, { status: 404 })
+        }
+        return NextResponse.json({ success: true, message: 'Snapshot deleted', ragId, snapshot: snapshotName })
+      }
+
+      default:
+        return null
+    }
+  } catch (error) {
+    if (!(error instanceof RagArchiveValidationError)) throw error
+    return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+  }
+}
+
+// POST - List/export/import documents and archives, manage snapshots (JSON body) or Upload + index (formData)
 export async function POST(request: NextRequest) {
-  const securityError = securityGuard(request)
+  const securityError = await securityGuard(request)
   if (securityError) return securityError
 
   try {
@@ -234,7 +316,51 @@ export async function POST(request: NextRequest) {
 
     if (contentType.includes('application/json')) {
       const body = await request.json()
-      const ragId = String(body.ragId || DEFAULT_RAG_ID)
+      // An archive is imported into its own rag_id unless ragId names another target.
+      const ragId = String(
+        body.ragId
+        || (body.action === 'import_archive' && typeof body.archive?.ragId === 'string' ? body.archive.ragId : '')
+        || DEFAULT_RAG_ID
+      )
+      // Whole-store exports and imports can span several tenants' corpora.
+      const accessError = enforceTenantAccess(
+        request,
+        body.action === 'import' || (body.action === 'export' && body.allRags === true)
+          ? { adminOnly: true }
+          : { ragIds: [ragId] }
+      )
+      if (accessError) return accessError
+
+      const archiveResponse = await handleArchiveAction(body, ragId)
+      if (archiveResponse) return archiveResponse
+
+      if (body.action === 'export') {
+        const snapshot = await exportRagSnapshot(body.allRags === true ? undefined : ragId)
+        return NextResponse.json({
+          success: true,
+          ragId: body.allRags === true ? null : ragId,
+          snapshot,
+          timestamp: new Date().toISOString(),
+        })
+      }
+
+      if (body.action === 'import') {
+        if (!body.snapshot || typeof body.snapshot !== 'object') {
+          return NextResponse.json(
+            { success: false, error: 'snapshot is required for import' },
+            { status: 400 }
+          )
+        }
+
+        const imported = await importRagSnapshot(body.snapshot, {
+          mode: body.mode === 'replace' ? 'replace' : 'merge',
+        })
+        return NextResponse.json({
+          success: true,
+          ...imported,
+          timestamp: new Date().toISOString(),
+        })
+      }
 
       const documents = await listRagDocuments(ragId)
       return NextResponse.json({
@@ -245,6 +371,7 @@ export async function POST(request: NextRequest) {
           status: doc.status,
           uploadedAt: doc.uploadedAt,
           documentCount: doc.documentCount,
+          missingEmbeddings: doc.missingEmbeddings || 0,
           sourceRole: doc.sourceRole,
           metadata: doc.metadata,
         })),
@@ -255,6 +382,8 @@ export async function POST(request: NextRequest) {
 
     const formData = await request.formData()
     const ragId = String(formData.get('ragId') || DEFAULT_RAG_ID)
+    const accessError = enforceTenantAccess(request, { ragIds: [ragId] })
+    if (accessError) return accessError
     const file = formData.get('file')
 
     if (!(file instanceof File)) {
@@ -283,7 +412,7 @@ export async function POST(request: NextRequest) {
       formData.get('sourceRole'),
       inferSourceRoleFromName(file.name, 'upload')
     )
-    const metadata = withCanonicalMetadata(file.name, buildUploadMetadata(formData))
+    const metadata = withCanonicalMetadata(file.name, await getPublicationCatalog(ragId), buildUploadMetadata(formData))
 
     const document = await ingestRagDocument({
       ragId,
@@ -296,14 +425,23 @@ export async function POST(request: NextRequest) {
       metadata,
     })
 
-    return NextResponse.json({
-      success: true,
-      message: warning
+    const missingEmbeddings = document.missingEmbeddings || 0
+    const messages = [
+      warning
         ? `${warning} Indexed text content that could be extracted.`
         : 'Document uploaded and indexed successfully',
+    ]
+    if (missingEmbeddings) {
+      messages.push(`${missingEmbeddings} of ${document.documentCount} chunks could not be embedded and are only reachable through keyword search.`)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: messages.join(' '),
       fileName: document.fileName,
       fileType: document.fileType,
       documentCount: document.documentCount,
+      missingEmbeddings,
       sourceRole: document.sourceRole,
       metadata: document.metadata,
       ragId,
@@ -322,7 +460,7 @@ export async function POST(request: NextRequest) {
 
 // PATCH - Crawl website and index page text
 export async function PATCH(request: NextRequest) {
-  const securityError = securityGuard(request)
+  const securityError = await securityGuard(request)
   if (securityError) return securityError
 
   try {
@@ -330,6 +468,8 @@ export async function PATCH(request: NextRequest) {
 
     const body = await request.json()
     const ragId = String(body.ragId || DEFAULT_RAG_ID)
+    const accessError = enforceTenantAccess(request, { ragIds: [ragId] })
+    if (accessError) return accessError
     const url = String(body.url || '')
     const rebuild = Boolean(body.rebuild || body.reset || body.fresh)
     const discoverLinks = Boolean(body.discoverLinks || body.crawlPapers || body.mode === 'publications')
@@ -402,7 +542,7 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
-    await ingestRagDocument({
+    const seedDocument = await ingestRagDocument({
       ragId,
       fileName: urlToFileName(parsedUrl, 'txt'),
       fileType: 'txt',
@@ -414,6 +554,7 @@ export async function PATCH(request: NextRequest) {
 
     let indexedPages = 1
     let indexedPdfs = 0
+    let missingEmbeddings = seedDocument.missingEmbeddings || 0
     const failures: Array<{ url: string; error: string }> = []
 
     if (discoverLinks) {
@@ -431,7 +572,7 @@ export async function PATCH(request: NextRequest) {
             continue
           }
 
-          await ingestRagDocument({
+          const pdfDocument = await ingestRagDocument({
             ragId,
             fileName: urlToFileName(pdfLink, 'pdf'),
             fileType: 'pdf',
@@ -441,6 +582,7 @@ export async function PATCH(request: NextRequest) {
             sourceRole: 'web',
           })
           indexedPdfs += 1
+          missingEmbeddings += pdfDocument.missingEmbeddings || 0
         } catch (error) {
           failures.push({
             url: pdfLink.toString(),
@@ -479,7 +621,7 @@ export async function PATCH(request: NextRequest) {
               continue
             }
 
-            await ingestRagDocument({
+            const pageDocument = await ingestRagDocument({
               ragId,
               fileName: urlToFileName(pageLink, 'txt'),
               fileType: 'txt',
@@ -489,6 +631,7 @@ export async function PATCH(request: NextRequest) {
               sourceRole: 'web',
             })
             indexedPages += 1
+            missingEmbeddings += pageDocument.missingEmbeddings || 0
           } catch (error) {
             failures.push({
               url: pageLink.toString(),
@@ -510,6 +653,7 @@ export async function PATCH(request: NextRequest) {
       deletedCount,
       indexedPages,
       indexedPdfs,
+      missingEmbeddings,
       failures: failures.slice(0, 20),
       timestamp: new Date().toISOString(),
     })
@@ -526,7 +670,7 @@ export async function PATCH(request: NextRequest) {
 
 // DELETE - Remove documents from local knowledge base
 export async function DELETE(request: NextRequest) {
-  const securityError = securityGuard(request)
+  const securityError = await securityGuard(request)
   if (securityError) return securityError
 
   try {
@@ -534,6 +678,8 @@ export async function DELETE(request: NextRequest) {
 
     const body = await request.json()
     const ragId = String(body.ragId || DEFAULT_RAG_ID)
+    const accessError = enforceTenantAccess(request, { ragIds: [ragId] })
+    if (accessError) return accessError
     const documentNames = body.documentNames
 
     if (!Array.isArray(documentNames)) {
@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { getAgentProfile } from '@/lib/server/agentProfiles'
 import { ensureDataDirs } from '@/lib/server/fsStore'
-import { enforceApiSecurity } from '@/lib/server/security'
+import { enforceApiSecurity, enforceTenantAccess, getApiPrincipal } from '@/lib/server/security'
+import { canAccessRag, getTenantScope } from '@/lib/server/tenants'
+import { DEFAULT_RAG_ID } from '@/lib/config/env'
 import {
+  createReembedJob,
   createSchedule,
   deleteSchedule,
+  getJob,
   getRecentExecutions,
   getSchedule,
   getScheduleLogs,
   getSchedulesForAgent,
   initializeSchedulerEngine,
+  listJobs,
   listSchedules,
   pauseSchedule,
   resumeSchedule,
@@ -19,16 +25,33 @@ export const runtime = 'nodejs'
 
 initializeSchedulerEngine()
 
-function securityGuard(request: NextRequest): NextResponse | null {
+function securityGuard(request: NextRequest): Promise<NextResponse | null> {
   return enforceApiSecurity(request, {
     routeId: 'scheduler',
     maxRequests: Number.parseInt(process.env.RATE_LIMIT_SCHEDULER_MAX || '90', 10),
   })
 }
 
-// GET — list | get | by-agent | logs | recent
+// The caller's tenant id, null for anonymous callers and undefined for admins (see getTenantScope).
+function getTenantId(request: NextRequest): string | null | undefined {
+  return getTenantScope(getApiPrincipal(request))
+}
+
+// Another tenant's schedule is reported as missing, like an unknown id.
+async function findOwnSchedule(request: NextRequest, scheduleId: string) {
+  const schedule = await getSchedule(scheduleId)
+  const tenantId = getTenantId(request)
+  if (!schedule || (tenantId !== undefined && (schedule.tenant_id ?? null) !== tenantId)) return null
+  return schedule
+}
+
+function scheduleNotFound() {
+  return NextResponse.json({ success: false, error: 'Schedule not found' }, { status: 404 })
+}
+
+// GET — list | get | by-agent | logs | recent | jobs | job
 export async function GET(request: NextRequest) {
-  const securityError = securityGuard(request)
+  const securityError = await securityGuard(request)
   if (securityError) return securityError
 
   try {
@@ -40,15 +63,40 @@ export async function GET(request: NextRequest) {
     const agentId = searchParams.get('agentId')
 
     switch (action) {
+      case 'jobs': {
+        const ragId = searchParams.get('ragId')
+        if (ragId) {
+          const accessError = enforceTenantAccess(request, { ragIds: [ragId] })
+          if (accessError) return accessError
+        }
+
+        const principal = getApiPrincipal(request)
+        const data = await listJobs({ ragId: ragId || undefined })
+        const jobs = data.jobs.filter(job => canAccessRag(principal, job.rag_id))
+        return NextResponse.json({ success: true, jobs, total: jobs.length })
+      }
+
+      case 'job': {
+        const jobId = searchParams.get('jobId')
+        if (!jobId) {
+          return NextResponse.json({ success: false, error: 'jobId is required' }, { status: 400 })
+        }
+
+        const job = await getJob(jobId)
+        if (!job || !canAccessRag(getApiPrincipal(request), job.rag_id)) {
+          return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ success: true, job })
+      }
+
       case 'get': {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
 
-        const schedule = await getSchedule(scheduleId)
-        if (!schedule) {
-          return NextResponse.json({ success: false, error: 'Schedule not found' }, { status: 404 })
-        }
+        const schedule = await findOwnSchedule(request, scheduleId)
+        if (!schedule) return scheduleNotFound()
 
         return NextResponse.json({ success: true, ...schedule })
       }
@@ -58,7 +106,10 @@ export async function GET(request: NextRequest) {
           return NextResponse.json({ success: false, error: 'agentId is required' }, { status: 400 })
         }
 
-        const data = await getSchedulesForAgent(agentId)
+        const accessError = enforceTenantAccess(request, { agentIds: [agentId] })
+        if (accessError) return accessError
+
+        const data = await getSchedulesForAgent(agentId, getTenantId(request))
         return NextResponse.json({ success: true, ...data })
       }
 
@@ -67,6 +118,8 @@ export async function GET(request: NextRequest) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
 
+        if (!(await findOwnSchedule(request, scheduleId))) return scheduleNotFound()
+
         const skip = Number.parseInt(searchParams.get('skip') || '0', 10)
         const limit = Number.parseInt(searchParams.get('limit') || '20', 10)
         const data = await getScheduleLogs(scheduleId, { skip, limit })
@@ -82,6 +135,7 @@ export async function GET(request: NextRequest) {
 
         const data = await getRecentExecutions({
           agentId: agentId || undefined,
+          tenantId: getTenantId(request),
           success: success === null ? undefined : success === 'true',
           hours: hours ? Number.parseInt(hours, 10) : undefined,
           days: days ? Number.parseInt(days, 10) : undefined,
@@ -100,6 +154,7 @@ export async function GET(request: NextRequest) {
 
         const data = await listSchedules({
           agentId: agentId || undefined,
+          tenantId: getTenantId(request),
           is_active: isActive === null ? undefined : isActive === 'true',
           skip,
           limit,
@@ -116,9 +171,9 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST — create | pause | resume | trigger
+// POST — create | pause | resume | trigger | reembed
 export async function POST(request: NextRequest) {
-  const securityError = securityGuard(request)
+  const securityError = await securityGuard(request)
   if (securityError) return securityError
 
   try {
@@ -128,10 +183,28 @@ export async function POST(request: NextRequest) {
     const { action, scheduleId, ...params } = body
 
     switch (action) {
+      case 'reembed': {
+        const ragId = String(params.ragId || DEFAULT_RAG_ID)
+        const accessError = enforceTenantAccess(request, { ragIds: [ragId] })
+        if (accessError) return accessError
+        const model = typeof params.model === 'string' ? params.model : undefined
+        const { job, created } = await createReembedJob({ rag_id: ragId, model })
+
+        return NextResponse.json(
+          {
+            success: true,
+            message: created ? 'Re-embedding job queued' : 'A re-embedding job for this rag and model is already in progress',
+            job,
+          },
+          { status: 202 }
+        )
+      }
+
       case 'trigger': {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
+        if (!(await findOwnSchedule(request, scheduleId))) return scheduleNotFound()
 
         const triggered = await triggerSchedule(scheduleId)
         if (!triggered) {
@@ -145,6 +218,7 @@ export async function POST(request: NextRequest) {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
+        if (!(await findOwnSchedule(request, scheduleId))) return scheduleNotFound()
 
         const schedule = await pauseSchedule(scheduleId)
         if (!schedule) {
@@ -158,6 +232,7 @@ export async function POST(request: NextRequest) {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
+        if (!(await findOwnSchedule(request, scheduleId))) return scheduleNotFound()
 
         const schedule = await resumeSchedule(scheduleId)
         if (!schedule) {
@@ -176,6 +251,17 @@ export async function POST(request: NextRequest) {
           )
         }
 
+        const accessError = enforceTenantAccess(request, { agentIds: [String(params.agent_id)] })
+        if (accessError) return accessError
+
+        // Tenant runs refuse agents without a profile; reject the schedule now rather than on every tick.
+        if (getTenantId(request) && !(await getAgentProfile(String(params.agent_id)))) {
+          return NextResponse.json(
+            { success: false, error: `No profile for agent "${String(params.agent_id)}"` },
+            { status: 404 }
+          )
+        }
+
         const schedule = await createSchedule({
           agent_id: String(params.agent_id),
           cron_expression: String(params.cron_expression),
@@ -184,6 +270,7 @@ export async function POST(request: NextRequest) {
           max_retries: params.max_retries ? Number(params.max_retries) : 1,
           retry_delay: params.retry_delay ? Number(params.retry_delay) : 30,
           user_id: process.env.DEFAULT_USER_ID || 'local-user',
+          tenant_id: getTenantId(request) ?? undefined,
         })
 
         return NextResponse.json({ success: true, ...schedule }, { status: 201 })
@@ -199,7 +286,7 @@ export async function POST(request: NextRequest) {
 
 // DELETE — delete schedule
 export async function DELETE(request: NextRequest) {
-  const securityError = securityGuard(request)
+  const securityError = await securityGuard(request)
   if (securityError) return securityError
 
   try {
@@ -211,6 +298,7 @@ export async function DELETE(request: NextRequest) {
     if (!scheduleId) {
       return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
     }
+    if (!(await findOwnSchedule(request, String(scheduleId)))) return scheduleNotFound()
 
     const deleted = await deleteSchedule(String(scheduleId))
     if (!deleted) {
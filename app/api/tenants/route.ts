@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+/**
+ * Tenant administration route (admin credentials only).
+ * Responsibilities:
+ * - List, create/update and delete tenants with their agent_ids, rag_ids and fallback_rag_id.
+ * - Issue and revoke tenant API tokens.
+ */
+import { DEFAULT_RATE_LIMIT_WINDOW_MS } from '@/lib/config/env'
+import { ensureDataDirs } from '@/lib/server/fsStore'
+import { enforceApiSecurity, enforceTenantAccess } from '@/lib/server/security'
+import {
+  createTenantToken,
+  deleteTenant,
+  getTenant,
+  listTenants,
+  revokeTenantToken,
+  saveTenant,
+  toTenantView,
+} from '@/lib/server/tenants'
+
+export const runtime = 'nodejs'
+
+async function securityGuard(request: NextRequest): Promise<NextResponse | null> {
+  const securityError = await enforceApiSecurity(request, {
+    routeId: 'tenants',
+    maxRequests: Number.parseInt(process.env.RATE_LIMIT_TENANTS_MAX || '30', 10),
+    windowMs: DEFAULT_RATE_LIMIT_WINDOW_MS,
+  })
+  return securityError ?? enforceTenantAccess(request, { adminOnly: true })
+}
+
+// GET — list | get
+export async function GET(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    await ensureDataDirs()
+
+    const { searchParams } = new URL(request.url)
+    const tenantId = searchParams.get('tenant_id')
+
+    if (searchParams.get('action') === 'get') {
+      if (!tenantId) {
+        return NextResponse.json({ success: false, error: 'tenant_id is required' }, { status: 400 })
+      }
+
+      const tenant = await getTenant(tenantId)
+      if (!tenant) {
+        return NextResponse.json({ success: false, error: 'Tenant not found' }, { status: 404 })
+      }
+
+      return NextResponse.json({ success: true, tenant: toTenantView(tenant) })
+    }
+
+    const tenants = await listTenants()
+    return NextResponse.json({ success: true, tenants: tenants.map(toTenantView) })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST — save | create_token | revoke_token
+export async function POST(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    await ensureDataDirs()
+
+    const body = await request.json()
+    const { action, ...params } = body || {}
+    const tenantId = typeof params.tenant_id === 'string' ? params.tenant_id.trim() : ''
+
+    switch (action) {
+      case 'create_token': {
+        if (!tenantId) {
+          return NextResponse.json({ success: false, error: 'tenant_id is required' }, { status: 400 })
+        }
+
+        const created = await createTenantToken(tenantId, typeof params.label === 'string' ? params.label : undefined)
+        if (!created) {
+          return NextResponse.json({ success: false, error: 'Tenant not found' }, { status: 404 })
+        }
+
+        // The plain token is shown once; only its hash is stored.
+        return NextResponse.json({ success: true, token: created.token, record: created.record }, { status: 201 })
+      }
+
+      case 'revoke_token': {
+        const tokenId = typeof params.token_id === 'string' ? params.token_id.trim() : ''
+        if (!tenantId || !tokenId) {
+          return NextResponse.json({ success: false, error: 'tenant_id and token_id are required' }, { status: 400 })
+        }
+
+        const revoked = await revokeTenantToken(tenantId, tokenId)
+        if (!revoked) {
+          return NextResponse.json({ success: false, error: 'Token not found' }, { status: 404 })
+        }
+
+        return NextResponse.json({ success: true, message: 'Token revoked', token_id: tokenId })
+      }
+
+      case 'save': {
+        try {
+          const tenant = await saveTenant(params.tenant)
+          return NextResponse.json({ success: true, tenant: toTenantView(tenant) }, { status: 201 })
+        } catch (error) {
+          return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Invalid tenant' },
+            { status: 400 }
+          )
+        }
+      }
+
+      default:
+        return NextResponse.json(
+          { success: false, error: 'action must be save, create_token or revoke_token' },
+          { status: 400 }
+        )
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE — delete tenant (its corpora, assets and schedules are left in place)
+export async function DELETE(request: NextRequest) {
+  const securityError = await securityGuard(request)
+  if (securityError) return securityError
+
+  try {
+    await ensureDataDirs()
+
+    const body = await request.json()
+    const tenantId = typeof body?.tenant_id === 'string' ? body.tenant_id.trim() : ''
+    if (!tenantId) {
+      return NextResponse.json({ success: false, error: 'tenant_id is required' }, { status: 400 })
+    }
+
+    const deleted = await deleteTenant(tenantId)
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: 'Tenant not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, message: 'Tenant deleted', tenant_id: tenantId })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Server error' },
+      { status: 500 }
+    )
+  }
+}
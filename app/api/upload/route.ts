@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { ensureDataDirs } from '@/lib/server/fsStore'
-import { enforceApiSecurity } from '@/lib/server/security'
+import { enforceApiSecurity, getApiPrincipal } from '@/lib/server/security'
+import { getTenantScope } from '@/lib/server/tenants'
 import { saveUploadedFiles } from '@/lib/server/assetStore'
 
 export const runtime = 'nodejs'
 
 export async function POST(request: NextRequest) {
-  const securityError = enforceApiSecurity(request, {
+  const securityError = await enforceApiSecurity(request, {
     routeId: 'upload',
     maxRequests: Number.parseInt(process.env.RATE_LIMIT_UPLOAD_MAX || '60', 10),
   })
@@ -36,7 +37,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { uploaded, failed } = await saveUploadedFiles(files)
+    const { uploaded, failed } = await saveUploadedFiles(files, getTenantScope(getApiPrincipal(request)) ?? undefined)
 
     return NextResponse.json({
       success: failed.length === 0,
@@ -9,7 +9,7 @@
  */
 
 import React, { useState, useEffect, useRef, useCallback } from 'react'
-import { callAIAgent } from '@/lib/aiAgent'
+import { callAIAgent, fetchAgentOptions, type AgentGenerationOptions, type AgentGenerationSettings } from '@/lib/aiAgent'
 import { DEFAULT_PUBLIC_AGENT_ID, DEFAULT_PUBLIC_RAG_ID } from '@/lib/config/env'
 import fetchWrapper from '@/lib/fetchWrapper'
 import {
@@ -29,7 +29,9 @@ import { Switch } from '@/components/ui/switch'
 import { Label } from '@/components/ui/label'
 import { Separator } from '@/components/ui/separator'
 import { Collapsible, CollapsibleTrigger, CollapsibleContent } from '@/components/ui/collapsible'
-import { FiSend, FiExternalLink, FiUpload, FiChevronDown, FiChevronUp, FiTrash2, FiFile, FiMessageSquare, FiUser, FiClock, FiBookOpen, FiLayers, FiRefreshCw, FiAlertCircle, FiCheck, FiX } from 'react-icons/fi'
+import { Input } from '@/components/ui/input'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet'
+import { FiSend, FiExternalLink, FiUpload, FiChevronDown, FiChevronUp, FiTrash2, FiFile, FiMessageSquare, FiUser, FiClock, FiBookOpen, FiLayers, FiRefreshCw, FiAlertCircle, FiCheck, FiX, FiStopCircle, FiSliders } from 'react-icons/fi'
 import { FaGithub, FaGraduationCap } from 'react-icons/fa'
 
 // --- Constants ---
@@ -62,11 +64,27 @@ interface Citation {
   year: string
 }
 
+interface EvidenceSpan {
+  marker: string
+  chunk_id: string
+  document: string
+  source_role: string
+  source_label: string
+  title: string
+  heading: string | null
+  page_start: number | null
+  page_end: number | null
+  location: string
+  text: string
+  cited: boolean
+}
+
 interface ChatMessage {
   role: 'user' | 'twin'
   content: string
   metadata?: string
   citations?: Citation[]
+  evidence?: EvidenceSpan[]
   followups?: string[]
   timestamp: string
 }
@@ -87,7 +105,9 @@ interface BenchmarkQuality {
 }
 
 interface BenchmarkResult {
+  provider?: string
   model: string
+  label?: string
   status: 'ok' | 'error'
   latency_ms: number
   quality: BenchmarkQuality
@@ -97,6 +117,35 @@ interface BenchmarkResult {
   error?: string
 }
 
+interface BenchmarkRegression {
+  label: string
+  kind: 'quality' | 'latency' | 'failure'
+  previous: number
+  current: number
+  delta: number
+}
+
+interface BenchmarkRunSummary {
+  id: string
+  created_at: string
+  message: string
+  models: string[]
+  best_quality_model: string | null
+  regression_count: number
+}
+
+// Advanced settings form; empty strings mean "use the server default".
+interface GenerationForm {
+  model: string
+  temperature: string
+  top_p: string
+  top_k: string
+  max_tokens: string
+  intent: string
+  source_roles: string[]
+  max_chunks_per_document: string
+}
+
 // --- Real Data from manogna-s.github.io ---
 const ALL_PUBLICATIONS: SamplePublication[] = [
   {
@@ -199,6 +248,17 @@ const DEFAULT_BENCHMARK_MODELS = [
   'nvidia/llama-3.3-nemotron-super-49b-v1.5',
 ]
 
+const EMPTY_GENERATION_FORM: GenerationForm = {
+  model: '',
+  temperature: '',
+  top_p: '',
+  top_k: '',
+  max_tokens: '',
+  intent: '',
+  source_roles: [],
+  max_chunks_per_document: '',
+}
+
 const SAMPLE_MESSAGES: ChatMessage[] = [
   {
     role: 'user',
@@ -222,16 +282,43 @@ const SAMPLE_MESSAGES: ChatMessage[] = [
 ]
 
 // --- Markdown Renderer ---
-function formatInline(text: string): React.ReactNode {
+interface EvidenceMarkerLinks {
+  markers: Set<string>
+  activeMarker: string | null
+  onSelect: (marker: string) => void
+}
+
+function linkEvidenceMarkers(text: string, links?: EvidenceMarkerLinks): React.ReactNode {
+  if (!links || !links.markers.size) return text
+  const parts = text.split(/\[((?:TR|P|T|W|S)\d+)\]/g)
+  if (parts.length === 1) return text
+  return parts.map((part, i) => {
+    if (i % 2 === 0) return <React.Fragment key={i}>{part}</React.Fragment>
+    if (!links.markers.has(part)) return <React.Fragment key={i}>[{part}]</React.Fragment>
+    const isActive = links.activeMarker === part
+    return (
+      <button
+        key={i}
+        type="button"
+        onClick={() => links.onSelect(part)}
+        className={`mx-0.5 px-1 text-[11px] font-mono border transition-colors ${isActive ? 'border-[hsl(0,70%,55%)] text-[hsl(0,70%,55%)]' : 'border-border text-muted-foreground hover:text-foreground hover:border-foreground'}`}
+      >
+        {part}
+      </button>
+    )
+  })
+}
+
+function formatInline(text: string, links?: EvidenceMarkerLinks): React.ReactNode {
   const parts = text.split(/\*\*(.*?)\*\*/g)
   if (parts.length === 1) {
     const codeParts = text.split(/`([^`]+)`/g)
-    if (codeParts.length === 1) return text
+    if (codeParts.length === 1) return linkEvidenceMarkers(text, links)
     return codeParts.map((part, i) =>
       i % 2 === 1 ? (
         <code key={i} className="px-1.5 py-0.5 bg-muted text-sm font-mono">{part}</code>
       ) : (
-        <React.Fragment key={i}>{part}</React.Fragment>
+        <React.Fragment key={i}>{linkEvidenceMarkers(part, links)}</React.Fragment>
       )
     )
   }
@@ -239,12 +326,12 @@ function formatInline(text: string): React.ReactNode {
     i % 2 === 1 ? (
       <strong key={i} className="font-semibold">{part}</strong>
     ) : (
-      <React.Fragment key={i}>{part}</React.Fragment>
+      <React.Fragment key={i}>{linkEvidenceMarkers(part, links)}</React.Fragment>
     )
   )
 }
 
-function renderMarkdown(text: string) {
+function renderMarkdown(text: string, links?: EvidenceMarkerLinks) {
   if (!text) return null
   return (
     <div className="space-y-2" style={{ lineHeight: '1.7', letterSpacing: '-0.02em' }}>
@@ -256,11 +343,11 @@ function renderMarkdown(text: string) {
         if (line.startsWith('# '))
           return <h2 key={i} className="font-bold text-lg mt-4 mb-2 text-foreground">{line.slice(2)}</h2>
         if (line.startsWith('- ') || line.startsWith('* '))
-          return <li key={i} className="ml-4 list-disc text-sm text-foreground/90">{formatInline(line.slice(2))}</li>
+          return <li key={i} className="ml-4 list-disc text-sm text-foreground/90">{formatInline(line.slice(2), links)}</li>
         if (/^\d+\.\s/.test(line))
-          return <li key={i} className="ml-4 list-decimal text-sm text-foreground/90">{formatInline(line.replace(/^\d+\.\s/, ''))}</li>
+          return <li key={i} className="ml-4 list-decimal text-sm text-foreground/90">{formatInline(line.replace(/^\d+\.\s/, ''), links)}</li>
         if (!line.trim()) return <div key={i} className="h-1" />
-        return <p key={i} className="text-sm text-foreground/90">{formatInline(line)}</p>
+        return <p key={i} className="text-sm text-foreground/90">{formatInline(line, links)}</p>
       })}
     </div>
   )
@@ -651,6 +738,16 @@ function ChatMessageBubble({ msg, onFollowup }: { msg: ChatMessage; onFollowup:
   const isUser = msg.role === 'user'
   const [isMetadataOpen, setIsMetadataOpen] = useState(false)
   const hasMetadata = Boolean((msg.metadata && msg.metadata.trim()) || (Array.isArray(msg.citations) && msg.citations.length > 0))
+  const [activeMarker, setActiveMarker] = useState<string | null>(null)
+  const evidence = Array.isArray(msg.evidence) ? msg.evidence : []
+  const activeSpan = evidence.find((span) => span.marker === activeMarker) ?? null
+  const markerLinks: EvidenceMarkerLinks | undefined = evidence.length > 0
+    ? {
+        markers: new Set(evidence.map((span) => span.marker)),
+        activeMarker,
+        onSelect: (marker) => setActiveMarker((current) => (current === marker ? null : marker)),
+      }
+    : undefined
 
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
@@ -666,11 +763,31 @@ function ChatMessageBubble({ msg, onFollowup }: { msg: ChatMessage; onFollowup:
           </div>
         )}
         <div className="px-4 py-3">
-          {!isUser ? renderMarkdown(msg.content) : (
+          {!isUser ? renderMarkdown(msg.content, markerLinks) : (
             <p className="text-sm text-foreground" style={{ lineHeight: '1.7' }}>{msg.content}</p>
           )}
         </div>
 
+        {activeSpan && (
+          <div className="mx-4 mb-3 border border-border bg-secondary/30 p-3">
+            <div className="flex items-start justify-between gap-2 mb-2">
+              <div className="min-w-0">
+                <p className="text-[10px] uppercase tracking-widest text-muted-foreground">
+                  [{activeSpan.marker}] {activeSpan.source_label}
+                </p>
+                <p className="text-xs text-foreground truncate">{activeSpan.title || activeSpan.document}</p>
+                {(activeSpan.heading || activeSpan.location) && (
+                  <p className="text-[11px] text-muted-foreground truncate">{activeSpan.heading || activeSpan.location}</p>
+                )}
+              </div>
+              <Button variant="ghost" size="sm" className="h-6 px-1 text-muted-foreground" onClick={() => setActiveMarker(null)}>
+                <FiX className="w-3 h-3" />
+              </Button>
+            </div>
+            <p className="text-xs text-foreground/80 whitespace-pre-wrap leading-relaxed max-h-48 overflow-y-auto">{activeSpan.text}</p>
+          </div>
+        )}
+
         {Array.isArray(msg.followups) && msg.followups.length > 0 && (
           <div className="px-4 pb-3 border-t border-border pt-3">
             <p className="text-[10px] uppercase tracking-widest text-muted-foreground mb-2">Follow-up Questions</p>
@@ -735,6 +852,9 @@ function ModelBenchmarkPanel({ seedPrompt }: { seedPrompt: string }) {
   const [error, setError] = useState<string | null>(null)
   const [results, setResults] = useState<BenchmarkResult[]>([])
   const [summary, setSummary] = useState<{ best_quality_model?: string | null; fastest_model?: string | null } | null>(null)
+  const [regressions, setRegressions] = useState<BenchmarkRegression[]>([])
+  const [history, setHistory] = useState<BenchmarkRunSummary[]>([])
+  const [activeRunId, setActiveRunId] = useState<string | null>(null)
 
   useEffect(() => {
     if (!benchmarkPrompt.trim() && seedPrompt.trim()) {
@@ -744,6 +864,51 @@ function ModelBenchmarkPanel({ seedPrompt }: { seedPrompt: string }) {
 
   const toPercent = (value: number) => `${Math.round((value || 0) * 100)}%`
 
+  const sortByQuality = (items: BenchmarkResult[]) =>
+    [...items].sort((a, b) => (b?.quality?.overall || 0) - (a?.quality?.overall || 0))
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const response = await fetchWrapper(`/api/model-benchmark?action=list&rag_id=${encodeURIComponent(RAG_ID)}&limit=10`)
+      if (!response) return
+      const data = await response.json()
+      if (data?.success && Array.isArray(data.runs)) {
+        setHistory(data.runs)
+      }
+    } catch {
+      // History is optional; the panel still runs benchmarks without it.
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) void loadHistory()
+  }, [isOpen, loadHistory])
+
+  const openRun = async (runId: string) => {
+    setError(null)
+    try {
+      const response = await fetchWrapper(`/api/model-benchmark?action=get&runId=${encodeURIComponent(runId)}`)
+      if (!response) throw new Error('No response from server.')
+      const data = await response.json()
+      if (!response.ok || !data?.success) {
+        throw new Error(data?.error || 'Could not load benchmark run.')
+      }
+
+      setResults(sortByQuality(Array.isArray(data.run?.results) ? data.run.results : []))
+      setSummary(data.run?.summary || null)
+      setRegressions(Array.isArray(data.run?.regressions) ? data.run.regressions : [])
+      setActiveRunId(runId)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not load benchmark run.')
+    }
+  }
+
+  const describeRegression = (regression: BenchmarkRegression) => {
+    if (regression.kind === 'failure') return 'Failed (passed last run)'
+    if (regression.kind === 'quality') return `Quality ${toPercent(regression.previous)} → ${toPercent(regression.current)}`
+    return `Latency +${Math.round(regression.delta)} ms`
+  }
+
   const runBenchmark = async () => {
     const models = modelList
       .split(/[\n,]/)
@@ -764,6 +929,8 @@ function ModelBenchmarkPanel({ seedPrompt }: { seedPrompt: string }) {
     setError(null)
     setResults([])
     setSummary(null)
+    setRegressions([])
+    setActiveRunId(null)
 
     try {
       const response = await fetchWrapper('/api/model-benchmark', {
@@ -785,12 +952,11 @@ function ModelBenchmarkPanel({ seedPrompt }: { seedPrompt: string }) {
         throw new Error(data?.error || 'Benchmark failed.')
       }
 
-      const ordered = Array.isArray(data.results)
-        ? [...data.results].sort((a, b) => (b?.quality?.overall || 0) - (a?.quality?.overall || 0))
-        : []
-
-      setResults(ordered)
+      setResults(sortByQuality(Array.isArray(data.results) ? data.results : []))
       setSummary(data.summary || null)
+      setRegressions(Array.isArray(data.regressions) ? data.regressions : [])
+      setActiveRunId(data.run_id || null)
+      void loadHistory()
     } catch (benchError) {
       setError(benchError instanceof Error ? benchError.message : 'Benchmark failed.')
     } finally {
@@ -830,7 +996,11 @@ function ModelBenchmarkPanel({ seedPrompt }: { seedPrompt: string }) {
                 onChange={(e) => setModelList(e.target.value)}
                 rows={4}
                 className="mt-2 text-xs font-mono"
+                placeholder="ollama:llama3.1:8b"
               />
+              <p className="mt-1 text-[11px] text-muted-foreground">
+                Prefix with a provider (<span className="font-mono">ollama:</span>, <span className="font-mono">nvidia:</span>, <span className="font-mono">openai:</span>) to compare backends; unprefixed models use the server default.
+              </p>
             </div>
 
             <div className="flex items-center gap-2">
@@ -861,18 +1031,37 @@ function ModelBenchmarkPanel({ seedPrompt }: { seedPrompt: string }) {
                     Fastest: {summary.fastest_model}
                   </Badge>
                 )}
+                {regressions.length > 0 && (
+                  <Badge variant="outline" className="text-[10px] border-[hsl(0,70%,55%)]/40 text-[hsl(0,70%,55%)]">
+                    {regressions.length} regression{regressions.length === 1 ? '' : 's'} vs previous run
+                  </Badge>
+                )}
               </div>
             )}
 
             {results.length > 0 && (
               <div className="space-y-3">
                 {results.map((item, idx) => (
-                  <div key={`${item.model}-${idx}`} className="border border-border p-3 bg-secondary/20">
+                  <div key={`${item.label || item.model}-${idx}`} className="border border-border p-3 bg-secondary/20">
                     <div className="flex flex-wrap items-center gap-2 mb-2">
                       <Badge variant="secondary" className="text-[10px]">#{idx + 1}</Badge>
+                      {item.provider && (
+                        <Badge variant="outline" className="text-[10px] uppercase tracking-wider">{item.provider}</Badge>
+                      )}
                       <span className="text-xs font-mono text-foreground">{item.model}</span>
                       <Badge variant="outline" className="text-[10px]">{item.latency_ms} ms</Badge>
                       <Badge variant="outline" className="text-[10px]">Quality {toPercent(item.quality?.overall)}</Badge>
+                      {regressions
+                        .filter(regression => regression.label === (item.label || item.model))
+                        .map(regression => (
+                          <Badge
+                            key={regression.kind}
+                            variant="outline"
+                            className="text-[10px] border-[hsl(0,70%,55%)]/40 text-[hsl(0,70%,55%)]"
+                          >
+                            {describeRegression(regression)}
+                          </Badge>
+                        ))}
                     </div>
 
                     {item.status === 'error' ? (
@@ -894,6 +1083,37 @@ function ModelBenchmarkPanel({ seedPrompt }: { seedPrompt: string }) {
                 ))}
               </div>
             )}
+
+            {history.length > 0 && (
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <FiClock className="w-3 h-3 text-muted-foreground" />
+                  <p className="text-[10px] uppercase tracking-widest text-muted-foreground">Previous Runs</p>
+                </div>
+                <div className="space-y-1">
+                  {history.map(run => (
+                    <button
+                      key={run.id}
+                      onClick={() => openRun(run.id)}
+                      className={`w-full text-left border border-border px-3 py-2 hover:bg-secondary/40 transition-colors ${run.id === activeRunId ? 'bg-secondary/40' : ''}`}
+                    >
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-[11px] text-muted-foreground">{new Date(run.created_at).toLocaleString()}</span>
+                        {run.best_quality_model && (
+                          <span className="text-[11px] font-mono text-foreground">{run.best_quality_model}</span>
+                        )}
+                        {run.regression_count > 0 && (
+                          <Badge variant="outline" className="text-[10px] border-[hsl(0,70%,55%)]/40 text-[hsl(0,70%,55%)]">
+                            {run.regression_count} regression{run.regression_count === 1 ? '' : 's'}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-foreground/80 truncate">{run.message}</p>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </CollapsibleContent>
       </Collapsible>
@@ -901,18 +1121,167 @@ function ModelBenchmarkPanel({ seedPrompt }: { seedPrompt: string }) {
   )
 }
 
+// --- AdvancedSettingsDrawer ---
+const NUMERIC_GENERATION_FIELDS: Array<{ key: 'temperature' | 'top_p' | 'top_k' | 'max_tokens' | 'max_chunks_per_document'; label: string; step: string }> = [
+  { key: 'temperature', label: 'Temperature', step: '0.1' },
+  { key: 'top_p', label: 'Top P', step: '0.05' },
+  { key: 'top_k', label: 'Evidence Chunks (top_k)', step: '1' },
+  { key: 'max_tokens', label: 'Max Tokens', step: '64' },
+  { key: 'max_chunks_per_document', label: 'Max Chunks per Document', step: '1' },
+]
+
+function countGenerationOverrides(form: GenerationForm): number {
+  return Object.values(form).filter((value) => (Array.isArray(value) ? value.length > 0 : value.trim() !== '')).length
+}
+
+// `model` holds a `provider:model` label from the allowlist; the provider travels separately.
+function toGenerationRequest(form: GenerationForm): { provider?: string; generation: AgentGenerationSettings } {
+  const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value))
+  const separator = form.model.indexOf(':')
+
+  return {
+    provider: separator > 0 ? form.model.slice(0, separator) : undefined,
+    generation: {
+      chat_model: separator > 0 ? form.model.slice(separator + 1) : undefined,
+      temperature: toNumber(form.temperature),
+      top_p: toNumber(form.top_p),
+      top_k: toNumber(form.top_k),
+      max_tokens: toNumber(form.max_tokens),
+      intent: form.intent || undefined,
+      source_roles: form.source_roles.length ? form.source_roles : undefined,
+      max_chunks_per_document: toNumber(form.max_chunks_per_document),
+    },
+  }
+}
+
+function AdvancedSettingsDrawer({ value, onChange, disabled }: { value: GenerationForm; onChange: (next: GenerationForm) => void; disabled?: boolean }) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [options, setOptions] = useState<AgentGenerationOptions | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen || options) return
+    void fetchAgentOptions().then((loaded) => {
+      if (loaded) setOptions(loaded)
+      else setLoadError('Could not load model options; numeric settings still apply.')
+    })
+  }, [isOpen, options])
+
+  const overrides = countGenerationOverrides(value)
+  const toggleRole = (role: string) => {
+    const roles = value.source_roles.includes(role)
+      ? value.source_roles.filter((item) => item !== role)
+      : [...value.source_roles, role]
+    onChange({ ...value, source_roles: roles })
+  }
+
+  return (
+    <Sheet open={isOpen} onOpenChange={setIsOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-xs" disabled={disabled} title="Advanced settings">
+          <FiSliders className="w-4 h-4" />
+          {overrides > 0 && <span className="ml-1 text-[10px]">{overrides}</span>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-serif">Advanced Settings</SheetTitle>
+          <SheetDescription className="text-xs">
+            Overrides for the next questions in this chat. Leave a field empty to use the agent&apos;s default.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-5">
+          {loadError && <p className="text-xs text-[hsl(0,70%,55%)]">{loadError}</p>}
+
+          <div>
+            <Label className="text-[10px] uppercase tracking-widest text-muted-foreground">Model</Label>
+            <select
+              value={value.model}
+              onChange={(e) => onChange({ ...value, model: e.target.value })}
+              className="mt-2 w-full h-9 border border-input bg-background px-2 text-sm"
+            >
+              <option value="">Agent default</option>
+              {(options?.allowed_models ?? []).map((label) => (
+                <option key={label} value={label}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          {NUMERIC_GENERATION_FIELDS.map(({ key, label, step }) => {
+            const range = options?.limits[key]
+            return (
+              <div key={key}>
+                <Label className="text-[10px] uppercase tracking-widest text-muted-foreground">{label}</Label>
+                <Input
+                  type="number"
+                  step={step}
+                  min={range?.min}
+                  max={range?.max}
+                  value={value[key]}
+                  onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+                  placeholder={range ? `${range.min} - ${range.max}` : 'default'}
+                  className="mt-2 h-9 text-sm"
+                />
+              </div>
+            )
+          })}
+
+          <div>
+            <Label className="text-[10px] uppercase tracking-widest text-muted-foreground">Intent</Label>
+            <select
+              value={value.intent}
+              onChange={(e) => onChange({ ...value, intent: e.target.value })}
+              className="mt-2 w-full h-9 border border-input bg-background px-2 text-sm"
+            >
+              <option value="">Detect automatically</option>
+              {(options?.intents ?? []).map((intent) => (
+                <option key={intent} value={intent}>{intent}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <Label className="text-[10px] uppercase tracking-widest text-muted-foreground">Source Roles</Label>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {(options?.source_roles ?? []).map((role) => (
+                <button
+                  key={role}
+                  onClick={() => toggleRole(role)}
+                  className={`text-xs border px-3 py-1.5 transition-colors ${value.source_roles.includes(role) ? 'border-foreground text-foreground bg-secondary' : 'border-border text-foreground/70 hover:bg-secondary'}`}
+                >
+                  {role}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-[11px] text-muted-foreground">None selected searches every role.</p>
+          </div>
+
+          <Button variant="outline" size="sm" className="text-xs" onClick={() => onChange(EMPTY_GENERATION_FORM)} disabled={overrides === 0}>
+            Reset to defaults
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
+
 // --- ChatInterface ---
 function ChatInterface({ initialMessage, onAgentActive }: { initialMessage?: string; onAgentActive: (id: string | null) => void }) {
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [inputValue, setInputValue] = useState('')
   const [isLoading, setIsLoading] = useState(false)
+  const [streamingText, setStreamingText] = useState('')
   const [chatError, setChatError] = useState<string | null>(null)
   const [sessionId, setSessionId] = useState('')
   const scrollRef = useRef<HTMLDivElement>(null)
   const initialSentRef = useRef(false)
+  const abortRef = useRef<AbortController | null>(null)
+  const [generationForm, setGenerationForm] = useState<GenerationForm>(EMPTY_GENERATION_FORM)
 
   useEffect(() => {
     setSessionId(crypto.randomUUID())
+    return () => abortRef.current?.abort()
   }, [])
 
   useEffect(() => {
@@ -927,9 +1296,9 @@ function ChatInterface({ initialMessage, onAgentActive }: { initialMessage?: str
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight
     }
-  }, [messages, isLoading])
+  }, [messages, isLoading, streamingText])
 
-  const parseAgentResponse = (result: any): { text: string; metadata: string; citations: Citation[]; followups: string[] } => {
+  const parseAgentResponse = (result: any): { text: string; metadata: string; citations: Citation[]; evidence: EvidenceSpan[]; followups: string[] } => {
     const agentResult = result?.response?.result ?? result?.response?.message ?? result?.response ?? result
     const parsed = coerceAgentPayload(agentResult)
     const fallbackText = stripJsonCodeFence(stripThinkBlocks(String(result?.response?.message || '')))
@@ -943,6 +1312,7 @@ function ChatInterface({ initialMessage, onAgentActive }: { initialMessage?: str
     const { mainText, metadataText: inTextMetadata } = splitResponseAndMetadata(rawText)
 
     const citations = Array.isArray(parsed?.citations) ? parsed.citations : []
+    const evidence = Array.isArray(parsed?.evidence) ? parsed.evidence : []
     const followups = extractFollowups(parsed)
 
     let metadata = inTextMetadata
@@ -967,6 +1337,7 @@ function ChatInterface({ initialMessage, onAgentActive }: { initialMessage?: str
       text: mainText || 'No response received.',
       metadata: sanitizeMetadataForDisplay(metadata),
       citations,
+      evidence,
       followups,
     }
   }
@@ -983,18 +1354,41 @@ function ChatInterface({ initialMessage, onAgentActive }: { initialMessage?: str
     setMessages((prev) => [...prev, userMsg])
     setInputValue('')
     setIsLoading(true)
+    setStreamingText('')
     setChatError(null)
     onAgentActive(AGENT_ID)
+    const controller = new AbortController()
+    abortRef.current = controller
+    let partialText = ''
 
     try {
-      const result = await callAIAgent(msg.trim(), AGENT_ID, { session_id: sessionId, rag_id: RAG_ID })
-      if (result.success) {
-        const { text, metadata, citations, followups } = parseAgentResponse(result)
+      const { provider, generation } = toGenerationRequest(generationForm)
+      const result = await callAIAgent(msg.trim(), AGENT_ID, {
+        session_id: sessionId,
+        rag_id: RAG_ID,
+        provider,
+        generation,
+        stream: true,
+        signal: controller.signal,
+        onToken: (_delta, text) => {
+          partialText = text
+          setStreamingText(text)
+        },
+      })
+      if (result.cancelled) {
+        // Keep whatever was streamed before the stop so the turn is not lost.
+        const stoppedText = splitResponseAndMetadata(partialText).mainText
+        if (stoppedText.trim()) {
+          setMessages((prev) => [...prev, { role: 'twin', content: stoppedText, timestamp: new Date().toISOString() }])
+        }
+      } else if (result.success) {
+        const { text, metadata, citations, evidence, followups } = parseAgentResponse(result)
         const twinMsg: ChatMessage = {
           role: 'twin',
           content: text,
           metadata,
           citations,
+          evidence,
           followups,
           timestamp: new Date().toISOString(),
         }
@@ -1005,11 +1399,17 @@ function ChatInterface({ initialMessage, onAgentActive }: { initialMessage?: str
     } catch {
       setChatError('Network error. Please try again.')
     } finally {
+      abortRef.current = null
       setIsLoading(false)
+      setStreamingText('')
       onAgentActive(null)
     }
   }
 
+  const handleStopGenerating = () => {
+    abortRef.current?.abort()
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -1040,7 +1440,14 @@ function ChatInterface({ initialMessage, onAgentActive }: { initialMessage?: str
           <ChatMessageBubble key={idx} msg={msg} onFollowup={handleSendMessage} />
         ))}
 
-        {isLoading && (
+        {isLoading && streamingText && (
+          <ChatMessageBubble
+            msg={{ role: 'twin', content: splitResponseAndMetadata(streamingText).mainText, timestamp: new Date().toISOString() }}
+            onFollowup={() => {}}
+          />
+        )}
+
+        {isLoading && !streamingText && (
           <div className="flex justify-start">
             <div className="w-8 h-8 bg-secondary border border-border flex items-center justify-center mr-3 flex-shrink-0">
               <FaGraduationCap className="w-4 h-4 text-muted-foreground" />
@@ -1083,6 +1490,7 @@ function ChatInterface({ initialMessage, onAgentActive }: { initialMessage?: str
       {/* Input Bar */}
       <div className="border border-border bg-card p-3">
         <div className="flex items-end gap-3">
+          <AdvancedSettingsDrawer value={generationForm} onChange={setGenerationForm} disabled={isLoading} />
           <Textarea
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
@@ -1092,9 +1500,16 @@ function ChatInterface({ initialMessage, onAgentActive }: { initialMessage?: str
             rows={1}
             disabled={isLoading}
           />
-          <Button onClick={() => handleSendMessage(inputValue)} disabled={!inputValue.trim() || isLoading} size="sm">
-            <FiSend className="w-4 h-4" />
-          </Button>
+          {isLoading ? (
+            <Button onClick={handleStopGenerating} variant="outline" size="sm" className="text-xs">
+              <FiStopCircle className="w-4 h-4 mr-1.5" />
+              Stop generating
+            </Button>
+          ) : (
+            <Button onClick={() => handleSendMessage(inputValue)} disabled={!inputValue.trim()} size="sm">
+              <FiSend className="w-4 h-4" />
+            </Button>
+          )}
         </div>
       </div>
 
@@ -55,6 +55,8 @@ export interface AIAgentResponse {
   raw_response?: string
   error?: string
   details?: string
+  /** Set when the call was stopped through `options.signal`. */
+  cancelled?: boolean
 }
 
 export interface UploadedFile {
@@ -76,18 +78,197 @@ export interface UploadResponse {
   error?: string
 }
 
+export interface AgentRetrievalInfo {
+  intent: string
+  rag_id: string
+  retrieval_notes: string[]
+  evidence: Array<{
+    marker: string
+    source_label: string
+    title: string
+    venue: string
+    year: string
+    chunk_id: string
+    location: string
+  }>
+}
+
+/** Per-request overrides; omitted fields use the agent profile or server defaults. */
+export interface AgentGenerationSettings {
+  /** Must be on the server allowlist for the request's provider (see fetchAgentOptions). */
+  chat_model?: string
+  temperature?: number
+  top_p?: number
+  top_k?: number
+  max_tokens?: number
+  /** Skip intent detection, e.g. `research_overview`. */
+  intent?: string
+  source_roles?: string[]
+  max_chunks_per_document?: number
+}
+
+export interface AgentGenerationOptions {
+  default_provider: string
+  providers: string[]
+  /** `provider:model` labels a request may select. */
+  allowed_models: string[]
+  intents: string[]
+  source_roles: string[]
+  limits: Record<'temperature' | 'top_p' | 'top_k' | 'max_tokens' | 'max_chunks_per_document', { min: number; max: number }>
+}
+
+export interface CallAIAgentOptions {
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+  rag_id?: string
+  /** Chat provider for this request (`ollama`, `nvidia`, `openai`); the server default when omitted. */
+  provider?: string
+  generation?: AgentGenerationSettings
+  /** Stream over SSE instead of submit-then-poll. */
+  stream?: boolean
+  /** Called with each answer delta and the accumulated answer text (stream mode only). */
+  onToken?: (delta: string, text: string) => void
+  /** Called once retrieval finishes, before generation starts (stream mode only). */
+  onRetrieval?: (info: AgentRetrievalInfo) => void
+  /** Stops the call: stream mode closes the connection, poll mode cancels the queued task. */
+  signal?: AbortSignal
+}
+
 const POLL_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes
 
+function stoppedResponse(): AIAgentResponse {
+  return {
+    success: false,
+    cancelled: true,
+    response: { status: 'error', result: {}, message: 'Generation stopped' },
+    error: 'Generation stopped',
+  }
+}
+
+// Resolves after `ms`, or early once `signal` aborts.
+function waitForPoll(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
+
+function parseSseFrame(frame: string): { event: string; data: string } | null {
+  let event = 'message'
+  const dataLines: string[] = []
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim()
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart())
+  }
+
+  if (!dataLines.length) return null
+  return { event, data: dataLines.join('\n') }
+}
+
+/**
+ * Stream the agent response over Server-Sent Events.
+ * Resolves with the same shape as a completed poll once the `final` event arrives.
+ */
+async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options: CallAIAgentOptions
+): Promise<AIAgentResponse> {
+  const res = await fetchWrapper('/api/agent', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+    body: JSON.stringify({
+      message,
+      agent_id,
+      user_id: options.user_id,
+      session_id: options.session_id,
+      assets: options.assets,
+      rag_id: options.rag_id || DEFAULT_PUBLIC_RAG_ID,
+      provider: options.provider,
+      ...options.generation,
+      stream: true,
+    }),
+    signal: options.signal,
+  })
+
+  if (!res) {
+    return {
+      success: false,
+      response: { status: 'error', result: {}, message: 'No response from server' },
+      error: 'No response from server',
+    }
+  }
+
+  const contentType = res.headers.get('content-type') || ''
+  if (!contentType.includes('text/event-stream') || !res.body) {
+    // Validation, auth and rate-limit errors come back as plain JSON.
+    return await res.json()
+  }
+
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+  let text = ''
+  let ids: { agent_id?: string; user_id?: string; session_id?: string } = {}
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffered += decoder.decode(value, { stream: true })
+
+    let boundary = buffered.indexOf('\n\n')
+    while (boundary >= 0) {
+      const frame = parseSseFrame(buffered.slice(0, boundary))
+      buffered = buffered.slice(boundary + 2)
+      boundary = buffered.indexOf('\n\n')
+      if (!frame) continue
+
+      const data = JSON.parse(frame.data)
+      if (frame.event === 'session') {
+        ids = data
+      } else if (frame.event === 'retrieval') {
+        options.onRetrieval?.(data)
+      } else if (frame.event === 'token') {
+        text += data.delta
+        options.onToken?.(data.delta, text)
+      } else if (frame.event === 'final' || frame.event === 'error') {
+        return {
+          ...data,
+          ...ids,
+          raw_response: frame.event === 'final' ? JSON.stringify(data.response) : undefined,
+        }
+      }
+    }
+  }
+
+  return {
+    success: false,
+    response: { status: 'error', result: {}, message: 'Stream ended before the final response' },
+    error: 'Stream ended before the final response',
+  }
+}
+
 /**
  * Call the AI Agent via server-side API route.
- * Submits an async task then polls from the client until completion.
+ * Submits an async task then polls from the client until completion,
+ * or streams tokens over SSE when `options.stream` is set.
+ * Aborting `options.signal` resolves with `cancelled: true`.
  */
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[]; rag_id?: string }
+  options?: CallAIAgentOptions
 ): Promise<AIAgentResponse> {
   try {
+    if (options?.stream) {
+      return await streamAIAgent(message, agent_id, options)
+    }
+
     // 1. Submit task — returns { task_id, agent_id, user_id, session_id }
     const submitRes = await fetchWrapper('/api/agent', {
       method: 'POST',
@@ -99,6 +280,8 @@ export async function callAIAgent(
         session_id: options?.session_id,
         assets: options?.assets,
         rag_id: options?.rag_id || DEFAULT_PUBLIC_RAG_ID,
+        provider: options?.provider,
+        ...options?.generation,
       }),
     })
 
@@ -124,14 +307,24 @@ export async function callAIAgent(
     }
 
     const { task_id, user_id, session_id } = submitData
+    const cancelTask = async () => {
+      await fetchWrapper('/api/agent', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ task_id, action: 'cancel' }),
+      }).catch(() => undefined)
+      return stoppedResponse()
+    }
 
     // 2. Poll POST /api/agent with { task_id } — adaptive backoff from CSR
     const startTime = Date.now()
     let attempt = 0
 
     while (Date.now() - startTime < POLL_TIMEOUT_MS) {
+      if (options?.signal?.aborted) return await cancelTask()
       const delay = Math.min(300 * Math.pow(1.5, attempt), 3000)
-      await new Promise(r => setTimeout(r, delay))
+      await waitForPoll(delay, options?.signal)
+      if (options?.signal?.aborted) return await cancelTask()
       attempt++
 
       const pollRes = await fetchWrapper('/api/agent', {
@@ -168,6 +361,8 @@ export async function callAIAgent(
       error: 'Agent task timed out after 5 minutes',
     }
   } catch (error) {
+    // An aborted stream rejects the pending read; report it as a stop rather than a network error.
+    if (options?.signal?.aborted) return stoppedResponse()
     return {
       success: false,
       response: {
@@ -180,6 +375,21 @@ export async function callAIAgent(
   }
 }
 
+/**
+ * Models, intents, source roles and parameter ranges the agent API accepts as overrides.
+ * Resolves null when the options cannot be loaded.
+ */
+export async function fetchAgentOptions(): Promise<AgentGenerationOptions | null> {
+  try {
+    const res = await fetchWrapper('/api/agent?action=options')
+    if (!res) return null
+    const data = await res.json()
+    return data?.success ? data : null
+  } catch {
+    return null
+  }
+}
+
 /**
  * Upload files via server-side API route
  */
@@ -239,7 +449,7 @@ export function useAIAgent() {
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[]; rag_id?: string }
+    options?: CallAIAgentOptions
   ) => {
     setLoading(true)
     setError(null)
@@ -1,7 +1,8 @@
 /**
- * Canonical publication metadata shared across ingestion and runtime citation rendering.
+ * Canonical publication matching shared across ingestion and runtime citation rendering.
  * This module is intentionally framework-agnostic so both API routes and server runtime
- * code can use the same source of truth.
+ * code can use the same source of truth. The catalog itself belongs to an agent profile
+ * (`lib/server/agentProfiles.ts`) and is passed in by the caller.
  */
 
 export type CanonicalPublication = {
@@ -22,63 +23,6 @@ export type DocumentMetadataLike = {
   canonicalCitation?: string
 }
 
-export const CANONICAL_PUBLICATIONS: CanonicalPublication[] = [
-  {
-    title: 'Improved Cross-Dataset Facial Expression Recognition by Handling Data Imbalance and Feature Confusion',
-    venue: 'ECCVW',
-    year: '2022',
-    aliases: ['difc', 'DIFC_ECCVW_2022.pdf'],
-  },
-  {
-    title: 'A Simple Signal for Domain Shift',
-    venue: 'ICCVW',
-    year: '2023',
-    aliases: ['dss', 'DSS_ICCVW_2023.pdf'],
-  },
-  {
-    title: 'PhISH-Net: Physics Inspired System for High Resolution Underwater Image Enhancement',
-    venue: 'WACV',
-    year: '2024',
-    aliases: ['phishnet', 'PhishNet_WACV_2024.pdf', 'phish-net'],
-  },
-  {
-    title: 'Effectiveness of Vision Language Models for Open-world Single Image Test Time Adaptation',
-    venue: 'TMLR',
-    year: '2025',
-    aliases: ['rosita', 'ROSITA_TMLR_2025.pdf'],
-  },
-  {
-    title: 'SANTA: Source Anchoring Network and Target Alignment for Continual Test Time Adaptation',
-    venue: 'TMLR',
-    year: '2023',
-    aliases: ['santa', 'SANTA_TMLR_2023.pdf'],
-  },
-  {
-    title: 'Similar Class Style Augmentation for Efficient Cross-Domain Few-Shot Learning',
-    venue: 'CVPRW',
-    year: '2023',
-    aliases: ['ssabns', 'SSABNS_CVPRW_2023.pdf'],
-  },
-  {
-    title: 'Segmentation Assisted Incremental Test Time Adaptation in an Open World',
-    venue: 'BMVC',
-    year: '2025',
-    aliases: ['segassist', 'SegAssist_BMVC_2025.pdf'],
-  },
-  {
-    title: 'pSTarC: Pseudo Source Guided Target Clustering for Fully Test-Time Adaptation',
-    venue: 'WACV',
-    year: '2024',
-    aliases: ['pstarc', 'pSTarC_WACV_2024.pdf'],
-  },
-  {
-    title: 'JumpStyle: A Framework for Data-Efficient Online Adaptation',
-    venue: 'ICLRW',
-    year: '2023',
-    aliases: ['jumpstyle'],
-  },
-]
-
 export function normalizeCatalogText(value: string): string {
   return value
     .toLowerCase()
@@ -91,11 +35,14 @@ function publicationAliases(pub: CanonicalPublication): string[] {
   return [pub.title, ...pub.aliases].map(item => normalizeCatalogText(item)).filter(Boolean)
 }
 
-export function resolveCanonicalPublicationByFileName(fileName: string): CanonicalPublication | undefined {
+export function resolveCanonicalPublicationByFileName(
+  fileName: string,
+  publications: CanonicalPublication[]
+): CanonicalPublication | undefined {
   const normalizedFileName = normalizeCatalogText(fileName)
   const stem = normalizeCatalogText(fileName.replace(/\.[a-z0-9]{2,6}$/i, '').replace(/[_-]+/g, ' '))
 
-  for (const publication of CANONICAL_PUBLICATIONS) {
+  for (const publication of publications) {
     const aliases = publicationAliases(publication)
     for (const alias of aliases) {
       if (!alias) continue
@@ -107,12 +54,15 @@ export function resolveCanonicalPublicationByFileName(fileName: string): Canonic
   return undefined
 }
 
-export function resolveCanonicalPublicationFromCandidates(candidates: string[]): CanonicalPublication | undefined {
+export function resolveCanonicalPublicationFromCandidates(
+  candidates: string[],
+  publications: CanonicalPublication[]
+): CanonicalPublication | undefined {
   const normalizedCandidates = candidates.map(item => normalizeCatalogText(item)).filter(Boolean)
   if (!normalizedCandidates.length) return undefined
 
   for (const candidate of normalizedCandidates) {
-    for (const publication of CANONICAL_PUBLICATIONS) {
+    for (const publication of publications) {
       const aliases = publicationAliases(publication)
       for (const alias of aliases) {
         if (!alias) continue
@@ -128,9 +78,10 @@ export function resolveCanonicalPublicationFromCandidates(candidates: string[]):
 
 export function withCanonicalMetadata(
   fileName: string,
+  publications: CanonicalPublication[],
   metadata?: DocumentMetadataLike
 ): DocumentMetadataLike | undefined {
-  const canonical = resolveCanonicalPublicationByFileName(fileName)
+  const canonical = resolveCanonicalPublicationByFileName(fileName, publications)
   if (!canonical && !metadata) return undefined
   if (!canonical) return metadata
 
@@ -1,6 +1,8 @@
 /**
  * Helper utilities for normalizing agent responses before rendering in the chat UI.
  * These functions are pure and side-effect free to keep parsing logic easy to test.
+ * The server now requests schema-constrained JSON where the provider supports it, so these
+ * heuristics are a safety net for providers without a JSON mode and for legacy stored messages.
  */
 
 export function stripThinkBlocks(text: string): string {
@@ -66,6 +68,54 @@ export function extractFirstStructuredJson(text: string): Record<string, any> |
   return null
 }
 
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+}
+
+/**
+ * Decode the response_text value from a possibly incomplete JSON completion.
+ * Returns null until the response_text key has started streaming, so callers can hold tokens back
+ * instead of rendering raw JSON punctuation.
+ */
+export function extractPartialResponseText(buffer: string): string | null {
+  if (!buffer) return null
+  const keyMatch = /"response_text"\s*:\s*"/.exec(buffer)
+  if (!keyMatch) return null
+
+  let decoded = ''
+  for (let i = keyMatch.index + keyMatch[0].length; i < buffer.length; i++) {
+    const ch = buffer[i]
+    if (ch === '"') return decoded
+    if (ch !== '\\') {
+      decoded += ch
+      continue
+    }
+
+    const next = buffer[i + 1]
+    if (next === undefined) return decoded
+    if (next === 'u') {
+      const hex = buffer.slice(i + 2, i + 6)
+      if (hex.length < 4) return decoded
+      const code = Number.parseInt(hex, 16)
+      if (Number.isFinite(code)) decoded += String.fromCharCode(code)
+      i += 5
+      continue
+    }
+
+    decoded += JSON_ESCAPES[next] ?? next
+    i += 1
+  }
+
+  return decoded
+}
+
 export function splitResponseAndMetadata(text: string): { mainText: string; metadataText: string } {
   const markers = [
     '\nPrimary evidence:',
@@ -60,6 +60,27 @@ export interface Webhook {
   trigger_count: number
 }
 
+export interface ReembedJob {
+  id: string
+  type: 'reembed'
+  rag_id: string
+  model: string
+  status: 'queued' | 'running' | 'completed' | 'failed'
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  finished_at: string | null
+  progress: {
+    totalDocuments: number
+    processedDocuments: number
+    reembeddedChunks: number
+    cachedChunks: number
+    failedChunks: number
+    percent: number
+  }
+  error_message: string | null
+}
+
 interface ApiResult<T = Record<string, unknown>> {
   success: boolean
   error?: string
@@ -216,6 +237,34 @@ export async function getRecentExecutions(params?: {
   }
 }
 
+/** List background jobs (re-embedding), newest first. */
+export async function listJobs(params?: {
+  ragId?: string
+}): Promise<{ success: boolean; jobs: ReembedJob[]; total: number; error?: string }> {
+  try {
+    const qs = buildQuery({ action: 'jobs', ragId: params?.ragId })
+    const res = await fetchWrapper(`/api/scheduler?${qs}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, jobs: [], total: 0, error: data.error }
+    return { success: true, jobs: data.jobs || [], total: data.total ?? 0 }
+  } catch (error) {
+    return { success: false, jobs: [], total: 0, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** Get a single background job, e.g. to poll its progress. */
+export async function getJob(jobId: string): Promise<{ success: boolean; job?: ReembedJob; error?: string }> {
+  try {
+    const qs = buildQuery({ action: 'job', jobId })
+    const res = await fetchWrapper(`/api/scheduler?${qs}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, job: data.job }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // POST operations
 // ---------------------------------------------------------------------------
@@ -356,6 +405,28 @@ export async function triggerScheduleNow(scheduleId: string): Promise<ApiResult>
   }
 }
 
+/**
+ * Queue a background job that re-embeds a rag_id with `model` (defaults to the server's embedding model).
+ * Returns the already-running job when one exists for the same rag and model.
+ */
+export async function startReembedJob(params: {
+  ragId: string
+  model?: string
+}): Promise<{ success: boolean; job?: ReembedJob; message?: string; error?: string }> {
+  try {
+    const res = await fetchWrapper('/api/scheduler', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'reembed', ...params }),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, job: data.job, message: data.message }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // DELETE
 // ---------------------------------------------------------------------------
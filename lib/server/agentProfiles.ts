@@ -0,0 +1,276 @@
+/**
+ * Agent profile store.
+ * Responsibilities:
+ * - Hold each twin's persona, instructions, publication catalog, default rag_id and model settings.
+ * - Version profiles under data/agents/<agent_id>/v<N>.json; every save writes a new version.
+ * - Fall back to the bundled profiles in `agent_profiles/` and to DEFAULT_AGENT_ID for unknown agents.
+ */
+
+import researchTwinProfile from '@/agent_profiles/research-twin-local.json'
+import { DEFAULT_AGENT_ID, DEFAULT_RAG_ID } from '@/lib/config/env'
+import { normalizeCatalogText, type CanonicalPublication } from '@/lib/config/publications'
+import { fileExists, readJsonFile, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { hasProvider } from '@/lib/server/llmProviders'
+import { sanitizeFileName } from '@/lib/server/text'
+import { promises as fs } from 'fs'
+
+export type AgentPersona = {
+  role: string
+  goal: string
+  /** System message sent ahead of the prompt. */
+  system_message: string
+  /** Persona instructions, one line per entry; the response format contract is appended by agentRuntime. */
+  instructions: string[]
+}
+
+/** Per-agent defaults; request fields still take precedence. */
+export type AgentModelSettings = {
+  provider?: string
+  chat_model?: string
+  temperature?: number
+  top_p?: number
+}
+
+export type AgentProfile = {
+  agent_id: string
+  name: string
+  version: number
+  persona: AgentPersona
+  publications: CanonicalPublication[]
+  default_rag_id: string
+  model: AgentModelSettings
+  updated_at: string
+}
+
+export type AgentProfileSummary = {
+  agent_id: string
+  name: string
+  version: number
+  default_rag_id: string
+  publications: number
+  source: 'stored' | 'builtin'
+  updated_at: string
+}
+
+const BUILTIN_PROFILES: unknown[] = [researchTwinProfile]
+
+function agentDir(agentId: string): string {
+  return resolveDataPath('agents', sanitizeFileName(agentId))
+}
+
+function versionPath(agentId: string, version: number): string {
+  return `${agentDir(agentId)}/v${version}.json`
+}
+
+function requireText(value: unknown, field: string): string {
+  const text = typeof value === 'string' ? value.trim() : ''
+  if (!text) throw new Error(`${field} is required`)
+  return text
+}
+
+function optionalNumber(value: unknown, field: string, min: number, max: number): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const parsed = typeof value === 'number' ? value : Number.parseFloat(String(value))
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new Error(`${field} must be a number between ${min} and ${max}`)
+  }
+  return parsed
+}
+
+function normalizePublications(value: unknown): CanonicalPublication[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) throw new Error('publications must be an array')
+
+  return value.map((item, index) => {
+    const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>
+    return {
+      title: requireText(entry.title, `publications[${index}].title`),
+      venue: String(entry.venue ?? '').trim(),
+      year: String(entry.year ?? '').trim(),
+      aliases: Array.isArray(entry.aliases)
+        ? entry.aliases.map(alias => String(alias ?? '').trim()).filter(Boolean)
+        : [],
+    }
+  })
+}
+
+function normalizeModelSettings(value: unknown): AgentModelSettings {
+  if (value === undefined || value === null) return {}
+  if (typeof value !== 'object' || Array.isArray(value)) throw new Error('model must be an object')
+
+  const entry = value as Record<string, unknown>
+  const provider = typeof entry.provider === 'string' && entry.provider.trim() ? entry.provider.trim().toLowerCase() : undefined
+  if (provider && !hasProvider(provider)) throw new Error(`model.provider "${provider}" is not a registered provider`)
+  const chatModel = typeof entry.chat_model === 'string' && entry.chat_model.trim() ? entry.chat_model.trim() : undefined
+  const temperature = optionalNumber(entry.temperature, 'model.temperature', 0, 2)
+  const topP = optionalNumber(entry.top_p, 'model.top_p', 0, 1)
+
+  return {
+    ...(provider ? { provider } : {}),
+    ...(chatModel ? { chat_model: chatModel } : {}),
+    ...(temperature !== undefined ? { temperature } : {}),
+    ...(topP !== undefined ? { top_p: topP } : {}),
+  }
+}
+
+/**
+ * Validate a profile payload. Throws with a message naming the first invalid field.
+ * `version` and `updated_at` are carried over when present; saveAgentProfile overwrites both.
+ */
+export function normalizeAgentProfile(raw: unknown): AgentProfile {
+  if (!raw || typeof raw !== 'object') throw new Error('profile must be an object')
+  const value = raw as Record<string, unknown>
+  const persona = (value.persona && typeof value.persona === 'object' ? value.persona : {}) as Record<string, unknown>
+  const instructions = Array.isArray(persona.instructions)
+    ? persona.instructions.map(line => String(line ?? ''))
+    : typeof persona.instructions === 'string'
+      ? persona.instructions.split('\n')
+      : []
+  if (!instructions.some(line => line.trim())) throw new Error('persona.instructions is required')
+
+  const version = Number.parseInt(String(value.version ?? '1'), 10)
+  const agentId = requireText(value.agent_id, 'agent_id')
+
+  return {
+    agent_id: agentId,
+    name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : agentId,
+    version: Number.isFinite(version) && version > 0 ? version : 1,
+    persona: {
+      role: requireText(persona.role, 'persona.role'),
+      goal: requireText(persona.goal, 'persona.goal'),
+      system_message: requireText(persona.system_message, 'persona.system_message'),
+      instructions,
+    },
+    publications: normalizePublications(value.publications),
+    default_rag_id:
+      typeof value.default_rag_id === 'string' && value.default_rag_id.trim() ? value.default_rag_id.trim() : DEFAULT_RAG_ID,
+    model: normalizeModelSettings(value.model),
+    updated_at: typeof value.updated_at === 'string' ? value.updated_at : new Date().toISOString(),
+  }
+}
+
+function getBuiltinProfile(agentId: string): AgentProfile | null {
+  for (const raw of BUILTIN_PROFILES) {
+    const profile = normalizeAgentProfile(raw)
+    if (profile.agent_id === agentId) return profile
+  }
+  return null
+}
+
+export async function listAgentProfileVersions(agentId: string): Promise<number[]> {
+  const entries = await fs.readdir(agentDir(agentId)).catch(() => [] as string[])
+  return entries
+    .map(entry => /^v(\d+)\.json$/.exec(entry)?.[1])
+    .filter((version): version is string => Boolean(version))
+    .map(version => Number.parseInt(version, 10))
+    .sort((a, b) => a - b)
+}
+
+/**
+ * Latest stored version of a profile (or the given version), else the bundled profile with that id.
+ */
+export async function getAgentProfile(agentId: string, version?: number): Promise<AgentProfile | null> {
+  const versions = await listAgentProfileVersions(agentId)
+  const target = version ?? versions[versions.length - 1]
+
+  if (target !== undefined) {
+    const filePath = versionPath(agentId, target)
+    if (await fileExists(filePath)) {
+      return readJsonFile<AgentProfile | null>(filePath, null)
+    }
+  }
+
+  const builtin = getBuiltinProfile(agentId)
+  if (builtin && (version === undefined || version === builtin.version)) return builtin
+  return null
+}
+
+/**
+ * Profile used to answer for `agentId`. Unknown ids (eval runs, older clients) use DEFAULT_AGENT_ID,
+ * except on tenant runs (`tenantId` set): a tenant's agent never borrows the default persona, so an
+ * agent without a profile throws.
+ */
+export async function resolveAgentProfile(agentId?: string, tenantId?: string): Promise<AgentProfile> {
+  if (agentId) {
+    const profile = await getAgentProfile(agentId)
+    if (profile) return profile
+  }
+  if (tenantId) {
+    throw new Error(`No profile for agent "${agentId ?? ''}"`)
+  }
+
+  const fallback = (await getAgentProfile(DEFAULT_AGENT_ID)) ?? normalizeAgentProfile(BUILTIN_PROFILES[0])
+  return fallback
+}
+
+export async function saveAgentProfile(raw: unknown): Promise<AgentProfile> {
+  const normalized = normalizeAgentProfile(raw)
+  const versions = await listAgentProfileVersions(normalized.agent_id)
+  const builtinVersion = getBuiltinProfile(normalized.agent_id)?.version ?? 0
+  const version = Math.max(versions[versions.length - 1] ?? 0, builtinVersion) + 1
+
+  const profile: AgentProfile = { ...normalized, version, updated_at: new Date().toISOString() }
+  await writeJsonFileAtomic(versionPath(profile.agent_id, version), profile)
+  return profile
+}
+
+/**
+ * Remove every stored version. Bundled profiles remain available afterwards.
+ */
+export async function deleteAgentProfile(agentId: string): Promise<boolean> {
+  const versions = await listAgentProfileVersions(agentId)
+  if (!versions.length) return false
+  await fs.rm(agentDir(agentId), { recursive: true, force: true })
+  return true
+}
+
+export async function listAgentProfiles(): Promise<AgentProfileSummary[]> {
+  const entries = await fs.readdir(resolveDataPath('agents'), { withFileTypes: true }).catch(() => [])
+  const storedIds = entries.filter(entry => entry.isDirectory()).map(entry => entry.name)
+  const builtinIds = BUILTIN_PROFILES.map(raw => normalizeAgentProfile(raw).agent_id)
+
+  const profiles = await Promise.all(
+    Array.from(new Set([...builtinIds, ...storedIds])).map(async agentId => {
+      const profile = await getAgentProfile(agentId)
+      if (!profile) return null
+      const stored = (await listAgentProfileVersions(agentId)).length > 0
+      return {
+        agent_id: profile.agent_id,
+        name: profile.name,
+        version: profile.version,
+        default_rag_id: profile.default_rag_id,
+        publications: profile.publications.length,
+        source: stored ? 'stored' : 'builtin',
+        updated_at: profile.updated_at,
+      } satisfies AgentProfileSummary
+    })
+  )
+
+  return profiles
+    .filter((profile): profile is AgentProfileSummary => Boolean(profile))
+    .sort((a, b) => a.agent_id.localeCompare(b.agent_id))
+}
+
+/**
+ * Publication catalog for ingestion into `ragId`: the catalogs of every profile whose
+ * default_rag_id is `ragId`, else the default agent's catalog.
+ */
+export async function getPublicationCatalog(ragId: string): Promise<CanonicalPublication[]> {
+  const summaries = await listAgentProfiles()
+  const owners = summaries.filter(summary => summary.default_rag_id === ragId)
+  const profiles = owners.length
+    ? await Promise.all(owners.map(owner => getAgentProfile(owner.agent_id)))
+    : [await resolveAgentProfile()]
+
+  const seen = new Set<string>()
+  const catalog: CanonicalPublication[] = []
+  for (const profile of profiles) {
+    for (const publication of profile?.publications || []) {
+      const key = normalizeCatalogText(publication.title)
+      if (seen.has(key)) continue
+      seen.add(key)
+      catalog.push(publication)
+    }
+  }
+  return catalog
+}
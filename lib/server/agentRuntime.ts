@@ -2,41 +2,56 @@
  * Agent runtime orchestration.
  * Responsibilities:
  * - Detect query intent.
- * - Retrieve relevant RAG evidence.
- * - Construct LLM prompt and normalize structured JSON output.
+ * - Retrieve relevant RAG evidence, optionally reranking candidate pools.
+ * - Explain retrieval decisions (intent signals, document mentions, chunk scores, drops) for debugging.
+ * - Carry per-session conversation memory into retrieval and prompting.
+ * - Construct LLM prompt and normalize structured JSON output, re-asking the model when it breaks the schema.
+ * - Verify claim-level grounding of the answer against its cited chunks.
+ * - Bound each stage (retrieval, generation, grounding) by a timeout and honour the caller's AbortSignal.
  * - Enforce evidence/citation contract before returning response payload.
  */
 
 import parseLLMJson from '@/lib/jsonParser'
 import { DEFAULT_RAG_ID, DEFAULT_RAG_TOP_K } from '@/lib/config/env'
-import { resolveCanonicalPublicationFromCandidates } from '@/lib/config/publications'
+import { resolveCanonicalPublicationFromCandidates, type CanonicalPublication } from '@/lib/config/publications'
+import { resolveAgentProfile, type AgentProfile } from '@/lib/server/agentProfiles'
+import { resolveFallbackRagId } from '@/lib/server/tenants'
+import { extractPartialResponseText } from '@/lib/parsers/agentResponse'
 import { getAssetsByIds } from '@/lib/server/assetStore'
-import { getChatModel, ollamaChat } from '@/lib/server/ollama'
+import { getRerankPoolSize, rerankChunks, resolveRerankStrategy } from '@/lib/server/reranker'
+import {
+  appendConversationTurns,
+  getConversationContext,
+  type ConversationContext,
+} from '@/lib/server/conversationStore'
+import {
+  getChatModel,
+  ollamaChat,
+  ollamaChatStream,
+  type ChatCompletionOptions,
+  type ChatMessage,
+} from '@/lib/server/ollama'
+import { getGroundingConfig, verifyGrounding, type GroundingReport } from '@/lib/server/groundingVerifier'
+import { getDefaultChatProviderName } from '@/lib/server/llmProviders'
+import {
+  buildRepairPrompt,
+  getAgentResponseJsonSchema,
+  getJsonRepairConfig,
+  getStructuredOutputConfig,
+  validateAgentResponse,
+} from '@/lib/server/responseSchema'
 import {
   listRagDocuments,
   retrieveRelevantChunks,
+  type HybridRetrievalOptions,
   type RagChunk,
   type RagDocument,
+  type RagSourceRole,
+  type RetrievalScoreTrace,
 } from '@/lib/server/ragStore'
 
-const AGENT_ROLE =
-  "You are Manogna S.'s digital twin - a conversational, technically fluent research peer. You represent Manogna's academic identity, research expertise, and scholarly perspective."
-
-const AGENT_GOAL =
-  "Engage visitors in peer-to-peer academic conversations about Manogna's research. Answer questions about methodologies, suggest related papers, explain technical concepts, and provide collaboration context using the knowledge base of papers and website content."
-
-const AGENT_INSTRUCTIONS = [
-  "You are Manogna S.'s Research Digital Twin. You speak as Manogna in first person ('my research', 'I published', 'my approach'). You maintain an academic peer-to-peer tone - intellectually curious, technically precise, yet approachable.",
-  '',
-  'Core behaviors:',
-  "1. ALWAYS ground responses in retrieved knowledge context and never fabricate paper details.",
-  "2. For paper-specific questions, stay strictly within the named paper(s). If evidence is missing, say it is not found in the retrieved context.",
-  '3. For quantitative or experimental claims, prioritize publication evidence and avoid thesis-only support when publication evidence exists.',
-  '4. Use thesis context for synthesis: motivation, research trajectory, and future directions.',
-  '5. If asked to compare methods from different problem settings, clarify that they are not directly experimentally comparable and provide conceptual differences only.',
-  "6. If a question is outside current knowledge context, state limits clearly and provide only high-level perspective.",
-  '7. Keep responses concise but substantive. Prefer a direct answer first, then supporting detail.',
-  '',
+// Persona text comes from the agent profile; this contract is tied to the evidence markers and response schema.
+const AGENT_RESPONSE_CONTRACT = [
   'Citation and formatting contract:',
   '1. Use inline evidence markers in the main answer text, such as [P1], [T1], [TR1].',
   '2. Respect marker meaning: [P#] publication, [T#] thesis, [TR#] thesis-redundant.',
@@ -44,13 +59,6 @@ const AGENT_INSTRUCTIONS = [
   '4. Never output chain-of-thought, hidden reasoning, <think> tags, scratch work, or meta-analysis.',
   '5. Never embed another JSON object inside response_text.',
   '',
-  'Response style:',
-  '- Start with a direct answer, then elaborate.',
-  '- Include relevant citations from the knowledge base using inline markers.',
-  '- For single-paper queries, avoid cross-paper numerical mixing.',
-  '- Suggest 2-3 focused follow-up questions when appropriate.',
-  '- Keep responses focused and readable with short sections or bullets when helpful.',
-  '',
   'You MUST respond in this JSON format:',
   '{"response_text":"The main conversational response with markdown formatting","citations":[{"title":"Paper Title","venue":"Conference/Journal","year":"2024"}],"suggested_followups":["Follow-up question 1","Follow-up question 2"]}',
   '',
@@ -60,12 +68,15 @@ const AGENT_INSTRUCTIONS = [
   'Return ONLY the JSON object - no markdown, no explanation, no extra text.',
 ].join('\n')
 
-type RagIntent =
-  | 'paper_specific'
-  | 'paper_compare'
-  | 'technical_cross_paper'
-  | 'research_overview'
-  | 'future_directions'
+export const RAG_INTENTS = [
+  'paper_specific',
+  'paper_compare',
+  'technical_cross_paper',
+  'research_overview',
+  'future_directions',
+] as const
+
+export type RagIntent = (typeof RAG_INTENTS)[number]
 
 type IntentContext = {
   intent: RagIntent
@@ -76,6 +87,47 @@ type IntentContext = {
   retrievalNotes: string[]
 }
 
+/**
+ * Full account of one retrieveIntentContext call, returned by explainRetrieval.
+ * Each stage is one retrieveRelevantChunks call; `dropped` lists chunks that a stage returned
+ * but the intent-level merge (interleaving, per-document cap, topK slice) discarded.
+ */
+export type RetrievalTrace = {
+  query: string
+  search_query: string
+  requested_rag_id: string
+  rag_id: string
+  intent: RagIntent | null
+  intent_signals: {
+    future: boolean
+    overview: boolean
+    compare: boolean
+    paper: boolean
+    followup: boolean
+    publication_mentions: number
+  } | null
+  document_mentions: Array<{ document: string; source_role: string; score: number; mentioned: boolean }>
+  target_documents: string[]
+  mix: { publication: number; thesis: number } | null
+  targets: { publication: number; thesis: number } | null
+  stages: Array<{
+    stage: string
+    filters: {
+      top_k: number
+      include_source_roles?: string[]
+      include_document_names?: string[]
+      exclude_redundant?: boolean
+      max_chunks_per_document?: number
+    }
+    scoring: RetrievalScoreTrace | null
+    returned_chunk_ids: string[]
+    rerank_note?: string
+  }>
+  dropped: Array<{ chunk_id: string; document: string; step: 'interleaveChunks' | 'capChunksPerDocument' | 'topK' }>
+  final_chunk_ids: string[]
+  retrieval_notes: string[]
+}
+
 type EvidenceSourceLabel = 'PAPER' | 'THESIS' | 'THESIS-REDUNDANT' | 'WEB' | 'SOURCE'
 
 type EvidenceReference = {
@@ -86,6 +138,7 @@ type EvidenceReference = {
   venue: string
   year: string
   chunkId: string
+  location: string
 }
 
 export type AgentExecutionInput = {
@@ -95,10 +148,134 @@ export type AgentExecutionInput = {
   session_id: string
   assets?: string[]
   rag_id?: string
+  /** Tenant the request runs for; scopes uploaded assets. Undefined for admin and internal callers. */
+  tenant_id?: string
+  /** Registered chat provider (`ollama`, `nvidia`, `openai`); defaults to CHAT_PROVIDER. */
+  provider?: string
   chatModel?: string
   temperature?: number
   topP?: number
   topK?: number
+  /** Cap on generated tokens (Ollama `num_predict`, OpenAI `max_tokens`); the model default when omitted. */
+  maxTokens?: number
+  /** Retrieve for this intent instead of the detected one. */
+  intent?: RagIntent
+  /** Only retrieve chunks from these source roles. */
+  sourceRoles?: RagSourceRole[]
+  /** Per-document chunk cap for the mixed retrieval stages (default 2). */
+  maxChunksPerDocument?: number
+  retrievalFusion?: HybridRetrievalOptions
+  rerank?: boolean | string
+  useConversationMemory?: boolean
+  /** False skips the response cache for this request (see `executeAgentCached`). */
+  useResponseCache?: boolean
+}
+
+export type AgentRetrievalEvent = {
+  intent: string
+  rag_id: string
+  retrieval_notes: string[]
+  evidence: Array<{
+    marker: string
+    source_label: string
+    title: string
+    venue: string
+    year: string
+    chunk_id: string
+    location: string
+  }>
+}
+
+/**
+ * Server-side view of what an answer was built from, for evaluation.
+ * citedChunkIds only lists chunks whose markers the model actually used (no fallback to all evidence).
+ */
+export type AgentAnswerContext = {
+  intent: string
+  ragId: string
+  chunks: RagChunk[]
+  citedChunkIds: string[]
+}
+
+/**
+ * Optional callbacks for streaming callers.
+ * onToken receives decoded response_text deltas, not raw JSON from the model.
+ * onAnswerContext is server-only and fires once the answer is parsed.
+ */
+export type AgentExecutionHooks = {
+  onRetrieval?: (event: AgentRetrievalEvent) => void
+  onToken?: (delta: string) => void
+  onAnswerContext?: (context: AgentAnswerContext) => void
+  /** Cancels the run; in-flight model and embedding requests are aborted. */
+  signal?: AbortSignal
+}
+
+export type AgentStage = 'retrieval' | 'generation' | 'grounding'
+
+/** Per-stage timeouts in milliseconds; 0 disables a stage's timeout. */
+export function getAgentTimeoutConfig(): Record<AgentStage, number> {
+  const parse = (value: string | undefined, fallback: number) => {
+    const parsed = Number.parseInt(value || String(fallback), 10)
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback
+  }
+
+  return {
+    retrieval: parse(process.env.AGENT_RETRIEVAL_TIMEOUT_MS, 60_000),
+    generation: parse(process.env.AGENT_GENERATION_TIMEOUT_MS, 300_000),
+    grounding: parse(process.env.AGENT_GROUNDING_TIMEOUT_MS, 120_000),
+  }
+}
+
+/**
+ * Run one stage under its own AbortSignal, which fires when `parent` aborts or the stage timeout
+ * elapses. Either way the stage rejects with the abort reason rather than fetch's generic AbortError.
+ */
+async function runStage<T>(
+  stage: AgentStage,
+  parent: AbortSignal | undefined,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  parent?.throwIfAborted()
+  const timeoutMs = getAgentTimeoutConfig()[stage]
+  const controller = new AbortController()
+  const forwardAbort = () => controller.abort(parent?.reason)
+  parent?.addEventListener('abort', forwardAbort, { once: true })
+  const timer = timeoutMs > 0
+    ? setTimeout(() => controller.abort(new Error(`Agent ${stage} timed out after ${timeoutMs} ms`)), timeoutMs)
+    : undefined
+
+  try {
+    const result = await run(controller.signal)
+    controller.signal.throwIfAborted()
+    return result
+  } catch (error) {
+    if (controller.signal.aborted && controller.signal.reason instanceof Error) throw controller.signal.reason
+    throw error
+  } finally {
+    clearTimeout(timer)
+    parent?.removeEventListener('abort', forwardAbort)
+  }
+}
+
+/**
+ * One evidence marker ([P1], [T2], ...) resolved to the chunk it stands for.
+ * `cited` is true when the answer text uses the marker.
+ */
+export type AgentEvidenceSpan = {
+  marker: string
+  chunk_id: string
+  document: string
+  source_role: string
+  source_label: string
+  title: string
+  venue: string
+  year: string
+  heading: string | null
+  page_start: number | null
+  page_end: number | null
+  location: string
+  text: string
+  cited: boolean
 }
 
 export type AgentExecutionOutput = {
@@ -107,12 +284,43 @@ export type AgentExecutionOutput = {
     response_text: string
     citations: Array<{ title: string; venue: string; year: string }>
     suggested_followups: string[]
+    evidence: AgentEvidenceSpan[]
   }
   message?: string
   metadata: {
     agent_name: string
+    /** Profile that supplied persona, catalog and model defaults (DEFAULT_AGENT_ID for unknown agent ids). */
+    agent_profile: { agent_id: string; version: number }
     timestamp: string
+    provider: string
     model: string
+    retrieval_notes: string[]
+    grounding: GroundingReport | null
+    /** Model calls spent producing a schema-valid answer (1 when the first reply was valid). */
+    json_attempts: number
+    /** Validation errors left after the last repair attempt; empty when the answer is valid. */
+    schema_errors: string[]
+    /** Whether the response schema was requested through the provider's structured-output mode. */
+    structured_output: boolean
+    /** Effective generation and retrieval settings; null where the model or runtime default applied. */
+    parameters: {
+      temperature: number | null
+      top_p: number | null
+      top_k: number
+      max_tokens: number | null
+      intent_override: RagIntent | null
+      source_roles: RagSourceRole[] | null
+      max_chunks_per_document: number | null
+    }
+    /** Set by the response cache (`responseCache.ts`); absent when the cache was bypassed. */
+    cache?: {
+      hit: boolean
+      match: 'exact' | 'semantic' | null
+      /** Query-embedding similarity for semantic hits; null otherwise. */
+      similarity: number | null
+      cached_at: string | null
+      corpus_version: string
+    }
   }
 }
 
@@ -176,6 +384,26 @@ const PAPER_SIGNAL_TERMS = [
   'dataset',
 ]
 
+const FOLLOWUP_REFERENCE_TERMS = [
+  'that',
+  'this',
+  'it',
+  'its',
+  'they',
+  'them',
+  'those',
+  'these',
+  'same',
+  'above',
+  'previous',
+  'earlier',
+  'the paper',
+  'that paper',
+  'this paper',
+  'the method',
+  'the approach',
+]
+
 const QUANTITATIVE_SIGNAL_TERMS = [
   'result',
   'results',
@@ -212,6 +440,16 @@ function hasAnyTerm(query: string, terms: string[]): boolean {
   return terms.some(term => query.includes(term))
 }
 
+function hasAnyWholeTerm(queryNorm: string, terms: string[]): boolean {
+  const padded = ` ${queryNorm} `
+  return terms.some(term => padded.includes(` ${term} `))
+}
+
+function isFollowupQuery(query: string): boolean {
+  const queryNorm = normalizeMatchText(query)
+  return hasAnyWholeTerm(queryNorm, FOLLOWUP_REFERENCE_TERMS) || hasAnyTerm(queryNorm, COMPARE_TERMS)
+}
+
 function getDocumentAliases(doc: RagDocument): string[] {
   const aliases = new Set<string>()
   const fileStem = doc.fileName.replace(/\.[a-z0-9]{2,6}$/i, '').replace(/[_-]+/g, ' ')
@@ -254,31 +492,35 @@ function scoreDocumentMention(queryNorm: string, queryTokens: Set<string>, doc:
   return bestScore
 }
 
-function findMentionedDocuments(query: string, documents: RagDocument[]): RagDocument[] {
+function scoreDocumentMentions(query: string, documents: RagDocument[]): Array<{ doc: RagDocument; score: number }> {
   const queryNorm = normalizeMatchText(query)
   const queryTokens = new Set(tokenizeNormalized(queryNorm))
-  const scored = documents
+  return documents
     .map(doc => ({ doc, score: scoreDocumentMention(queryNorm, queryTokens, doc) }))
-    .filter(item => item.score > 0)
     .sort((a, b) => b.score - a.score)
-
-  return scored.map(item => item.doc)
 }
 
-function detectIntent(query: string, mentionedDocuments: RagDocument[]): RagIntent {
+function getIntentSignals(query: string, mentionedDocuments: RagDocument[]) {
   const queryNorm = normalizeMatchText(query)
-  const hasFutureSignals = hasAnyTerm(queryNorm, FUTURE_INTENT_TERMS)
-  const hasOverviewSignals = hasAnyTerm(queryNorm, OVERVIEW_INTENT_TERMS)
-  const hasCompareSignals = hasAnyTerm(queryNorm, COMPARE_TERMS)
   const paperMentions = mentionedDocuments.filter(doc => doc.sourceRole === 'publication')
-  const hasPaperSignals = paperMentions.length > 0 || hasAnyTerm(queryNorm, PAPER_SIGNAL_TERMS)
+  return {
+    future: hasAnyTerm(queryNorm, FUTURE_INTENT_TERMS),
+    overview: hasAnyTerm(queryNorm, OVERVIEW_INTENT_TERMS),
+    compare: hasAnyTerm(queryNorm, COMPARE_TERMS),
+    paper: paperMentions.length > 0 || hasAnyTerm(queryNorm, PAPER_SIGNAL_TERMS),
+    publicationMentions: paperMentions.length,
+  }
+}
 
-  if ((hasCompareSignals && paperMentions.length >= 1) || paperMentions.length >= 2) {
+function detectIntent(query: string, mentionedDocuments: RagDocument[]): RagIntent {
+  const signals = getIntentSignals(query, mentionedDocuments)
+
+  if ((signals.compare && signals.publicationMentions >= 1) || signals.publicationMentions >= 2) {
     return 'paper_compare'
   }
-  if (hasFutureSignals) return 'future_directions'
-  if (hasOverviewSignals) return 'research_overview'
-  if (paperMentions.length === 1 && hasPaperSignals) return 'paper_specific'
+  if (signals.future) return 'future_directions'
+  if (signals.overview) return 'research_overview'
+  if (signals.publicationMentions === 1 && signals.paper) return 'paper_specific'
   return 'technical_cross_paper'
 }
 
@@ -355,7 +597,8 @@ function asEvidenceSourceLabel(label: string): EvidenceSourceLabel {
 function resolveChunkCitationFields(
   chunk: RagChunk,
   sourceLabel: EvidenceSourceLabel,
-  documentsById: Map<string, RagDocument>
+  documentsById: Map<string, RagDocument>,
+  publications: CanonicalPublication[]
 ): { sourceName: string; title: string; venue: string; year: string } {
   const sourceDoc = documentsById.get(chunk.documentId)
   const sourceName = sourceDoc?.fileName || chunk.sourceName
@@ -368,7 +611,7 @@ function resolveChunkCitationFields(
       chunk.sourceName || '',
       chunk.documentTitle || '',
       chunk.paperKey || '',
-    ])
+    ], publications)
 
     return {
       sourceName,
@@ -404,6 +647,25 @@ function resolveChunkCitationFields(
   }
 }
 
+/**
+ * Human-readable position of a chunk, e.g. "Section 4.2 Ablation, p.6".
+ */
+function formatChunkLocation(chunk: RagChunk): string {
+  const parts: string[] = []
+  const heading = chunk.headingPath?.split(' > ').pop()
+  if (heading) {
+    parts.push(/^\d/.test(heading) ? `Section ${heading}` : heading)
+  }
+  if (typeof chunk.pageStart === 'number') {
+    parts.push(
+      typeof chunk.pageEnd === 'number' && chunk.pageEnd !== chunk.pageStart
+        ? `pp.${chunk.pageStart}-${chunk.pageEnd}`
+        : `p.${chunk.pageStart}`
+    )
+  }
+  return parts.join(', ')
+}
+
 function markerPrefixForSource(label: EvidenceSourceLabel): string {
   if (label === 'PAPER') return 'P'
   if (label === 'THESIS') return 'T'
@@ -412,7 +674,11 @@ function markerPrefixForSource(label: EvidenceSourceLabel): string {
   return 'S'
 }
 
-function buildEvidenceReferences(chunks: RagChunk[], documents: RagDocument[]): EvidenceReference[] {
+function buildEvidenceReferences(
+  chunks: RagChunk[],
+  documents: RagDocument[],
+  publications: CanonicalPublication[]
+): EvidenceReference[] {
   const counters = new Map<string, number>()
   const refs: EvidenceReference[] = []
   const documentsById = new Map(documents.map(doc => [doc.id, doc]))
@@ -425,7 +691,7 @@ function buildEvidenceReferences(chunks: RagChunk[], documents: RagDocument[]):
     counters.set(prefix, next)
 
     const marker = `${prefix}${next}`
-    const resolved = resolveChunkCitationFields(chunk, sourceLabel, documentsById)
+    const resolved = resolveChunkCitationFields(chunk, sourceLabel, documentsById, publications)
 
     refs.push({
       marker,
@@ -435,17 +701,48 @@ function buildEvidenceReferences(chunks: RagChunk[], documents: RagDocument[]):
       venue: resolved.venue,
       year: resolved.year,
       chunkId: chunk.id,
+      location: formatChunkLocation(chunk),
     })
   }
 
   return refs
 }
 
+const EVIDENCE_SPAN_MAX_CHARS = 1500
+
+function buildEvidenceSpans(refs: EvidenceReference[], chunks: RagChunk[], answerText: string): AgentEvidenceSpan[] {
+  const chunksById = new Map(chunks.map(chunk => [chunk.id, chunk]))
+  const used = usedEvidenceMarkers(answerText)
+
+  return refs.flatMap(ref => {
+    const chunk = chunksById.get(ref.chunkId)
+    if (!chunk) return []
+    const text = chunk.text.trim()
+    return [{
+      marker: ref.marker,
+      chunk_id: chunk.id,
+      document: chunk.sourceName,
+      source_role: chunk.sourceRole,
+      source_label: ref.sourceLabel,
+      title: ref.title,
+      venue: ref.venue,
+      year: ref.year,
+      heading: chunk.headingPath || null,
+      page_start: chunk.pageStart ?? null,
+      page_end: chunk.pageEnd ?? null,
+      location: ref.location,
+      text: text.length > EVIDENCE_SPAN_MAX_CHARS ? `${text.slice(0, EVIDENCE_SPAN_MAX_CHARS)}...` : text,
+      cited: used.has(ref.marker),
+    }]
+  })
+}
+
 function buildEvidenceMarkdownBlock(refs: EvidenceReference[]): string {
   if (!refs.length) return ''
 
   const lines = refs.map(ref => {
-    return `- [${ref.marker}] ${ref.sourceLabel} | ${ref.title} | venue: ${ref.venue} | year: ${ref.year} | chunk: ${ref.chunkId}`
+    const location = ref.location ? ` | location: ${ref.location}` : ''
+    return `- [${ref.marker}] ${ref.sourceLabel} | ${ref.title}${location} | venue: ${ref.venue} | year: ${ref.year} | chunk: ${ref.chunkId}`
   })
 
   return ['### Evidence', ...lines].join('\n')
@@ -515,6 +812,16 @@ function stripModelProvidedEvidenceSections(text: string): string {
   return text.slice(0, cutIndex).trim()
 }
 
+function usedEvidenceMarkers(text: string): Set<string> {
+  return new Set((text.match(/\[(TR\d+|P\d+|T\d+|W\d+|S\d+)\]/g) || []).map(marker => marker.slice(1, -1)))
+}
+
+function collectCitedRefs(text: string, refs: EvidenceReference[]): EvidenceReference[] {
+  const used = usedEvidenceMarkers(text)
+  const cited = refs.filter(ref => used.has(ref.marker))
+  return cited.length ? cited : refs
+}
+
 function enforceCitationContract(params: {
   query: string
   intentContext: IntentContext
@@ -619,110 +926,281 @@ function buildIntentPolicy(context: IntentContext): string[] {
   return lines
 }
 
+type RetrievalParams = Parameters<typeof retrieveRelevantChunks>[0] & { topK: number }
+
+async function retrieveTracedChunks(
+  params: RetrievalParams,
+  stage: string,
+  trace?: RetrievalTrace
+): Promise<RagChunk[]> {
+  if (!trace) return retrieveRelevantChunks(params)
+
+  const stageTrace: RetrievalTrace['stages'][number] = {
+    stage,
+    filters: {
+      top_k: params.topK,
+      include_source_roles: params.includeSourceRoles,
+      include_document_names: params.includeDocumentNames,
+      exclude_redundant: params.excludeRedundant,
+      max_chunks_per_document: params.maxChunksPerDocument,
+    },
+    scoring: null,
+    returned_chunk_ids: [],
+  }
+  trace.stages.push(stageTrace)
+
+  const chunks = await retrieveRelevantChunks({
+    ...params,
+    onScores: scoring => { stageTrace.scoring = scoring },
+  })
+  stageTrace.returned_chunk_ids = chunks.map(chunk => chunk.id)
+  return chunks
+}
+
+async function retrieveRerankedChunks(
+  params: RetrievalParams,
+  rerank: string | null,
+  stage: string,
+  retrievalNotes: string[],
+  trace?: RetrievalTrace
+): Promise<RagChunk[]> {
+  if (!rerank) return retrieveTracedChunks(params, stage, trace)
+
+  const pool = await retrieveTracedChunks({ ...params, topK: getRerankPoolSize(params.topK) }, stage, trace)
+  const reranked = await rerankChunks({
+    query: params.query,
+    chunks: pool,
+    topK: params.topK,
+    strategy: rerank,
+    signal: params.signal,
+  })
+  retrievalNotes.push(`${stage} ${reranked.note}`)
+
+  const stageTrace = trace?.stages[trace.stages.length - 1]
+  if (stageTrace) {
+    stageTrace.returned_chunk_ids = reranked.chunks.map(chunk => chunk.id)
+    stageTrace.rerank_note = reranked.note
+  }
+  return reranked.chunks
+}
+
+function recordDroppedChunks(
+  trace: RetrievalTrace | undefined,
+  step: RetrievalTrace['dropped'][number]['step'],
+  before: RagChunk[],
+  after: RagChunk[]
+): void {
+  if (!trace) return
+  const kept = new Set(after.map(chunk => chunk.id))
+  const seen = new Set<string>()
+  for (const chunk of before) {
+    if (kept.has(chunk.id) || seen.has(chunk.id)) continue
+    seen.add(chunk.id)
+    trace.dropped.push({ chunk_id: chunk.id, document: chunk.sourceName, step })
+  }
+}
+
+function finishTrace(trace: RetrievalTrace | undefined, context: IntentContext): IntentContext {
+  if (!trace) return context
+  trace.rag_id = context.ragId
+  trace.target_documents = context.targetDocumentNames
+  trace.final_chunk_ids = context.chunks.map(chunk => chunk.id)
+  trace.retrieval_notes = context.retrievalNotes
+  return context
+}
+
+/**
+ * Documents retrieval reads for `ragId`: its own, else those of its configured fallback when it is
+ * empty. Tenant corpora only fall back when the tenant configured a fallback_rag_id.
+ */
+async function resolveRetrievalCorpus(ragId: string): Promise<{ ragId: string; documents: RagDocument[]; fellBack: boolean }> {
+  const documents = await listRagDocuments(ragId)
+  const fallbackRagId = documents.length ? null : await resolveFallbackRagId(ragId)
+  if (fallbackRagId) {
+    const fallbackDocs = await listRagDocuments(fallbackRagId)
+    if (fallbackDocs.length > 0) return { ragId: fallbackRagId, documents: fallbackDocs, fellBack: true }
+  }
+  return { ragId, documents, fellBack: false }
+}
+
+/**
+ * Intent and mentioned documents a stateless question would be routed with, without retrieving
+ * chunks. Two questions with different routes get different evidence even when they read alike
+ * ("What is SANTA?" vs "What is ROSITA?").
+ */
+export async function detectQueryRoute(params: {
+  ragId: string
+  query: string
+  intent?: RagIntent
+}): Promise<{ intent: RagIntent; documents: string[] }> {
+  const { documents } = await resolveRetrievalCorpus(params.ragId)
+  const mentioned = scoreDocumentMentions(params.query, documents).filter(item => item.score > 0).map(item => item.doc)
+  return {
+    intent: params.intent ?? detectIntent(params.query, mentioned),
+    documents: mentioned.map(doc => doc.fileName).sort(),
+  }
+}
+
 async function retrieveIntentContext(params: {
   ragId: string
   query: string
   topK: number
+  conversation?: ConversationContext
+  hybrid?: HybridRetrievalOptions
+  rerank?: string | null
+  trace?: RetrievalTrace
+  signal?: AbortSignal
+  intent?: RagIntent
+  sourceRoles?: RagSourceRole[]
+  maxChunksPerDocument?: number
 }): Promise<IntentContext> {
-  const { query } = params
+  const { query, conversation, hybrid, trace, signal } = params
+  const rerank = params.rerank ?? null
   const topK = Math.max(1, params.topK)
-  let ragId = params.ragId
-  let documents = await listRagDocuments(ragId)
+  const sourceRoles = params.sourceRoles?.length ? params.sourceRoles : null
+  const allowsRole = (role: RagSourceRole) => !sourceRoles || sourceRoles.includes(role)
+  const perDocumentCap = params.maxChunksPerDocument ?? 2
+  const { ragId, documents, fellBack } = await resolveRetrievalCorpus(params.ragId)
   const retrievalNotes: string[] = []
+  if (fellBack) retrievalNotes.push(`Requested rag_id "${params.ragId}" is empty. Falling back to "${ragId}".`)
+
+  const mentionScores = scoreDocumentMentions(query, documents)
+  let mentionedDocuments = mentionScores.filter(item => item.score > 0).map(item => item.doc)
+  let searchQuery = query
+  const previousQuestion = conversation
+    ? [...conversation.turns].reverse().find(turn => turn.role === 'user')?.content
+    : undefined
+
+  if (conversation && previousQuestion && isFollowupQuery(query)) {
+    // Follow-ups like "how does that compare to SANTA?" inherit the papers cited in the previous answer.
+    const mentionedIds = new Set(mentionedDocuments.map(doc => doc.id))
+    const priorNames = new Set(conversation.citedDocumentNames)
+    const carriedDocuments = documents.filter(doc => (
+      priorNames.has(doc.fileName)
+      && doc.sourceRole === 'publication'
+      && !mentionedIds.has(doc.id)
+    ))
+    mentionedDocuments = [...mentionedDocuments, ...carriedDocuments]
+    searchQuery = `${query}\n${previousQuestion}`
+    retrievalNotes.push(
+      carriedDocuments.length > 0
+        ? `follow-up carried papers from previous turn: ${carriedDocuments.map(doc => doc.fileName).join(', ')}`
+        : 'follow-up query expanded with previous question'
+    )
+  }
 
-  if (!documents.length && ragId !== DEFAULT_RAG_ID) {
-    const fallbackDocs = await listRagDocuments(DEFAULT_RAG_ID)
-    if (fallbackDocs.length > 0) {
-      retrievalNotes.push(`Requested rag_id "${ragId}" is empty. Falling back to "${DEFAULT_RAG_ID}".`)
-      ragId = DEFAULT_RAG_ID
-      documents = fallbackDocs
+  const intent = params.intent ?? detectIntent(query, mentionedDocuments)
+  if (params.intent) retrievalNotes.push(`intent override: ${params.intent}`)
+  if (sourceRoles) retrievalNotes.push(`source roles restricted to: ${sourceRoles.join(', ')}`)
+  if (trace) {
+    const signals = getIntentSignals(query, mentionedDocuments)
+    const mentionedIds = new Set(mentionedDocuments.map(doc => doc.id))
+    trace.search_query = searchQuery
+    trace.intent = intent
+    trace.intent_signals = {
+      future: signals.future,
+      overview: signals.overview,
+      compare: signals.compare,
+      paper: signals.paper,
+      followup: searchQuery !== query,
+      publication_mentions: signals.publicationMentions,
     }
+    trace.document_mentions = mentionScores.map(({ doc, score }) => ({
+      document: doc.fileName,
+      source_role: doc.sourceRole,
+      score: Math.round(score * 1000) / 1000,
+      mentioned: mentionedIds.has(doc.id),
+    }))
   }
-
-  const mentionedDocuments = findMentionedDocuments(query, documents)
-  const intent = detectIntent(query, mentionedDocuments)
-  const publicationTargets = mentionedDocuments
-    .filter(doc => doc.sourceRole === 'publication')
-    .slice(0, 4)
+  const publicationTargets = allowsRole('publication')
+    ? mentionedDocuments.filter(doc => doc.sourceRole === 'publication').slice(0, 4)
+    : []
   const targetDocumentNames = publicationTargets.map(doc => doc.fileName)
-  const hasPublicationDocs = documents.some(doc => doc.sourceRole === 'publication')
-  const hasThesisDocs = documents.some(doc => doc.sourceRole === 'thesis')
+  const hasPublicationDocs = allowsRole('publication') && documents.some(doc => doc.sourceRole === 'publication')
+  const hasThesisDocs = allowsRole('thesis') && documents.some(doc => doc.sourceRole === 'thesis')
 
   if (intent === 'paper_specific' && targetDocumentNames.length > 0) {
     const targetName = targetDocumentNames[0]
-    const strictChunks = await retrieveRelevantChunks({
+    const strictChunks = await retrieveRerankedChunks({
       ragId,
-      query,
+      query: searchQuery,
+      hybrid,
+      signal,
       topK: Math.max(2, topK),
       includeDocumentNames: [targetName],
       includeSourceRoles: ['publication'],
       excludeRedundant: true,
-      maxChunksPerDocument: Math.max(2, Math.min(4, topK)),
-    })
+      maxChunksPerDocument: params.maxChunksPerDocument ?? Math.max(2, Math.min(4, topK)),
+    }, rerank, 'paper_specific', retrievalNotes, trace)
 
     if (strictChunks.length > 0) {
       retrievalNotes.push(`paper_specific hard filter applied: ${targetName}`)
-      return {
+      return finishTrace(trace, {
         intent,
         ragId,
         chunks: strictChunks.slice(0, Math.max(2, topK)),
         mentionedDocuments,
         targetDocumentNames: [targetName],
         retrievalNotes,
-      }
+      })
     }
 
     retrievalNotes.push(`paper_specific hard filter had no results for ${targetName}`)
-    return {
+    return finishTrace(trace, {
       intent,
       ragId,
       chunks: [],
       mentionedDocuments,
       targetDocumentNames: [targetName],
       retrievalNotes,
-    }
+    })
   }
 
   if (intent === 'paper_compare' && targetDocumentNames.length > 0) {
     const seededChunks: RagChunk[] = []
     for (const documentName of targetDocumentNames) {
-      const seed = await retrieveRelevantChunks({
+      const seed = await retrieveTracedChunks({
         ragId,
-        query,
+        query: searchQuery,
+        hybrid,
+        signal,
         topK: 1,
         includeDocumentNames: [documentName],
         includeSourceRoles: ['publication'],
         excludeRedundant: true,
         maxChunksPerDocument: 1,
-      })
+      }, `paper_compare_seed:${documentName}`, trace)
       if (seed.length > 0) seededChunks.push(seed[0])
     }
 
-    const additional = await retrieveRelevantChunks({
+    const additional = await retrieveRerankedChunks({
       ragId,
-      query,
+      query: searchQuery,
+      hybrid,
+      signal,
       topK: Math.max(topK, topK - seededChunks.length),
       includeDocumentNames: targetDocumentNames,
       includeSourceRoles: ['publication'],
       excludeRedundant: true,
-      maxChunksPerDocument: 2,
-    })
+      maxChunksPerDocument: perDocumentCap,
+    }, rerank, 'paper_compare', retrievalNotes, trace)
 
-    const merged = capChunksPerDocument(
-      mergeUniqueChunks([...seededChunks, ...additional]),
-      2
-    ).slice(0, topK)
+    const uniqueCompare = mergeUniqueChunks([...seededChunks, ...additional])
+    const cappedCompare = capChunksPerDocument(uniqueCompare, perDocumentCap)
+    const merged = cappedCompare.slice(0, topK)
+    recordDroppedChunks(trace, 'capChunksPerDocument', uniqueCompare, cappedCompare)
+    recordDroppedChunks(trace, 'topK', cappedCompare, merged)
 
     if (merged.length > 0) {
       retrievalNotes.push(`paper_compare targeted papers: ${targetDocumentNames.join(', ')}`)
-      return {
+      return finishTrace(trace, {
         intent,
         ragId,
         chunks: merged,
         mentionedDocuments,
         targetDocumentNames,
         retrievalNotes,
-      }
+      })
     }
   }
 
@@ -741,83 +1219,184 @@ async function retrieveIntentContext(params: {
   if (!hasPublicationDocs) publicationTarget = 0
   if (!hasThesisDocs) thesisTarget = 0
 
+  if (trace) {
+    trace.mix = mix
+    trace.targets = { publication: publicationTarget, thesis: thesisTarget }
+  }
+
   const thesisExcludeRedundant = !(intent === 'research_overview' || intent === 'future_directions')
   const publicationChunks = publicationTarget > 0
-    ? await retrieveRelevantChunks({
+    ? await retrieveRerankedChunks({
         ragId,
-        query,
+        query: searchQuery,
+        hybrid,
+        signal,
         topK: publicationTarget,
         includeSourceRoles: ['publication'],
         includeDocumentNames: intent === 'paper_compare' && targetDocumentNames.length > 0
           ? targetDocumentNames
           : undefined,
         excludeRedundant: true,
-        maxChunksPerDocument: 2,
-      })
+        maxChunksPerDocument: perDocumentCap,
+      }, rerank, 'publication', retrievalNotes, trace)
     : []
   const thesisChunks = thesisTarget > 0
-    ? await retrieveRelevantChunks({
+    ? await retrieveRerankedChunks({
         ragId,
-        query,
+        query: searchQuery,
+        hybrid,
+        signal,
         topK: thesisTarget,
         includeSourceRoles: ['thesis'],
         excludeRedundant: thesisExcludeRedundant,
-        maxChunksPerDocument: 2,
-      })
+        maxChunksPerDocument: perDocumentCap,
+      }, rerank, 'thesis', retrievalNotes, trace)
     : []
 
   const preferThesisFirst = intent === 'research_overview' || intent === 'future_directions'
-  let combined = preferThesisFirst
+  const interleaved = preferThesisFirst
     ? interleaveChunks(thesisChunks, publicationChunks, topK)
     : interleaveChunks(publicationChunks, thesisChunks, topK)
-  combined = capChunksPerDocument(mergeUniqueChunks(combined), 2)
+  recordDroppedChunks(trace, 'interleaveChunks', [...publicationChunks, ...thesisChunks], interleaved)
+  const uniqueInterleaved = mergeUniqueChunks(interleaved)
+  let combined = capChunksPerDocument(uniqueInterleaved, perDocumentCap)
+  recordDroppedChunks(trace, 'capChunksPerDocument', uniqueInterleaved, combined)
 
   if (combined.length < topK) {
-    const backfill = await retrieveRelevantChunks({
+    const backfill = await retrieveTracedChunks({
       ragId,
-      query,
+      query: searchQuery,
+      hybrid,
+      signal,
       topK: topK * 2,
-      includeSourceRoles: ['publication', 'thesis'],
+      includeSourceRoles: sourceRoles ?? ['publication', 'thesis'],
       excludeRedundant: false,
-      maxChunksPerDocument: 2,
-    })
-    combined = capChunksPerDocument(
-      mergeUniqueChunks([...combined, ...backfill]),
-      2
-    )
+      maxChunksPerDocument: perDocumentCap,
+    }, 'backfill', trace)
+    const uniqueBackfilled = mergeUniqueChunks([...combined, ...backfill])
+    combined = capChunksPerDocument(uniqueBackfilled, perDocumentCap)
+    recordDroppedChunks(trace, 'capChunksPerDocument', uniqueBackfilled, combined)
   }
 
   const finalChunks = combined.slice(0, topK)
+  recordDroppedChunks(trace, 'topK', combined, finalChunks)
   if (finalChunks.length > 0) {
     retrievalNotes.push(
       `intent=${intent} mix publication=${publicationTarget} thesis=${thesisTarget} topK=${topK}`
     )
-    return {
+    return finishTrace(trace, {
       intent,
       ragId,
       chunks: finalChunks,
       mentionedDocuments,
       targetDocumentNames,
       retrievalNotes,
-    }
+    })
   }
 
-  const fallback = await retrieveRelevantChunks({
+  const fallback = await retrieveRerankedChunks({
     ragId,
-    query,
+    query: searchQuery,
+    hybrid,
+    signal,
     topK,
+    includeSourceRoles: sourceRoles ?? undefined,
     excludeRedundant: false,
-  })
+  }, rerank, 'fallback', retrievalNotes, trace)
 
   retrievalNotes.push(`intent=${intent} fallback=unfiltered`)
-  return {
+  return finishTrace(trace, {
     intent,
     ragId,
     chunks: fallback,
     mentionedDocuments,
     targetDocumentNames,
     retrievalNotes,
+  })
+}
+
+/**
+ * Run intent detection and retrieval exactly as executeAgent would, without calling the chat model,
+ * and return the full decision trace alongside the selected chunks.
+ * Follow-up handling is exercised with a caller-supplied previous question and cited documents;
+ * stored sessions are never read here, since the trace would expose their questions.
+ */
+export async function explainRetrieval(input: {
+  query: string
+  rag_id?: string
+  topK?: number
+  previousQuestion?: string
+  previousCitedDocuments?: string[]
+  retrievalFusion?: HybridRetrievalOptions
+  rerank?: boolean | string
+}): Promise<{ trace: RetrievalTrace; chunks: RagChunk[] }> {
+  const requestedRagId = input.rag_id || DEFAULT_RAG_ID
+  const conversation: ConversationContext | undefined = input.previousQuestion
+    ? {
+        summary: '',
+        turns: [{ role: 'user', content: input.previousQuestion, timestamp: new Date().toISOString() }],
+        citedDocumentNames: input.previousCitedDocuments ?? [],
+      }
+    : undefined
+  const trace: RetrievalTrace = {
+    query: input.query,
+    search_query: input.query,
+    requested_rag_id: requestedRagId,
+    rag_id: requestedRagId,
+    intent: null,
+    intent_signals: null,
+    document_mentions: [],
+    target_documents: [],
+    mix: null,
+    targets: null,
+    stages: [],
+    dropped: [],
+    final_chunk_ids: [],
+    retrieval_notes: [],
+  }
+
+  const context = await retrieveIntentContext({
+    ragId: requestedRagId,
+    query: input.query,
+    topK: input.topK ?? DEFAULT_RAG_TOP_K,
+    conversation,
+    hybrid: input.retrievalFusion,
+    rerank: resolveRerankStrategy(input.rerank),
+    trace,
+  })
+
+  return { trace, chunks: context.chunks }
+}
+
+function createAnswerStreamer(onToken: (delta: string) => void): (delta: string) => void {
+  let buffer = ''
+  let emitted = ''
+
+  return (delta: string) => {
+    buffer += delta
+    const trimmed = buffer.trimStart()
+    // Models that ignore the JSON contract stream plain prose; forward it once it clearly is not JSON.
+    const partial = extractPartialResponseText(buffer)
+      ?? (trimmed.length > 24 && !/^[{`<]/.test(trimmed) ? trimmed : null)
+
+    if (partial === null || partial.length <= emitted.length || !partial.startsWith(emitted)) return
+    onToken(partial.slice(emitted.length))
+    emitted = partial
+  }
+}
+
+/**
+ * Schema-constrained replies are plain JSON, so try a strict parse first; the lenient
+ * parseLLMJson heuristics remain for providers without a JSON mode.
+ */
+function parseCompletion(completion: string): any {
+  try {
+    const parsed = JSON.parse(completion)
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed
+  } catch {
+    // Not strict JSON — fall through to the lenient parser.
   }
+  return parseLLMJson(completion)
 }
 
 function normalizeParsedResult(parsed: any, fallbackText?: string): {
@@ -869,6 +1448,7 @@ function normalizeParsedResult(parsed: any, fallbackText?: string): {
 }
 
 function buildPrompt(params: {
+  persona: AgentProfile['persona']
   userMessage: string
   intent: RagIntent
   intentPolicy: string[]
@@ -876,8 +1456,10 @@ function buildPrompt(params: {
   contextChunks: string[]
   citations: string[]
   assetContext: string[]
+  conversation?: ConversationContext
 }): string {
   const {
+    persona,
     userMessage,
     intent,
     intentPolicy,
@@ -885,6 +1467,7 @@ function buildPrompt(params: {
     contextChunks,
     citations,
     assetContext,
+    conversation,
   } = params
 
   const contextText = contextChunks.length
@@ -907,6 +1490,20 @@ function buildPrompt(params: {
     ? retrievalNotes.map(note => `- ${note}`).join('\n')
     : 'No retrieval notes.'
 
+  const conversationLines: string[] = []
+  if (conversation?.summary) {
+    conversationLines.push('Earlier in this conversation (summary):', conversation.summary, '')
+  }
+  for (const turn of conversation?.turns || []) {
+    conversationLines.push(`${turn.role === 'user' ? 'Visitor' : 'Twin'}: ${turn.content}`)
+  }
+  const conversationText = conversationLines.length
+    ? [
+        'Use this only to resolve references such as "that", "it" or "the paper"; ground claims in the knowledge context below.',
+        ...conversationLines,
+      ].join('\n')
+    : 'No prior turns in this session.'
+
   const citationContractText = [
     '1. Use inline evidence markers such as [P1], [T1], [TR1] directly on substantive claims.',
     '2. For quantitative claims, cite publication evidence ([P#]) when available.',
@@ -915,11 +1512,11 @@ function buildPrompt(params: {
   ].join('\n')
 
   return [
-    `Role:\n${AGENT_ROLE}`,
+    `Role:\n${persona.role}`,
     '',
-    `Goal:\n${AGENT_GOAL}`,
+    `Goal:\n${persona.goal}`,
     '',
-    `Instructions:\n${AGENT_INSTRUCTIONS}`,
+    `Instructions:\n${[...persona.instructions, '', AGENT_RESPONSE_CONTRACT].join('\n')}`,
     '',
     `Detected query intent:\n${intent}`,
     '',
@@ -929,6 +1526,8 @@ function buildPrompt(params: {
     '',
     `Retrieval notes:\n${retrievalNotesText}`,
     '',
+    `Conversation so far:\n${conversationText}`,
+    '',
     `User question:\n${userMessage}`,
     '',
     `Knowledge context:\n${contextText}`,
@@ -939,21 +1538,52 @@ function buildPrompt(params: {
   ].join('\n')
 }
 
-export async function executeAgent(input: AgentExecutionInput): Promise<AgentExecutionOutput> {
-  const requestedRagId = input.rag_id || DEFAULT_RAG_ID
+export async function executeAgent(
+  input: AgentExecutionInput,
+  hooks: AgentExecutionHooks = {}
+): Promise<AgentExecutionOutput> {
+  const profile = await resolveAgentProfile(input.agent_id, input.tenant_id)
+  const requestedRagId = input.rag_id || profile.default_rag_id || DEFAULT_RAG_ID
+  const provider = input.provider ?? profile.model.provider
+  const chatModel = input.chatModel ?? profile.model.chat_model
   const topK = input.topK ?? DEFAULT_RAG_TOP_K
-  const intentContext = await retrieveIntentContext({
+  const useConversationMemory = input.useConversationMemory !== false && Boolean(input.session_id)
+  const conversation = useConversationMemory
+    ? await getConversationContext({ sessionId: input.session_id, agentId: input.agent_id, tenantId: input.tenant_id })
+    : undefined
+  const intentContext = await runStage('retrieval', hooks.signal, signal => retrieveIntentContext({
     ragId: requestedRagId,
     query: input.message,
     topK,
-  })
+    conversation,
+    hybrid: input.retrievalFusion,
+    rerank: resolveRerankStrategy(input.rerank),
+    signal,
+    intent: input.intent,
+    sourceRoles: input.sourceRoles,
+    maxChunksPerDocument: input.maxChunksPerDocument,
+  }))
   const topChunks = intentContext.chunks
   const ragDocuments = await listRagDocuments(intentContext.ragId)
-  const evidenceRefs = buildEvidenceReferences(topChunks, ragDocuments)
+  const evidenceRefs = buildEvidenceReferences(topChunks, ragDocuments, profile.publications)
+  hooks.onRetrieval?.({
+    intent: intentContext.intent,
+    rag_id: intentContext.ragId,
+    retrieval_notes: intentContext.retrievalNotes,
+    evidence: evidenceRefs.map(ref => ({
+      marker: ref.marker,
+      source_label: ref.sourceLabel,
+      title: ref.title,
+      venue: ref.venue,
+      year: ref.year,
+      chunk_id: ref.chunkId,
+      location: ref.location,
+    })),
+  })
 
   const assetContext: string[] = []
   if (Array.isArray(input.assets) && input.assets.length > 0) {
-    const assets = await getAssetsByIds(input.assets)
+    const assets = await getAssetsByIds(input.assets, input.tenant_id)
     for (const asset of assets) {
       if (asset.text_content) {
         assetContext.push(`${asset.file_name}: ${asset.text_content.slice(0, 2500)}`)
@@ -962,57 +1592,181 @@ export async function executeAgent(input: AgentExecutionInput): Promise<AgentExe
   }
 
   const citationHints = evidenceRefs
-    .map(ref => `- [${ref.marker}] ${ref.sourceLabel} | ${ref.title}`)
+    .map(ref => `- [${ref.marker}] ${ref.sourceLabel} | ${ref.title}${ref.location ? ` (${ref.location})` : ''}`)
     .slice(0, 8)
 
   const prompt = buildPrompt({
+    persona: profile.persona,
     userMessage: input.message,
     intent: intentContext.intent,
     intentPolicy: buildIntentPolicy(intentContext),
     retrievalNotes: intentContext.retrievalNotes,
-    contextChunks: topChunks.map(chunk => chunk.text),
+    contextChunks: topChunks.map(chunk => {
+      const location = formatChunkLocation(chunk)
+      return location ? `(${location}) ${chunk.text}` : chunk.text
+    }),
     citations: citationHints,
     assetContext,
+    conversation,
   })
 
-  const completion = await ollamaChat(
-    [
-      {
-        role: 'system',
-        content:
-          "You are Manogna S.'s Research Digital Twin. Follow role, goal, and instructions exactly. Return only valid JSON with keys response_text, citations, suggested_followups.",
-      },
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
+  const chatMessages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: profile.persona.system_message,
+    },
     {
-      model: input.chatModel,
-      temperature: input.temperature,
-      top_p: input.topP,
+      role: 'user',
+      content: prompt,
+    },
+  ]
+  const structuredOutput = getStructuredOutputConfig().enabled
+  const chatOptions: ChatCompletionOptions = {
+    provider,
+    model: chatModel,
+    temperature: input.temperature ?? profile.model.temperature,
+    top_p: input.topP ?? profile.model.top_p,
+    max_tokens: input.maxTokens,
+    ...(structuredOutput ? { jsonSchema: getAgentResponseJsonSchema() } : {}),
+  }
+
+  // The first attempt and its JSON repairs share the generation timeout.
+  const { maxRepairAttempts } = getJsonRepairConfig()
+  const { completion, parsed, schemaErrors, jsonAttempts } = await runStage('generation', hooks.signal, async signal => {
+    const stageOptions: ChatCompletionOptions = { ...chatOptions, signal }
+    let completion = hooks.onToken
+      ? await ollamaChatStream(chatMessages, stageOptions, createAnswerStreamer(hooks.onToken))
+      : await ollamaChat(chatMessages, stageOptions)
+    let parsed = parseCompletion(completion)
+    let schemaErrors = validateAgentResponse(parsed)
+    let jsonAttempts = 1
+
+    // Repairs are not streamed; the final payload replaces whatever the first attempt streamed.
+    while (schemaErrors.length > 0 && jsonAttempts <= maxRepairAttempts) {
+      jsonAttempts += 1
+      let repaired: string
+      try {
+        repaired = await ollamaChat(
+          [
+            ...chatMessages,
+            { role: 'assistant', content: completion },
+            { role: 'user', content: buildRepairPrompt(schemaErrors) },
+          ],
+          stageOptions
+        )
+      } catch (error) {
+        if (signal.aborted) throw error
+        const reason = error instanceof Error ? error.message : 'unknown error'
+        console.warn(`[agentRuntime] JSON repair attempt ${jsonAttempts} failed: ${reason}`)
+        break
+      }
+
+      const repairedParsed = parseCompletion(repaired)
+      const repairedErrors = validateAgentResponse(repairedParsed)
+      if (repairedErrors.length < schemaErrors.length) {
+        completion = repaired
+        parsed = repairedParsed
+        schemaErrors = repairedErrors
+      }
     }
-  )
 
-  const parsed = parseLLMJson(completion)
+    return { completion, parsed, schemaErrors, jsonAttempts }
+  })
+
   const normalized = normalizeParsedResult(parsed, completion)
+  let answerText = stripModelProvidedEvidenceSections(normalized.response_text)
+  let grounding: GroundingReport | null = null
+  const groundingNotes: string[] = []
+  if (getGroundingConfig().enabled && evidenceRefs.length > 0) {
+    const chunksById = new Map(topChunks.map(chunk => [chunk.id, chunk]))
+    try {
+      const verified = await runStage('grounding', hooks.signal, signal => verifyGrounding({
+        text: answerText,
+        evidence: evidenceRefs.flatMap(ref => {
+          const chunk = chunksById.get(ref.chunkId)
+          return chunk ? [{ marker: ref.marker, chunk }] : []
+        }),
+        signal,
+      }))
+      answerText = verified.text
+      grounding = verified.report
+    } catch (error) {
+      // Verification is a check on a finished answer: a timeout or failure keeps the answer unverified.
+      // Only the caller's own cancellation ends the run.
+      if (hooks.signal?.aborted) throw error
+      const reason = error instanceof Error ? error.message : 'unknown error'
+      groundingNotes.push(`grounding verification skipped: ${reason}`)
+    }
+  }
+  if (hooks.onAnswerContext) {
+    const usedMarkers = usedEvidenceMarkers(answerText)
+    hooks.onAnswerContext({
+      intent: intentContext.intent,
+      ragId: intentContext.ragId,
+      chunks: topChunks,
+      citedChunkIds: evidenceRefs.filter(ref => usedMarkers.has(ref.marker)).map(ref => ref.chunkId),
+    })
+  }
   const enforced = enforceCitationContract({
     query: input.message,
     intentContext,
-    responseText: normalized.response_text,
+    responseText: answerText,
     refs: evidenceRefs,
   })
   normalized.response_text = enforced.responseText
   normalized.citations = enforced.citations
 
+  if (useConversationMemory) {
+    const citedRefs = collectCitedRefs(answerText, evidenceRefs)
+    const timestamp = new Date().toISOString()
+    try {
+      await appendConversationTurns({
+        sessionId: input.session_id,
+        agentId: input.agent_id,
+        tenantId: input.tenant_id,
+        userId: input.user_id,
+        turns: [
+          { role: 'user', content: input.message, timestamp },
+          {
+            role: 'twin',
+            content: answerText,
+            timestamp,
+            intent: intentContext.intent,
+            citedChunkIds: citedRefs.map(ref => ref.chunkId),
+            citedDocumentNames: Array.from(new Set(citedRefs.map(ref => ref.sourceName))),
+          },
+        ],
+      })
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown error'
+      console.warn(`[agentRuntime] Failed to persist conversation turn for ${input.session_id}: ${reason}`)
+    }
+  }
+
   return {
     status: 'success',
-    result: normalized,
+    result: { ...normalized, evidence: buildEvidenceSpans(evidenceRefs, topChunks, answerText) },
     message: normalized.response_text,
     metadata: {
       agent_name: input.agent_id,
+      agent_profile: { agent_id: profile.agent_id, version: profile.version },
       timestamp: new Date().toISOString(),
-      model: input.chatModel || getChatModel(),
+      provider: provider || getDefaultChatProviderName(),
+      model: chatModel || getChatModel(provider),
+      retrieval_notes: [...intentContext.retrievalNotes, ...groundingNotes],
+      grounding,
+      json_attempts: jsonAttempts,
+      schema_errors: schemaErrors,
+      structured_output: structuredOutput,
+      parameters: {
+        temperature: chatOptions.temperature ?? null,
+        top_p: chatOptions.top_p ?? null,
+        top_k: topK,
+        max_tokens: input.maxTokens ?? null,
+        intent_override: input.intent ?? null,
+        source_roles: input.sourceRoles ?? null,
+        max_chunks_per_document: input.maxChunksPerDocument ?? null,
+      },
     },
   }
 }
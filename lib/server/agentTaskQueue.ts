@@ -0,0 +1,417 @@
+/**
+ * Durable agent task queue.
+ * Responsibilities:
+ * - Persist each agent task as data/tasks/<task_id>.json so any process can poll it and restarts keep it.
+ * - Run queued tasks through the cached executeAgent (responseCache.ts) with a per-process concurrency limit
+ *   that streamed runs share (acquireAgentRunSlot).
+ * - Claim tasks with a lock file and a renewable lease; tasks whose worker stopped are retried or failed.
+ * - Record progress, cancel tasks (aborting the run's model calls), and purge finished tasks after AGENT_TASK_TTL_MS.
+ */
+
+import { DEFAULT_AGENT_TASK_TTL_MS } from '@/lib/config/env'
+import type { AgentExecutionInput, AgentExecutionOutput } from '@/lib/server/agentRuntime'
+import { ensureDir, readJsonFile, readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { executeAgentCached } from '@/lib/server/responseCache'
+import { sanitizeFileName } from '@/lib/server/text'
+import { promises as fs } from 'fs'
+
+export type AgentTaskStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export type AgentTaskProgress = {
+  stage: 'queued' | 'retrieving' | 'generating' | 'finished'
+  intent: string | null
+  evidence_count: number
+  /** Streamed answer characters so far; lets pollers show that generation is advancing. */
+  generated_chars: number
+}
+
+export type AgentTask = {
+  id: string
+  status: AgentTaskStatus
+  tenant_id: string | null
+  input: AgentExecutionInput
+  progress: AgentTaskProgress
+  /** Number of times a worker has claimed the task. */
+  attempts: number
+  worker_id: string | null
+  lease_expires_at: string | null
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  finished_at: string | null
+  response: AgentExecutionOutput | null
+  error: string | null
+}
+
+const TASK_DIR = resolveDataPath('tasks')
+// A lock older than this belongs to a process that died mid-update.
+const STALE_LOCK_MS = 10_000
+const LOCK_RETRY_DELAY_MS = 25
+const LOCK_MAX_ATTEMPTS = 80
+// Progress writes during streaming are throttled to one per interval.
+const PROGRESS_WRITE_INTERVAL_MS = 1000
+
+const globalQueue = globalThis as typeof globalThis & {
+  __researchTwinTaskWorkerId?: string
+  __researchTwinTaskTick?: NodeJS.Timeout
+  /** Tasks running in this process, keyed by id, with the controller that aborts each run. */
+  __researchTwinTaskActive?: Map<string, AbortController>
+  __researchTwinTaskSweeping?: boolean
+  /** Run slots in use by queued tasks and streamed runs, and streamed runs waiting for one. */
+  __researchTwinRunSlots?: { active: number; waiters: Array<() => void> }
+}
+
+const workerId = globalQueue.__researchTwinTaskWorkerId ?? `${process.pid}-${crypto.randomUUID().slice(0, 8)}`
+globalQueue.__researchTwinTaskWorkerId = workerId
+
+const activeTasks = globalQueue.__researchTwinTaskActive ?? new Map<string, AbortController>()
+globalQueue.__researchTwinTaskActive = activeTasks
+
+const runSlots = globalQueue.__researchTwinRunSlots ?? { active: 0, waiters: [] }
+globalQueue.__researchTwinRunSlots = runSlots
+
+export function getAgentQueueConfig() {
+  const concurrency = Number.parseInt(process.env.AGENT_QUEUE_CONCURRENCY || '2', 10)
+  const leaseMs = Number.parseInt(process.env.AGENT_QUEUE_LEASE_MS || '60000', 10)
+  const pollMs = Number.parseInt(process.env.AGENT_QUEUE_POLL_MS || '1000', 10)
+  const maxAttempts = Number.parseInt(process.env.AGENT_QUEUE_MAX_ATTEMPTS || '2', 10)
+
+  return {
+    concurrency: Number.isFinite(concurrency) && concurrency > 0 ? concurrency : 2,
+    leaseMs: Number.isFinite(leaseMs) && leaseMs >= 5000 ? leaseMs : 60_000,
+    pollMs: Number.isFinite(pollMs) && pollMs >= 100 ? pollMs : 1000,
+    maxAttempts: Number.isFinite(maxAttempts) && maxAttempts > 0 ? maxAttempts : 2,
+    ttlMs: Number.isFinite(DEFAULT_AGENT_TASK_TTL_MS) && DEFAULT_AGENT_TASK_TTL_MS > 0 ? DEFAULT_AGENT_TASK_TTL_MS : 900_000,
+  }
+}
+
+function taskPath(taskId: string): string {
+  return `${TASK_DIR}/${sanitizeFileName(taskId)}.json`
+}
+
+function isFinished(status: AgentTaskStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled'
+}
+
+async function readTaskFile(taskId: string): Promise<AgentTask | null> {
+  return readJsonFileIfExists<AgentTask | null>(taskPath(taskId), null)
+}
+
+/**
+ * Cross-process read-modify-write of one task. The lock file is created exclusively, so two
+ * workers can never both claim the same task. Returning null from `mutate` skips the write.
+ */
+async function updateTask(
+  taskId: string,
+  mutate: (task: AgentTask) => AgentTask | null
+): Promise<AgentTask | null> {
+  const lockPath = `${taskPath(taskId)}.lock`
+
+  for (let attempt = 0; attempt < LOCK_MAX_ATTEMPTS; attempt++) {
+    try {
+      const handle = await fs.open(lockPath, 'wx')
+      await handle.close()
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'EEXIST') throw error
+      const lockStat = await fs.stat(lockPath).catch(() => null)
+      if (lockStat && Date.now() - lockStat.mtimeMs > STALE_LOCK_MS) {
+        await fs.unlink(lockPath).catch(() => undefined)
+      } else {
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_DELAY_MS))
+      }
+      continue
+    }
+
+    try {
+      const current = await readTaskFile(taskId)
+      if (!current) return null
+      const next = mutate(current)
+      if (!next) return null
+      next.updated_at = new Date().toISOString()
+      await writeJsonFileAtomic(taskPath(taskId), next)
+      return next
+    } finally {
+      await fs.unlink(lockPath).catch(() => undefined)
+    }
+  }
+
+  throw new Error(`Timed out waiting for the lock on agent task ${taskId}`)
+}
+
+export async function enqueueAgentTask(input: AgentExecutionInput, tenantId: string | null): Promise<AgentTask> {
+  await ensureDir(TASK_DIR)
+
+  const now = new Date().toISOString()
+  const task: AgentTask = {
+    id: crypto.randomUUID(),
+    status: 'queued',
+    tenant_id: tenantId,
+    input,
+    progress: { stage: 'queued', intent: null, evidence_count: 0, generated_chars: 0 },
+    attempts: 0,
+    worker_id: null,
+    lease_expires_at: null,
+    created_at: now,
+    updated_at: now,
+    started_at: null,
+    finished_at: null,
+    response: null,
+    error: null,
+  }
+
+  await writeJsonFileAtomic(taskPath(task.id), task)
+  startAgentTaskWorkers()
+  void processQueue()
+  return task
+}
+
+export async function getAgentTask(taskId: string): Promise<AgentTask | null> {
+  const task = await readTaskFile(taskId)
+  if (!task) return null
+
+  const { ttlMs } = getAgentQueueConfig()
+  if (task.finished_at && Date.now() - Date.parse(task.finished_at) > ttlMs) return null
+  return task
+}
+
+/**
+ * Cancel a queued or running task. A run in this process is aborted at once; a run in another
+ * process stops at its next lease renewal. Returns null for unknown tasks.
+ */
+export async function cancelAgentTask(taskId: string): Promise<AgentTask | null> {
+  const current = await readTaskFile(taskId)
+  if (!current) return null
+  if (isFinished(current.status)) return current
+
+  const cancelled = await updateTask(taskId, task => {
+    if (isFinished(task.status)) return null
+    const now = new Date().toISOString()
+    return { ...task, status: 'cancelled', finished_at: now, lease_expires_at: null, error: 'Cancelled' }
+  })
+  activeTasks.get(taskId)?.abort(new Error('Agent task was cancelled'))
+  return cancelled ?? readTaskFile(taskId)
+}
+
+function isClaimable(task: AgentTask, now: number): boolean {
+  if (task.status === 'queued') return true
+  // A running task whose lease lapsed lost its worker (restart, crash).
+  return task.status === 'running' && (!task.lease_expires_at || Date.parse(task.lease_expires_at) < now)
+}
+
+async function claimTask(taskId: string): Promise<AgentTask | null> {
+  const { leaseMs, maxAttempts } = getAgentQueueConfig()
+
+  return updateTask(taskId, task => {
+    const now = Date.now()
+    if (!isClaimable(task, now)) return null
+
+    if (task.attempts >= maxAttempts) {
+      return {
+        ...task,
+        status: 'failed',
+        finished_at: new Date(now).toISOString(),
+        lease_expires_at: null,
+        error: `Worker stopped while running the task (${task.attempts} attempt${task.attempts === 1 ? '' : 's'})`,
+      }
+    }
+
+    return {
+      ...task,
+      status: 'running',
+      attempts: task.attempts + 1,
+      worker_id: workerId,
+      lease_expires_at: new Date(now + leaseMs).toISOString(),
+      started_at: task.started_at || new Date(now).toISOString(),
+    }
+  })
+}
+
+/**
+ * Apply a change only while this worker still owns the running task; cancellation or a
+ * reclaim by another worker makes later writes from this run no-ops.
+ */
+function updateOwnedTask(taskId: string, mutate: (task: AgentTask) => AgentTask): Promise<AgentTask | null> {
+  return updateTask(taskId, task => (
+    task.status === 'running' && task.worker_id === workerId ? mutate(task) : null
+  ))
+}
+
+async function runTask(task: AgentTask, abort: AbortController): Promise<void> {
+  const { leaseMs } = getAgentQueueConfig()
+  const renewLease = () => updateOwnedTask(task.id, current => ({
+    ...current,
+    lease_expires_at: new Date(Date.now() + leaseMs).toISOString(),
+  }))
+  // A failed renewal means the task was cancelled (possibly from another process) or reclaimed.
+  const heartbeat = setInterval(() => {
+    void renewLease()
+      .then(owned => { if (!owned) abort.abort(new Error('Agent task was cancelled')) })
+      .catch(() => undefined)
+  }, Math.floor(leaseMs / 3))
+
+  let generatedChars = 0
+  let lastProgressWrite = 0
+  const writeProgress = (patch: Partial<AgentTaskProgress>) => updateOwnedTask(task.id, current => ({
+    ...current,
+    progress: { ...current.progress, ...patch },
+  })).catch(() => null)
+
+  try {
+    await writeProgress({ stage: 'retrieving' })
+    const response = await executeAgentCached(task.input, {
+      onRetrieval: event => {
+        void writeProgress({ stage: 'generating', intent: event.intent, evidence_count: event.evidence.length })
+      },
+      onToken: delta => {
+        generatedChars += delta.length
+        const now = Date.now()
+        if (now - lastProgressWrite < PROGRESS_WRITE_INTERVAL_MS) return
+        lastProgressWrite = now
+        void writeProgress({ generated_chars: generatedChars })
+      },
+      signal: abort.signal,
+    })
+
+    await updateOwnedTask(task.id, current => ({
+      ...current,
+      status: 'completed',
+      progress: { ...current.progress, stage: 'finished', generated_chars: response.result.response_text.length },
+      response,
+      finished_at: new Date().toISOString(),
+      lease_expires_at: null,
+    }))
+  } catch (error) {
+    await updateOwnedTask(task.id, current => ({
+      ...current,
+      status: 'failed',
+      progress: { ...current.progress, stage: 'finished' },
+      error: error instanceof Error ? error.message : 'Agent task failed',
+      finished_at: new Date().toISOString(),
+      lease_expires_at: null,
+    })).catch(() => null)
+  } finally {
+    clearInterval(heartbeat)
+  }
+}
+
+async function listTasks(): Promise<AgentTask[]> {
+  const entries = await fs.readdir(TASK_DIR).catch(() => [] as string[])
+  const tasks = await Promise.all(
+    entries
+      .filter(entry => entry.endsWith('.json'))
+      .map(entry => readJsonFile<AgentTask | null>(`${TASK_DIR}/${entry}`, null))
+  )
+  return tasks.filter((task): task is AgentTask => Boolean(task?.id))
+}
+
+// Waiting streamed runs go first so a busy queue cannot starve them.
+function tryAcquireRunSlot(): boolean {
+  if (runSlots.waiters.length > 0 || runSlots.active >= getAgentQueueConfig().concurrency) return false
+  runSlots.active += 1
+  return true
+}
+
+function releaseRunSlot(): void {
+  const next = runSlots.waiters.shift()
+  if (next) {
+    // The slot passes straight to the waiter, so the active count stays the same.
+    next()
+    return
+  }
+  runSlots.active -= 1
+  void processQueue()
+}
+
+/**
+ * Wait for one of this process's AGENT_QUEUE_CONCURRENCY run slots, which queued tasks and
+ * streamed runs share. Resolves to a release function (safe to call twice); rejects with the
+ * signal's reason if it aborts while waiting.
+ */
+export async function acquireAgentRunSlot(signal?: AbortSignal): Promise<() => void> {
+  signal?.throwIfAborted()
+
+  if (!tryAcquireRunSlot()) {
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = runSlots.waiters.indexOf(grant)
+        if (index >= 0) runSlots.waiters.splice(index, 1)
+        reject(signal?.reason)
+      }
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      runSlots.waiters.push(grant)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+    releaseRunSlot()
+  }
+}
+
+/**
+ * One scheduling pass: purge expired tasks, then start claimable tasks (oldest first) while this
+ * process has a free run slot.
+ */
+async function processQueue(): Promise<void> {
+  if (globalQueue.__researchTwinTaskSweeping) return
+  globalQueue.__researchTwinTaskSweeping = true
+
+  try {
+    const { ttlMs } = getAgentQueueConfig()
+    const now = Date.now()
+    const tasks = await listTasks()
+
+    for (const task of tasks) {
+      if (task.finished_at && now - Date.parse(task.finished_at) > ttlMs) {
+        await fs.unlink(taskPath(task.id)).catch(() => undefined)
+      }
+    }
+
+    const candidates = tasks
+      .filter(task => isClaimable(task, now) && !activeTasks.has(task.id))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+    for (const candidate of candidates) {
+      if (!tryAcquireRunSlot()) break
+
+      const claimed = await claimTask(candidate.id).catch(error => {
+        releaseRunSlot()
+        throw error
+      })
+      if (!claimed || claimed.status !== 'running') {
+        releaseRunSlot()
+        continue
+      }
+
+      const abort = new AbortController()
+      activeTasks.set(claimed.id, abort)
+      void runTask(claimed, abort).finally(() => {
+        activeTasks.delete(claimed.id)
+        releaseRunSlot()
+      })
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    console.warn(`[agentTaskQueue] Queue pass failed: ${reason}`)
+  } finally {
+    globalQueue.__researchTwinTaskSweeping = false
+  }
+}
+
+/**
+ * Start the polling loop for this process. Safe to call repeatedly; picks up tasks left by
+ * earlier processes on the first pass.
+ */
+export function startAgentTaskWorkers(): void {
+  if (globalQueue.__researchTwinTaskTick) return
+
+  const { pollMs } = getAgentQueueConfig()
+  globalQueue.__researchTwinTaskTick = setInterval(() => void processQueue(), pollMs)
+  void processQueue()
+}
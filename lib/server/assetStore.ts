@@ -1,6 +1,7 @@
 import { promises as fs } from 'fs'
-import { ensureDataDirs, readJsonFile, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
-import { looksLikeText, sanitizeFileName } from '@/lib/server/text'
+import path from 'path'
+import { ensureDataDirs, ensureDir, readJsonFile, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { looksLikeText, PAGE_BREAK, sanitizeFileName } from '@/lib/server/text'
 
 export type AssetRecord = {
   asset_id: string
@@ -9,6 +10,8 @@ export type AssetRecord = {
   file_path: string
   uploaded_at: string
   text_content: string
+  /** Owning tenant; absent for assets uploaded by admin callers. */
+  tenant_id?: string
 }
 
 type AssetManifest = {
@@ -38,14 +41,35 @@ function normalizeExtractedText(input: string): string {
     .replace(/\r\n/g, '\n')
     .replace(/[ \t]+\n/g, '\n')
     .replace(/\n{3,}/g, '\n\n')
-    .trim()
+    // Trim spaces and newlines only: a leading form feed marks the start of PDF page 1.
+    .replace(/^[ \t\n]+|[ \t\n]+$/g, '')
 }
 
-async function extractPdfText(buffer: Buffer, fileName: string): Promise<string> {
+type PdfTextItem = { str: string; transform: number[] }
+type PdfPageData = { getTextContent: (options?: Record<string, unknown>) => Promise<{ items: PdfTextItem[] }> }
+
+// Same line-joining as pdf-parse's default renderer, but each page is prefixed with a form feed
+// so chunking can recover page numbers.
+async function renderPdfPage(pageData: PdfPageData): Promise<string> {
+  const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+  let lastY: number | undefined
+  let text = ''
+  for (const item of textContent.items) {
+    const y = item.transform[5]
+    text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`
+    lastY = y
+  }
+  return `${PAGE_BREAK}${text}`
+}
+
+export async function extractPdfText(buffer: Buffer, fileName: string): Promise<string> {
   try {
     const pdfParseModule = await import('pdf-parse')
-    const pdfParseFn = (pdfParseModule.default || pdfParseModule) as (dataBuffer: Buffer) => Promise<{ text?: string }>
-    const parsed = await pdfParseFn(buffer)
+    const pdfParseFn = (pdfParseModule.default || pdfParseModule) as (
+      dataBuffer: Buffer,
+      options?: { pagerender?: (pageData: PdfPageData) => Promise<string> }
+    ) => Promise<{ text?: string }>
+    const parsed = await pdfParseFn(buffer, { pagerender: renderPdfPage })
     return normalizeExtractedText(parsed?.text || '')
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown PDF parsing error'
@@ -98,13 +122,15 @@ export async function extractTextFromFile(file: File): Promise<{ text: string; f
   }
 }
 
-export async function saveUploadedFiles(files: File[]): Promise<{
+export async function saveUploadedFiles(files: File[], tenantId?: string): Promise<{
   uploaded: AssetRecord[]
   failed: { file_name: string; error: string }[]
 }> {
   await ensureDataDirs()
 
   const manifest = await readManifest()
+  const assetDir = tenantId ? resolveDataPath('assets', sanitizeFileName(tenantId)) : resolveDataPath('assets')
+  if (tenantId) await ensureDir(assetDir)
   const uploaded: AssetRecord[] = []
   const failed: { file_name: string; error: string }[] = []
 
@@ -113,7 +139,7 @@ export async function saveUploadedFiles(files: File[]): Promise<{
       const assetId = crypto.randomUUID()
       const safeName = sanitizeFileName(file.name || 'file')
       const storedName = `${assetId}_${safeName}`
-      const absolutePath = resolveDataPath('assets', storedName)
+      const absolutePath = path.join(assetDir, storedName)
 
       const buffer = Buffer.from(await file.arrayBuffer())
       await fs.writeFile(absolutePath, buffer)
@@ -125,7 +151,9 @@ export async function saveUploadedFiles(files: File[]): Promise<{
         mime_type: file.type || 'application/octet-stream',
         file_path: absolutePath,
         uploaded_at: new Date().toISOString(),
-        text_content: text,
+        // Page markers only matter for RAG chunking; chat attachments keep plain paragraphs.
+        text_content: text.split(PAGE_BREAK).join('\n\n').trim(),
+        ...(tenantId ? { tenant_id: tenantId } : {}),
       }
 
       manifest.assets.push(record)
@@ -143,11 +171,17 @@ export async function saveUploadedFiles(files: File[]): Promise<{
   return { uploaded, failed }
 }
 
-export async function getAssetsByIds(assetIds: string[]): Promise<AssetRecord[]> {
+/**
+ * Look up assets by id. With a tenantId only that tenant's assets are returned, with null only
+ * assets uploaded without a tenant; without one (admin and internal callers) every asset is visible.
+ */
+export async function getAssetsByIds(assetIds: string[], tenantId?: string | null): Promise<AssetRecord[]> {
   if (!assetIds.length) return []
   const manifest = await readManifest()
   const wanted = new Set(assetIds)
-  return manifest.assets.filter(asset => wanted.has(asset.asset_id))
+  return manifest.assets.filter(asset => (
+    wanted.has(asset.asset_id) && (tenantId === undefined || (asset.tenant_id ?? null) === tenantId)
+  ))
 }
 
 export async function getAssetByFileName(fileName: string): Promise<AssetRecord | null> {
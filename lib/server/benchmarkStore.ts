@@ -0,0 +1,319 @@
+/**
+ * Persistent model benchmark history.
+ * Responsibilities:
+ * - Store each benchmark run (prompt, targets, parameters, retrieved chunk ids, per-model results) under data/benchmarks.
+ * - List, fetch and diff runs.
+ * - Flag quality and latency regressions against the previous run of the same prompt, rag_id and parameters.
+ */
+
+import { readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { sanitizeFileName } from '@/lib/server/text'
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+
+export type BenchmarkQuality = {
+  overall: number
+  relevance: number
+  grounding: number
+  citations: number
+  completeness: number
+}
+
+export type BenchmarkResult = {
+  provider: string
+  model: string
+  label: string
+  status: 'ok' | 'error'
+  latency_ms: number
+  quality: BenchmarkQuality
+  response_text: string
+  citations: Array<{ title: string; venue: string; year: string }>
+  suggested_followups: string[]
+  error?: string
+}
+
+export type BenchmarkRegression = {
+  label: string
+  kind: 'quality' | 'latency' | 'failure'
+  previous: number
+  current: number
+  delta: number
+}
+
+export type BenchmarkRun = {
+  id: string
+  created_at: string
+  message: string
+  prompt_hash: string
+  rag_id: string
+  models: string[]
+  parameters: {
+    top_k: number
+    temperature: number
+    top_p: number
+    rerank?: boolean | string
+  }
+  context_chunk_ids: string[]
+  summary: {
+    evaluated_models: number
+    successful_models: number
+    failed_models: number
+    best_quality_model: string | null
+    fastest_model: string | null
+    providers: string[]
+  }
+  results: BenchmarkResult[]
+  previous_run_id: string | null
+  regressions: BenchmarkRegression[]
+}
+
+export type BenchmarkRunSummary = Pick<
+  BenchmarkRun,
+  'id' | 'created_at' | 'message' | 'prompt_hash' | 'rag_id' | 'models' | 'previous_run_id'
+> & {
+  best_quality_model: string | null
+  regression_count: number
+}
+
+export type BenchmarkDiffEntry = {
+  label: string
+  base: Pick<BenchmarkResult, 'status' | 'latency_ms' | 'quality'> | null
+  target: Pick<BenchmarkResult, 'status' | 'latency_ms' | 'quality'> | null
+  quality_delta: number | null
+  latency_delta_ms: number | null
+  regressions: BenchmarkRegression[]
+}
+
+type BenchmarkIndex = {
+  runs: BenchmarkRunSummary[]
+}
+
+const BENCHMARK_INDEX_PATH = resolveDataPath('benchmarks', 'index.json')
+
+const globalBenchmarks = globalThis as typeof globalThis & {
+  __researchTwinBenchmarkIndexQueue?: Promise<unknown>
+}
+
+export function getBenchmarkHistoryConfig() {
+  const maxRuns = Number.parseInt(process.env.BENCHMARK_HISTORY_MAX_RUNS || '200', 10)
+  const qualityDrop = Number.parseFloat(process.env.BENCHMARK_QUALITY_REGRESSION || '0.05')
+  const latencyIncrease = Number.parseFloat(process.env.BENCHMARK_LATENCY_REGRESSION || '0.25')
+  const latencyFloorMs = Number.parseInt(process.env.BENCHMARK_LATENCY_REGRESSION_MIN_MS || '250', 10)
+
+  return {
+    maxRuns: Number.isFinite(maxRuns) && maxRuns > 0 ? maxRuns : 200,
+    qualityDrop: Number.isFinite(qualityDrop) && qualityDrop >= 0 ? qualityDrop : 0.05,
+    latencyIncrease: Number.isFinite(latencyIncrease) && latencyIncrease >= 0 ? latencyIncrease : 0.25,
+    latencyFloorMs: Number.isFinite(latencyFloorMs) && latencyFloorMs >= 0 ? latencyFloorMs : 250,
+  }
+}
+
+function runPath(runId: string): string {
+  return resolveDataPath('benchmarks', 'runs', `${sanitizeFileName(runId)}.json`)
+}
+
+export function getPromptHash(message: string): string {
+  const normalized = message.toLowerCase().replace(/\s+/g, ' ').trim()
+  return createHash('sha1').update(normalized).digest('hex')
+}
+
+async function readIndex(): Promise<BenchmarkIndex> {
+  const index = await readJsonFileIfExists<BenchmarkIndex>(BENCHMARK_INDEX_PATH, { runs: [] })
+  return Array.isArray(index.runs) ? index : { runs: [] }
+}
+
+/**
+ * Serialized read-modify-write of the run index; concurrent benchmark requests would otherwise drop entries.
+ */
+function mutateIndex<T>(mutate: (index: BenchmarkIndex) => T): Promise<T> {
+  const previous = globalBenchmarks.__researchTwinBenchmarkIndexQueue || Promise.resolve()
+  const next = previous.catch(() => undefined).then(async () => {
+    const index = await readIndex()
+    const result = mutate(index)
+    await writeJsonFileAtomic(BENCHMARK_INDEX_PATH, index)
+    return result
+  })
+  globalBenchmarks.__researchTwinBenchmarkIndexQueue = next
+  return next
+}
+
+function toSummary(run: BenchmarkRun): BenchmarkRunSummary {
+  return {
+    id: run.id,
+    created_at: run.created_at,
+    message: run.message,
+    prompt_hash: run.prompt_hash,
+    rag_id: run.rag_id,
+    models: run.models,
+    previous_run_id: run.previous_run_id,
+    best_quality_model: run.summary.best_quality_model,
+    regression_count: run.regressions.length,
+  }
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+/**
+ * Compare one model's result against its result in an earlier run.
+ * Latency only counts as a regression when it grows by the relative threshold and by at least the floor,
+ * so small absolute jitter on fast models is not flagged.
+ */
+function compareResults(previous: BenchmarkResult, current: BenchmarkResult): BenchmarkRegression[] {
+  const { qualityDrop, latencyIncrease, latencyFloorMs } = getBenchmarkHistoryConfig()
+  const regressions: BenchmarkRegression[] = []
+
+  if (previous.status === 'ok' && current.status === 'error') {
+    return [{ label: current.label, kind: 'failure', previous: 1, current: 0, delta: -1 }]
+  }
+  if (previous.status !== 'ok' || current.status !== 'ok') return regressions
+
+  const qualityDelta = current.quality.overall - previous.quality.overall
+  if (-qualityDelta > qualityDrop) {
+    regressions.push({
+      label: current.label,
+      kind: 'quality',
+      previous: previous.quality.overall,
+      current: current.quality.overall,
+      delta: round3(qualityDelta),
+    })
+  }
+
+  const latencyDelta = current.latency_ms - previous.latency_ms
+  if (latencyDelta > latencyFloorMs && latencyDelta > previous.latency_ms * latencyIncrease) {
+    regressions.push({
+      label: current.label,
+      kind: 'latency',
+      previous: previous.latency_ms,
+      current: current.latency_ms,
+      delta: latencyDelta,
+    })
+  }
+
+  return regressions
+}
+
+function resultKey(result: BenchmarkResult): string {
+  // Runs stored before provider routing only carry `model`.
+  return result.label || result.model
+}
+
+export function diffBenchmarkRuns(base: BenchmarkRun, target: BenchmarkRun): BenchmarkDiffEntry[] {
+  const baseResults = new Map(base.results.map(result => [resultKey(result), result]))
+  const targetResults = new Map(target.results.map(result => [resultKey(result), result]))
+  const labels = Array.from(new Set([...baseResults.keys(), ...targetResults.keys()]))
+
+  return labels.map(label => {
+    const before = baseResults.get(label)
+    const after = targetResults.get(label)
+    const bothOk = before?.status === 'ok' && after?.status === 'ok'
+
+    return {
+      label,
+      base: before ? { status: before.status, latency_ms: before.latency_ms, quality: before.quality } : null,
+      target: after ? { status: after.status, latency_ms: after.latency_ms, quality: after.quality } : null,
+      quality_delta: bothOk ? round3(after.quality.overall - before.quality.overall) : null,
+      latency_delta_ms: bothOk ? after.latency_ms - before.latency_ms : null,
+      regressions: before && after ? compareResults(before, after) : [],
+    }
+  })
+}
+
+export async function getBenchmarkRun(runId: string): Promise<BenchmarkRun | null> {
+  return readJsonFileIfExists<BenchmarkRun | null>(runPath(runId), null)
+}
+
+export async function listBenchmarkRuns(params?: {
+  promptHash?: string
+  ragId?: string
+  /** Restrict to these rag_ids (tenant scope). */
+  ragIds?: string[]
+  /** Leave out these rag_ids (tenant-owned corpora, for anonymous callers). */
+  excludeRagIds?: string[]
+  skip?: number
+  limit?: number
+}): Promise<{ runs: BenchmarkRunSummary[]; total: number }> {
+  const index = await readIndex()
+  let runs = index.runs
+  if (params?.promptHash) runs = runs.filter(run => run.prompt_hash === params.promptHash)
+  if (params?.ragId) runs = runs.filter(run => run.rag_id === params.ragId)
+  if (params?.ragIds) {
+    const allowed = new Set(params.ragIds)
+    runs = runs.filter(run => allowed.has(run.rag_id))
+  }
+  if (params?.excludeRagIds) {
+    const excluded = new Set(params.excludeRagIds)
+    runs = runs.filter(run => !excluded.has(run.rag_id))
+  }
+
+  const total = runs.length
+  const skip = params?.skip ?? 0
+  const limit = params?.limit ?? total
+  return { runs: runs.slice(skip, skip + limit), total }
+}
+
+function sameParameters(a: BenchmarkRun['parameters'], b: BenchmarkRun['parameters']): boolean {
+  return a.top_k === b.top_k
+    && a.temperature === b.temperature
+    && a.top_p === b.top_p
+    && (a.rerank ?? null) === (b.rerank ?? null)
+}
+
+/**
+ * Latest earlier run that is comparable: same prompt, same rag_id and same generation/retrieval
+ * parameters. Summaries do not carry parameters, so candidates are loaded newest first.
+ */
+async function findBaselineRun(
+  promptHash: string,
+  ragId: string,
+  parameters: BenchmarkRun['parameters']
+): Promise<BenchmarkRun | null> {
+  const { runs: candidates } = await listBenchmarkRuns({ promptHash, ragId })
+  for (const candidate of candidates) {
+    const previous = await getBenchmarkRun(candidate.id)
+    if (previous && sameParameters(previous.parameters, parameters)) return previous
+  }
+  return null
+}
+
+/**
+ * Persist a finished run, attaching regressions against the latest earlier run of the same prompt,
+ * rag_id and parameters.
+ */
+export async function saveBenchmarkRun(
+  run: Omit<BenchmarkRun, 'id' | 'prompt_hash' | 'previous_run_id' | 'regressions'>
+): Promise<BenchmarkRun> {
+  const promptHash = getPromptHash(run.message)
+  const previous = await findBaselineRun(promptHash, run.rag_id, run.parameters)
+
+  const regressions: BenchmarkRegression[] = []
+  if (previous) {
+    const previousResults = new Map(previous.results.map(result => [resultKey(result), result]))
+    for (const result of run.results) {
+      const before = previousResults.get(result.label)
+      if (before) regressions.push(...compareResults(before, result))
+    }
+  }
+
+  const saved: BenchmarkRun = {
+    ...run,
+    id: crypto.randomUUID(),
+    prompt_hash: promptHash,
+    previous_run_id: previous?.id || null,
+    regressions,
+  }
+
+  await writeJsonFileAtomic(runPath(saved.id), saved)
+
+  const { maxRuns } = getBenchmarkHistoryConfig()
+  const evicted = await mutateIndex(index => {
+    index.runs.unshift(toSummary(saved))
+    const dropped = index.runs.slice(maxRuns)
+    index.runs = index.runs.slice(0, maxRuns)
+    return dropped
+  })
+  await Promise.all(evicted.map(summary => fs.unlink(runPath(summary.id)).catch(() => undefined)))
+
+  return saved
+}
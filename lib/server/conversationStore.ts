@@ -0,0 +1,236 @@
+/**
+ * Per-session conversation memory.
+ * Responsibilities:
+ * - Persist user/twin turns per tenant, agent and session_id under data/conversations/<tenant_id>/<agent_id>
+ *   (`_shared` for admin and internal callers).
+ * - Serialize appends to one conversation so concurrent turns do not overwrite each other.
+ * - Track which documents and chunks each twin turn cited.
+ * - Compact older turns into a rolling summary when history gets long.
+ */
+
+import { readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { sanitizeFileName } from '@/lib/server/text'
+
+export type ConversationTurn = {
+  role: 'user' | 'twin'
+  content: string
+  timestamp: string
+  intent?: string
+  citedChunkIds?: string[]
+  citedDocumentNames?: string[]
+}
+
+export type Conversation = {
+  sessionId: string
+  agentId: string
+  tenantId?: string
+  userId: string
+  createdAt: string
+  updatedAt: string
+  summary: string
+  turns: ConversationTurn[]
+}
+
+/**
+ * Identifies one conversation. A session_id only names a conversation together with the tenant and
+ * agent it was started with; the same id under another tenant or agent is a different (empty)
+ * conversation.
+ */
+export type ConversationScope = {
+  sessionId: string
+  agentId: string
+  /** Undefined for admin and internal callers, which share one namespace. */
+  tenantId?: string
+}
+
+export type ConversationContext = {
+  summary: string
+  turns: ConversationTurn[]
+  citedDocumentNames: string[]
+}
+
+function getMemoryConfig() {
+  const maxTurns = Number.parseInt(process.env.CONVERSATION_MAX_TURNS || '8', 10)
+  const maxTurnChars = Number.parseInt(process.env.CONVERSATION_MAX_TURN_CHARS || '1200', 10)
+  const maxSummaryChars = Number.parseInt(process.env.CONVERSATION_MAX_SUMMARY_CHARS || '2400', 10)
+
+  return {
+    maxTurns: Number.isFinite(maxTurns) && maxTurns >= 2 ? maxTurns : 8,
+    maxTurnChars: Number.isFinite(maxTurnChars) && maxTurnChars > 0 ? maxTurnChars : 1200,
+    maxSummaryChars: Number.isFinite(maxSummaryChars) && maxSummaryChars > 0 ? maxSummaryChars : 2400,
+  }
+}
+
+const globalConversations = globalThis as typeof globalThis & {
+  __researchTwinConversationLocks?: Map<string, Promise<void>>
+}
+
+const conversationLocks = globalConversations.__researchTwinConversationLocks ?? new Map<string, Promise<void>>()
+if (!globalConversations.__researchTwinConversationLocks) {
+  globalConversations.__researchTwinConversationLocks = conversationLocks
+}
+
+// Tenant ids cannot start with "_", so the shared namespace never collides with a tenant's.
+const SHARED_CONVERSATION_SCOPE = '_shared'
+
+function conversationPath(scope: ConversationScope): string {
+  return resolveDataPath(
+    'conversations',
+    scope.tenantId ? sanitizeFileName(scope.tenantId) : SHARED_CONVERSATION_SCOPE,
+    sanitizeFileName(scope.agentId),
+    `${sanitizeFileName(scope.sessionId)}.json`
+  )
+}
+
+/**
+ * Conversations written before they were scoped live directly under data/conversations. They carry
+ * no tenant, so only unscoped (admin and internal) callers may pick them up.
+ */
+async function readLegacyConversation(scope: ConversationScope): Promise<Conversation | null> {
+  if (scope.tenantId) return null
+  return readConversationFile(resolveDataPath('conversations', `${sanitizeFileName(scope.sessionId)}.json`))
+}
+
+async function withConversationLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = conversationLocks.get(key) || Promise.resolve()
+  let release: () => void = () => {}
+  const current = new Promise<void>(resolve => {
+    release = resolve
+  })
+  const chained = previous.then(() => current)
+  conversationLocks.set(key, chained)
+
+  await previous
+  try {
+    return await task()
+  } finally {
+    release()
+    if (conversationLocks.get(key) === chained) conversationLocks.delete(key)
+  }
+}
+
+async function readConversationFile(filePath: string): Promise<Conversation | null> {
+  // New sessions have no file yet; that must not warn on every first turn.
+  return readJsonFileIfExists<Conversation | null>(filePath, null)
+}
+
+function truncateText(text: string, maxChars: number): string {
+  const trimmed = text.trim()
+  if (trimmed.length <= maxChars) return trimmed
+  return `${trimmed.slice(0, Math.max(0, maxChars - 3)).trim()}...`
+}
+
+function firstSentence(text: string): string {
+  const cleaned = text
+    .replace(/\[(TR\d+|P\d+|T\d+|W\d+|S\d+)\]/g, '')
+    .replace(/[#*`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  const match = cleaned.match(/^(.{20,280}?[.!?])(\s|$)/)
+  return match?.[1] || truncateText(cleaned, 280)
+}
+
+function summarizeTurns(turns: ConversationTurn[]): string[] {
+  const lines: string[] = []
+  for (let i = 0; i < turns.length; i++) {
+    const turn = turns[i]
+    if (turn.role !== 'user') continue
+    const answer = turns[i + 1]?.role === 'twin' ? turns[i + 1] : undefined
+    const sources = answer?.citedDocumentNames?.length
+      ? ` (sources: ${answer.citedDocumentNames.slice(0, 3).join(', ')})`
+      : ''
+    lines.push(`- Q: ${truncateText(turn.content, 200)}${answer ? ` A: ${firstSentence(answer.content)}` : ''}${sources}`)
+  }
+  return lines
+}
+
+function compactConversation(conversation: Conversation): Conversation {
+  const { maxTurns, maxSummaryChars } = getMemoryConfig()
+  if (conversation.turns.length <= maxTurns) return conversation
+
+  // Keep an even number of recent turns so kept history starts on a user question.
+  const keepCount = maxTurns - (maxTurns % 2)
+  const overflow = conversation.turns.slice(0, conversation.turns.length - keepCount)
+  const kept = conversation.turns.slice(conversation.turns.length - keepCount)
+
+  const summaryLines = [
+    ...conversation.summary.split('\n').filter(Boolean),
+    ...summarizeTurns(overflow),
+  ]
+
+  // Drop the oldest summary lines first once the summary budget is exhausted.
+  while (summaryLines.length > 1 && summaryLines.join('\n').length > maxSummaryChars) {
+    summaryLines.shift()
+  }
+
+  return {
+    ...conversation,
+    summary: summaryLines.join('\n'),
+    turns: kept,
+  }
+}
+
+/**
+ * Load a conversation for its tenant and agent. A stored conversation that belongs to another
+ * agent (only possible for unscoped legacy files) is treated as missing.
+ */
+export async function getConversation(scope: ConversationScope): Promise<Conversation | null> {
+  if (!scope.sessionId || !scope.agentId) return null
+  const conversation = await readConversationFile(conversationPath(scope)) ?? await readLegacyConversation(scope)
+  if (!conversation || conversation.agentId !== scope.agentId) return null
+  return conversation
+}
+
+export async function getConversationContext(scope: ConversationScope): Promise<ConversationContext> {
+  const conversation = await getConversation(scope)
+  if (!conversation) {
+    return { summary: '', turns: [], citedDocumentNames: [] }
+  }
+
+  const lastTwinTurn = [...conversation.turns].reverse().find(turn => turn.role === 'twin')
+
+  return {
+    summary: conversation.summary,
+    turns: conversation.turns,
+    citedDocumentNames: lastTwinTurn?.citedDocumentNames || [],
+  }
+}
+
+export async function appendConversationTurns(params: ConversationScope & {
+  userId: string
+  turns: ConversationTurn[]
+}): Promise<Conversation> {
+  const filePath = conversationPath(params)
+
+  return withConversationLock(filePath, async () => {
+    const { maxTurnChars } = getMemoryConfig()
+    const now = new Date().toISOString()
+    const existing = await readConversationFile(filePath) ?? await readLegacyConversation(params)
+    if (existing && existing.agentId !== params.agentId) {
+      throw new Error(`Session ${params.sessionId} belongs to another agent`)
+    }
+
+    const conversation: Conversation = existing || {
+      sessionId: params.sessionId,
+      agentId: params.agentId,
+      tenantId: params.tenantId,
+      userId: params.userId,
+      createdAt: now,
+      updatedAt: now,
+      summary: '',
+      turns: [],
+    }
+
+    conversation.turns.push(
+      ...params.turns.map(turn => ({
+        ...turn,
+        content: truncateText(turn.content, maxTurnChars),
+      }))
+    )
+    conversation.updatedAt = now
+
+    const compacted = compactConversation(conversation)
+    await writeJsonFileAtomic(filePath, compacted)
+    return compacted
+  })
+}
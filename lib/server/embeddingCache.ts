@@ -0,0 +1,192 @@
+/**
+ * Content-addressed embedding cache and batched embedding runner.
+ * Responsibilities:
+ * - Persist embeddings keyed by embedding model + chunk text hash, sharded by hash prefix.
+ * - Embed cache misses in batches with bounded parallelism and retry with backoff.
+ * - Report how many texts were served from cache, embedded, or left without a vector.
+ */
+
+import { readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { getEmbeddingModel, ollamaEmbedBatch } from '@/lib/server/ollama'
+import { sanitizeFileName } from '@/lib/server/text'
+
+export type EmbeddingRequest = {
+  text: string
+  textHash: string
+}
+
+export type EmbeddingRunStats = {
+  model: string
+  cached: number
+  embedded: number
+  failed: number
+}
+
+export type EmbeddingRunResult = {
+  embeddings: Array<number[] | null>
+  stats: EmbeddingRunStats
+}
+
+type EmbeddingShard = Record<string, number[]>
+
+const SHARD_PREFIX_LENGTH = 2
+
+const globalEmbeddingCache = globalThis as typeof globalThis & {
+  __researchTwinEmbeddingShards?: Map<string, EmbeddingShard>
+}
+
+const shardCache = globalEmbeddingCache.__researchTwinEmbeddingShards ?? new Map<string, EmbeddingShard>()
+if (!globalEmbeddingCache.__researchTwinEmbeddingShards) {
+  globalEmbeddingCache.__researchTwinEmbeddingShards = shardCache
+}
+
+export function getEmbeddingRunConfig() {
+  const batchSize = Number.parseInt(process.env.RAG_EMBED_BATCH_SIZE || '16', 10)
+  const concurrency = Number.parseInt(process.env.RAG_EMBED_CONCURRENCY || '2', 10)
+  const maxRetries = Number.parseInt(process.env.RAG_EMBED_MAX_RETRIES || '3', 10)
+  const retryBaseMs = Number.parseInt(process.env.RAG_EMBED_RETRY_BASE_MS || '500', 10)
+
+  return {
+    cacheEnabled: (process.env.RAG_EMBED_CACHE_ENABLED || 'true').trim().toLowerCase() !== 'false',
+    batchSize: Number.isFinite(batchSize) && batchSize > 0 ? batchSize : 16,
+    concurrency: Number.isFinite(concurrency) && concurrency > 0 ? concurrency : 2,
+    maxRetries: Number.isFinite(maxRetries) && maxRetries >= 0 ? maxRetries : 3,
+    retryBaseMs: Number.isFinite(retryBaseMs) && retryBaseMs >= 0 ? retryBaseMs : 500,
+  }
+}
+
+function shardKey(model: string, textHash: string): string {
+  return `${sanitizeFileName(model)}/${textHash.slice(0, SHARD_PREFIX_LENGTH)}`
+}
+
+function shardPath(key: string): string {
+  const [modelDir, prefix] = key.split('/')
+  return resolveDataPath('rag', 'embeddings', modelDir, `${prefix}.json`)
+}
+
+async function loadShard(key: string): Promise<EmbeddingShard> {
+  const cached = shardCache.get(key)
+  if (cached) return cached
+
+  const filePath = shardPath(key)
+  const raw = await readJsonFileIfExists<EmbeddingShard | null>(filePath, null)
+  const shard = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw : {}
+  shardCache.set(key, shard)
+  return shard
+}
+
+async function persistShards(keys: Iterable<string>): Promise<void> {
+  for (const key of keys) {
+    const shard = shardCache.get(key)
+    if (!shard) continue
+    try {
+      await writeJsonFileAtomic(shardPath(key), shard)
+    } catch (error) {
+      // Read-only runtimes keep the in-memory shard; the texts are re-embedded after a cold start.
+      const reason = error instanceof Error ? error.message : 'unknown error'
+      console.warn(`[embeddingCache] Could not persist shard ${key}: ${reason}`)
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+async function embedBatchWithRetry(texts: string[], model: string): Promise<number[][] | null> {
+  const { maxRetries, retryBaseMs } = getEmbeddingRunConfig()
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      return await ollamaEmbedBatch(texts, model)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown error'
+      if (attempt === maxRetries) {
+        console.warn(`[embeddingCache] Giving up on batch of ${texts.length} after ${attempt + 1} attempts: ${reason}`)
+        return null
+      }
+      // Exponential backoff with jitter so parallel workers do not retry in lockstep.
+      const delay = retryBaseMs * 2 ** attempt
+      await sleep(delay + Math.floor(Math.random() * retryBaseMs))
+    }
+  }
+
+  return null
+}
+
+/**
+ * Embed texts, reusing cached vectors by text hash.
+ * Results are index-aligned with `requests`; entries stay `null` only when every retry failed.
+ */
+export async function embedTexts(
+  requests: EmbeddingRequest[],
+  options: { model?: string } = {}
+): Promise<EmbeddingRunResult> {
+  const model = options.model || getEmbeddingModel()
+  const { cacheEnabled, batchSize, concurrency } = getEmbeddingRunConfig()
+  const embeddings: Array<number[] | null> = requests.map(() => null)
+  const stats: EmbeddingRunStats = { model, cached: 0, embedded: 0, failed: 0 }
+
+  // Identical chunks (repeated boilerplate, re-uploads) are embedded once and fanned back out.
+  const pending = new Map<string, { text: string; positions: number[] }>()
+  for (let index = 0; index < requests.length; index++) {
+    const { text, textHash } = requests[index]
+    if (!text.trim()) continue
+
+    if (cacheEnabled) {
+      const shard = await loadShard(shardKey(model, textHash))
+      const hit = shard[textHash]
+      if (Array.isArray(hit) && hit.length) {
+        embeddings[index] = hit
+        stats.cached += 1
+        continue
+      }
+    }
+
+    const entry = pending.get(textHash)
+    if (entry) {
+      entry.positions.push(index)
+    } else {
+      pending.set(textHash, { text: text.trim(), positions: [index] })
+    }
+  }
+
+  const misses = Array.from(pending.entries())
+  const batches: Array<typeof misses> = []
+  for (let offset = 0; offset < misses.length; offset += batchSize) {
+    batches.push(misses.slice(offset, offset + batchSize))
+  }
+
+  const dirtyShards = new Set<string>()
+  let nextBatch = 0
+  const worker = async () => {
+    while (nextBatch < batches.length) {
+      const batch = batches[nextBatch++]
+      const vectors = await embedBatchWithRetry(batch.map(([, entry]) => entry.text), model)
+
+      for (let item = 0; item < batch.length; item++) {
+        const [textHash, entry] = batch[item]
+        const vector = vectors?.[item]
+        if (!Array.isArray(vector) || !vector.length) {
+          stats.failed += entry.positions.length
+          continue
+        }
+
+        for (const position of entry.positions) embeddings[position] = vector
+        stats.embedded += entry.positions.length
+
+        if (cacheEnabled) {
+          const key = shardKey(model, textHash)
+          const shard = await loadShard(key)
+          shard[textHash] = vector
+          dirtyShards.add(key)
+        }
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker))
+  await persistShards(dirtyShards)
+
+  return { embeddings, stats }
+}
@@ -0,0 +1,503 @@
+/**
+ * Golden-question evaluation suite.
+ * Responsibilities:
+ * - Store eval datasets (questions with expected papers, key facts and forbidden claims) under data/eval.
+ * - Run a dataset through executeAgent with a given configuration and record per-question results.
+ * - Score retrieval recall@k, citation precision, fact coverage and hallucination flags; export runs as JSON/CSV.
+ */
+
+import { executeAgent, type AgentAnswerContext, type AgentExecutionInput } from '@/lib/server/agentRuntime'
+import { fileExists, readJsonFile, readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { tokenizeForIndex } from '@/lib/server/lexicalIndex'
+import type { RagChunk } from '@/lib/server/ragStore'
+import { sanitizeFileName } from '@/lib/server/text'
+import { promises as fs } from 'fs'
+
+export type EvalQuestion = {
+  id: string
+  question: string
+  /** Paper titles, file names or paper keys; matched loosely against retrieved and cited chunks. */
+  expected_papers?: string[]
+  /** Each entry is one fact; an array entry lists alternative phrasings of the same fact. */
+  expected_facts?: Array<string | string[]>
+  forbidden_claims?: string[]
+}
+
+export type EvalDataset = {
+  name: string
+  description?: string
+  updated_at: string
+  questions: EvalQuestion[]
+}
+
+export type EvalRunConfig = {
+  rag_id?: string
+  k: number
+  provider?: string
+  chat_model?: string
+  top_k?: number
+  temperature?: number
+  rerank?: boolean | string
+  retrieval_fusion?: AgentExecutionInput['retrievalFusion']
+}
+
+export type EvalQuestionResult = {
+  question_id: string
+  question: string
+  status: 'ok' | 'error'
+  latency_ms: number
+  intent: string
+  retrieved_documents: string[]
+  recall_at_k: number | null
+  cited_documents: string[]
+  citation_precision: number | null
+  fact_coverage: number | null
+  facts_missing: string[]
+  hallucination_flags: string[]
+  response_text: string
+  error?: string
+}
+
+export type EvalAggregate = {
+  questions: number
+  succeeded: number
+  failed: number
+  mean_recall_at_k: number | null
+  mean_citation_precision: number | null
+  mean_fact_coverage: number | null
+  hallucination_rate: number
+}
+
+export type EvalRun = {
+  id: string
+  dataset: string
+  status: 'running' | 'completed' | 'failed'
+  created_at: string
+  finished_at: string | null
+  config: EvalRunConfig
+  progress: { total: number; completed: number }
+  results: EvalQuestionResult[]
+  aggregate: EvalAggregate | null
+  error: string | null
+}
+
+export type EvalRunSummary = Omit<EvalRun, 'results'>
+
+export function getEvalConfig() {
+  const k = Number.parseInt(process.env.EVAL_RECALL_K || '5', 10)
+  const factThreshold = Number.parseFloat(process.env.EVAL_FACT_MATCH_THRESHOLD || '0.8')
+  const maxQuestions = Number.parseInt(process.env.EVAL_MAX_QUESTIONS || '200', 10)
+
+  return {
+    k: Number.isFinite(k) && k > 0 ? k : 5,
+    factThreshold: Number.isFinite(factThreshold) && factThreshold > 0 && factThreshold <= 1 ? factThreshold : 0.8,
+    maxQuestions: Number.isFinite(maxQuestions) && maxQuestions > 0 ? maxQuestions : 200,
+  }
+}
+
+function datasetPath(name: string): string {
+  return resolveDataPath('eval', 'datasets', `${sanitizeFileName(name)}.json`)
+}
+
+function runPath(runId: string): string {
+  return resolveDataPath('eval', 'runs', `${sanitizeFileName(runId)}.json`)
+}
+
+async function listJsonFiles(dirPath: string): Promise<string[]> {
+  const entries = await fs.readdir(dirPath).catch(() => [] as string[])
+  return entries.filter(entry => entry.endsWith('.json')).map(entry => `${dirPath}/${entry}`)
+}
+
+function normalizeStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value.map(item => String(item ?? '').trim()).filter(Boolean)
+}
+
+/**
+ * Validate a dataset payload. Throws with a message naming the first invalid question.
+ */
+export function normalizeEvalDataset(raw: unknown): EvalDataset {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('dataset must be an object with name and questions')
+  }
+  const value = raw as Record<string, unknown>
+  const name = String(value.name ?? '').trim()
+  if (!name) throw new Error('dataset.name is required')
+  if (!Array.isArray(value.questions) || !value.questions.length) {
+    throw new Error('dataset.questions must be a non-empty array')
+  }
+
+  const { maxQuestions } = getEvalConfig()
+  if (value.questions.length > maxQuestions) {
+    throw new Error(`dataset has ${value.questions.length} questions; the limit is ${maxQuestions}`)
+  }
+
+  const seenIds = new Set<string>()
+  const questions = value.questions.map((item, index): EvalQuestion => {
+    const entry = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>
+    const question = String(entry.question ?? '').trim()
+    if (!question) throw new Error(`questions[${index}].question is required`)
+
+    let id = String(entry.id ?? '').trim() || `q${index + 1}`
+    if (seenIds.has(id)) id = `${id}-${index + 1}`
+    seenIds.add(id)
+
+    const facts = Array.isArray(entry.expected_facts)
+      ? entry.expected_facts
+          .map(fact => (Array.isArray(fact) ? normalizeStringList(fact) : String(fact ?? '').trim()))
+          .filter(fact => (Array.isArray(fact) ? fact.length > 0 : Boolean(fact)))
+      : []
+
+    return {
+      id,
+      question,
+      expected_papers: normalizeStringList(entry.expected_papers),
+      expected_facts: facts,
+      forbidden_claims: normalizeStringList(entry.forbidden_claims),
+    }
+  })
+
+  return {
+    name,
+    description: typeof value.description === 'string' ? value.description.trim() : undefined,
+    updated_at: new Date().toISOString(),
+    questions,
+  }
+}
+
+export async function saveEvalDataset(raw: unknown): Promise<EvalDataset> {
+  const dataset = normalizeEvalDataset(raw)
+  await writeJsonFileAtomic(datasetPath(dataset.name), dataset)
+  return dataset
+}
+
+export async function getEvalDataset(name: string): Promise<EvalDataset | null> {
+  return readJsonFileIfExists<EvalDataset | null>(datasetPath(name), null)
+}
+
+export async function deleteEvalDataset(name: string): Promise<boolean> {
+  const filePath = datasetPath(name)
+  if (!(await fileExists(filePath))) return false
+  await fs.unlink(filePath)
+  return true
+}
+
+export async function listEvalDatasets(): Promise<Array<{ name: string; description?: string; questions: number; updated_at: string }>> {
+  const files = await listJsonFiles(resolveDataPath('eval', 'datasets'))
+  const datasets = await Promise.all(files.map(file => readJsonFile<EvalDataset | null>(file, null)))
+  return datasets
+    .filter((dataset): dataset is EvalDataset => Boolean(dataset?.name))
+    .map(dataset => ({
+      name: dataset.name,
+      description: dataset.description,
+      questions: dataset.questions.length,
+      updated_at: dataset.updated_at,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function getEvalRun(runId: string): Promise<EvalRun | null> {
+  return readJsonFileIfExists<EvalRun | null>(runPath(runId), null)
+}
+
+export async function listEvalRuns(params?: {
+  dataset?: string
+  /** Restrict to runs against these rag_ids (tenant scope). */
+  ragIds?: string[]
+  /** Leave out runs against these rag_ids (tenant-owned corpora, for anonymous callers). */
+  excludeRagIds?: string[]
+  limit?: number
+}): Promise<EvalRunSummary[]> {
+  const files = await listJsonFiles(resolveDataPath('eval', 'runs'))
+  const runs = await Promise.all(files.map(file => readJsonFile<EvalRun | null>(file, null)))
+
+  return runs
+    .filter((run): run is EvalRun => Boolean(run?.id))
+    .filter(run => !params?.dataset || run.dataset === params.dataset)
+    .filter(run => !params?.ragIds || params.ragIds.includes(run.config.rag_id))
+    .filter(run => !params?.excludeRagIds?.includes(run.config.rag_id))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .slice(0, params?.limit ?? 50)
+    .map(({ results: _results, ...summary }) => summary)
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+function normalizeForMatch(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function chunkLabels(chunk: RagChunk): string[] {
+  return [chunk.sourceName, chunk.documentTitle, chunk.paperKey]
+    .filter((value): value is string => Boolean(value))
+    .map(value => normalizeForMatch(value.replace(/\.(pdf|docx|txt)$/i, '')))
+    .filter(Boolean)
+}
+
+function matchesPaper(expected: string, chunk: RagChunk): boolean {
+  const target = normalizeForMatch(expected.replace(/\.(pdf|docx|txt)$/i, ''))
+  if (!target) return false
+  return chunkLabels(chunk).some(label => label === target || label.includes(target) || (label.length >= 8 && target.includes(label)))
+}
+
+/**
+ * A phrase is present when it appears verbatim (after normalization) or when at least
+ * `threshold` of its index terms occur in the answer.
+ */
+function containsPhrase(answer: string, answerTerms: Set<string>, phrase: string, threshold: number): boolean {
+  const normalizedPhrase = normalizeForMatch(phrase)
+  if (!normalizedPhrase) return false
+  if (normalizeForMatch(answer).includes(normalizedPhrase)) return true
+
+  const terms = Array.from(new Set(tokenizeForIndex(phrase)))
+  if (!terms.length) return false
+  const present = terms.filter(term => answerTerms.has(term)).length
+  return present / terms.length >= threshold
+}
+
+function uniqueDocuments(chunks: RagChunk[]): string[] {
+  return Array.from(new Set(chunks.map(chunk => chunk.documentTitle || chunk.sourceName)))
+}
+
+function scoreQuestion(params: {
+  question: EvalQuestion
+  answer: string
+  context: AgentAnswerContext | null
+  k: number
+}): Omit<EvalQuestionResult, 'question_id' | 'question' | 'status' | 'latency_ms' | 'response_text'> {
+  const { question, answer, context, k } = params
+  const { factThreshold } = getEvalConfig()
+  const chunks = context?.chunks || []
+  const topChunks = chunks.slice(0, k)
+  const citedIds = new Set(context?.citedChunkIds || [])
+  const citedChunks = chunks.filter(chunk => citedIds.has(chunk.id))
+  const expectedPapers = question.expected_papers || []
+
+  const recall = expectedPapers.length
+    ? expectedPapers.filter(paper => topChunks.some(chunk => matchesPaper(paper, chunk))).length / expectedPapers.length
+    : null
+
+  // Precision is per cited document, not per chunk, so citing two chunks of one paper counts once.
+  const citedDocuments = new Map<string, RagChunk>()
+  for (const chunk of citedChunks) {
+    const key = chunk.documentTitle || chunk.sourceName
+    if (!citedDocuments.has(key)) citedDocuments.set(key, chunk)
+  }
+  const citationPrecision = expectedPapers.length && citedDocuments.size
+    ? Array.from(citedDocuments.values())
+        .filter(chunk => expectedPapers.some(paper => matchesPaper(paper, chunk))).length / citedDocuments.size
+    : null
+
+  const answerTerms = new Set(tokenizeForIndex(answer))
+  const facts = question.expected_facts || []
+  const factsMissing: string[] = []
+  for (const fact of facts) {
+    const alternatives = Array.isArray(fact) ? fact : [fact]
+    if (!alternatives.some(phrase => containsPhrase(answer, answerTerms, phrase, factThreshold))) {
+      factsMissing.push(alternatives[0])
+    }
+  }
+
+  const hallucinationFlags: string[] = []
+  for (const claim of question.forbidden_claims || []) {
+    if (containsPhrase(answer, answerTerms, claim, factThreshold)) {
+      hallucinationFlags.push(`forbidden_claim: ${claim}`)
+    }
+  }
+  if (expectedPapers.length && answer.trim() && !citedDocuments.size) {
+    hallucinationFlags.push('no_evidence_cited')
+  }
+
+  return {
+    intent: context?.intent || 'unknown',
+    retrieved_documents: uniqueDocuments(topChunks),
+    recall_at_k: recall,
+    cited_documents: Array.from(citedDocuments.keys()),
+    citation_precision: citationPrecision,
+    fact_coverage: facts.length ? (facts.length - factsMissing.length) / facts.length : null,
+    facts_missing: factsMissing,
+    hallucination_flags: hallucinationFlags,
+  }
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+function mean(values: Array<number | null>): number | null {
+  const present = values.filter((value): value is number => typeof value === 'number')
+  if (!present.length) return null
+  return round3(present.reduce((sum, value) => sum + value, 0) / present.length)
+}
+
+function aggregateResults(results: EvalQuestionResult[]): EvalAggregate {
+  const ok = results.filter(result => result.status === 'ok')
+  return {
+    questions: results.length,
+    succeeded: ok.length,
+    failed: results.length - ok.length,
+    mean_recall_at_k: mean(ok.map(result => result.recall_at_k)),
+    mean_citation_precision: mean(ok.map(result => result.citation_precision)),
+    mean_fact_coverage: mean(ok.map(result => result.fact_coverage)),
+    hallucination_rate: ok.length
+      ? round3(ok.filter(result => result.hallucination_flags.length > 0).length / ok.length)
+      : 0,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+async function evaluateQuestion(question: EvalQuestion, config: EvalRunConfig, runId: string): Promise<EvalQuestionResult> {
+  const startedAt = Date.now()
+  let context: AgentAnswerContext | null = null
+
+  try {
+    const output = await executeAgent(
+      {
+        message: question.question,
+        agent_id: 'research-twin-eval',
+        user_id: 'eval-user',
+        session_id: `eval-${runId}-${question.id}`,
+        rag_id: config.rag_id,
+        provider: config.provider,
+        chatModel: config.chat_model,
+        temperature: config.temperature,
+        topK: config.top_k,
+        rerank: config.rerank,
+        retrievalFusion: config.retrieval_fusion,
+        useConversationMemory: false,
+      },
+      { onAnswerContext: answerContext => { context = answerContext } }
+    )
+
+    const answer = String(output.result.response_text || '')
+    return {
+      question_id: question.id,
+      question: question.question,
+      status: 'ok',
+      latency_ms: Date.now() - startedAt,
+      response_text: answer,
+      ...scoreQuestion({ question, answer, context, k: config.k }),
+    }
+  } catch (error) {
+    return {
+      question_id: question.id,
+      question: question.question,
+      status: 'error',
+      latency_ms: Date.now() - startedAt,
+      intent: 'unknown',
+      retrieved_documents: [],
+      recall_at_k: null,
+      cited_documents: [],
+      citation_precision: null,
+      fact_coverage: null,
+      facts_missing: [],
+      hallucination_flags: [],
+      response_text: '',
+      error: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+async function executeEvalRun(run: EvalRun, dataset: EvalDataset): Promise<void> {
+  try {
+    for (const question of dataset.questions) {
+      run.results.push(await evaluateQuestion(question, run.config, run.id))
+      run.progress.completed = run.results.length
+      await writeJsonFileAtomic(runPath(run.id), run)
+    }
+
+    run.status = 'completed'
+    run.aggregate = aggregateResults(run.results)
+  } catch (error) {
+    run.status = 'failed'
+    run.error = error instanceof Error ? error.message : 'Eval run failed'
+    run.aggregate = aggregateResults(run.results)
+  }
+
+  run.finished_at = new Date().toISOString()
+  await writeJsonFileAtomic(runPath(run.id), run).catch(error => {
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    console.warn(`[evalSuite] Could not persist eval run ${run.id}: ${reason}`)
+  })
+}
+
+/**
+ * Start an eval run in the background and return it immediately; poll getEvalRun for progress.
+ */
+export async function startEvalRun(params: {
+  dataset: string
+  config?: Partial<EvalRunConfig>
+}): Promise<EvalRun> {
+  const dataset = await getEvalDataset(params.dataset)
+  if (!dataset) {
+    throw new Error(`Eval dataset "${params.dataset}" not found`)
+  }
+
+  const k = params.config?.k && params.config.k > 0 ? Math.floor(params.config.k) : getEvalConfig().k
+  const run: EvalRun = {
+    id: crypto.randomUUID(),
+    dataset: dataset.name,
+    status: 'running',
+    created_at: new Date().toISOString(),
+    finished_at: null,
+    config: { ...params.config, k },
+    progress: { total: dataset.questions.length, completed: 0 },
+    results: [],
+    aggregate: null,
+    error: null,
+  }
+
+  await writeJsonFileAtomic(runPath(run.id), run)
+  void executeEvalRun(run, dataset)
+  return run
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function evalRunToCsv(run: EvalRun): string {
+  const header = [
+    'question_id',
+    'question',
+    'status',
+    'intent',
+    'latency_ms',
+    `recall_at_${run.config.k}`,
+    'citation_precision',
+    'fact_coverage',
+    'facts_missing',
+    'hallucination_flags',
+    'retrieved_documents',
+    'cited_documents',
+    'error',
+  ]
+
+  const rows = run.results.map(result => [
+    result.question_id,
+    result.question,
+    result.status,
+    result.intent,
+    result.latency_ms,
+    result.recall_at_k,
+    result.citation_precision,
+    result.fact_coverage,
+    result.facts_missing.join(' | '),
+    result.hallucination_flags.join(' | '),
+    result.retrieved_documents.join(' | '),
+    result.cited_documents.join(' | '),
+    result.error || '',
+  ])
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n')
+}
@@ -34,9 +34,29 @@ export async function ensureDataDirs(): Promise<void> {
     ensureDir(resolveDataPath('rag')),
     ensureDir(resolveDataPath('assets')),
     ensureDir(resolveDataPath('scheduler')),
+    ensureDir(resolveDataPath('conversations')),
+    ensureDir(resolveDataPath('benchmarks')),
+    ensureDir(resolveDataPath('eval')),
+    ensureDir(resolveDataPath('agents')),
+    ensureDir(resolveDataPath('tenants')),
+    ensureDir(resolveDataPath('tasks')),
+    ensureDir(resolveDataPath('cache', 'responses')),
   ])
 }
 
+export async function fileExists(filePath: string): Promise<boolean> {
+  return fs.stat(filePath).then(stat => stat.isFile()).catch(() => false)
+}
+
+/**
+ * readJsonFile for files that may legitimately be absent: a missing file returns the fallback without
+ * the unreadable-file warning.
+ */
+export async function readJsonFileIfExists<T>(filePath: string, fallback: T): Promise<T> {
+  if (!(await fileExists(filePath))) return fallback
+  return readJsonFile<T>(filePath, fallback)
+}
+
 export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
   try {
     const raw = await fs.readFile(filePath, 'utf8')
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict'
+import { afterEach, describe, it } from 'node:test'
+import { isModelAllowed, parseGenerationParams } from '@/lib/server/generationParams'
+
+describe('parseGenerationParams', () => {
+  it('accepts in-range values and leaves unset fields out', () => {
+    const { params, errors } = parseGenerationParams({
+      chat_model: ' llama3.1:8b ',
+      temperature: '0.2',
+      top_p: 1,
+      top_k: 5,
+      max_tokens: '',
+      intent: 'paper_compare',
+      source_roles: ['thesis', 'publication', 'thesis'],
+    })
+    assert.deepEqual(errors, [])
+    assert.deepEqual(params, {
+      chatModel: 'llama3.1:8b',
+      temperature: 0.2,
+      topP: 1,
+      topK: 5,
+      intent: 'paper_compare',
+      sourceRoles: ['thesis', 'publication'],
+    })
+  })
+
+  it('reports one error per invalid field', () => {
+    const { params, errors } = parseGenerationParams({
+      chat_model: 42,
+      temperature: 2.5,
+      top_p: 'high',
+      top_k: 2.5,
+      max_tokens: 0,
+      max_chunks_per_document: 1000,
+      intent: 'poetry',
+      source_roles: [],
+    })
+    assert.deepEqual(params, {})
+    assert.deepEqual(errors, [
+      'chat_model must be a non-empty string',
+      'temperature must be a number between 0 and 2',
+      'top_p must be a number between 0 and 1',
+      'top_k must be an integer between 1 and 12',
+      'max_tokens must be an integer between 1 and 4096',
+      'max_chunks_per_document must be an integer between 1 and 6',
+      'intent must be one of paper_specific, paper_compare, technical_cross_paper, research_overview, future_directions',
+      'source_roles must be a non-empty array of publication, thesis, web, other',
+    ])
+  })
+
+  it('takes its upper bounds from the environment', () => {
+    process.env.AGENT_MAX_TOP_K = '30'
+    try {
+      assert.deepEqual(parseGenerationParams({ top_k: 30 }).errors, [])
+      assert.equal(parseGenerationParams({ top_k: 31 }).errors.length, 1)
+    } finally {
+      delete process.env.AGENT_MAX_TOP_K
+    }
+  })
+})
+
+describe('isModelAllowed', () => {
+  afterEach(() => {
+    delete process.env.AGENT_ALLOWED_MODELS
+  })
+
+  it('allows allowlisted models and keeps Ollama tags whole', () => {
+    process.env.AGENT_ALLOWED_MODELS = 'llama3.1:8b, ollama:qwen2.5'
+    assert.ok(isModelAllowed('ollama', 'llama3.1:8b'))
+    assert.ok(isModelAllowed(undefined, 'qwen2.5'))
+    assert.ok(!isModelAllowed('ollama', 'llama3.1'))
+    assert.ok(!isModelAllowed('ollama', 'mistral'))
+  })
+})
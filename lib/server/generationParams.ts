@@ -0,0 +1,152 @@
+/**
+ * Per-request generation parameters for the public agent API.
+ * Responsibilities:
+ * - Validate chat_model, temperature, top_p, max_tokens and the retrieval options
+ *   (top_k, intent, source_roles, max_chunks_per_document) sent to /api/agent.
+ * - Restrict chat_model overrides to the AGENT_ALLOWED_MODELS allowlist.
+ * - Describe the accepted models and ranges for clients (the chat's advanced settings drawer).
+ */
+
+import { RAG_INTENTS, type AgentExecutionInput, type RagIntent } from '@/lib/server/agentRuntime'
+import { getChatModel } from '@/lib/server/ollama'
+import { getDefaultChatProviderName, hasProvider, listProviders } from '@/lib/server/llmProviders'
+import type { RagSourceRole } from '@/lib/server/ragStore'
+
+export type GenerationParams = Pick<
+  AgentExecutionInput,
+  'chatModel' | 'temperature' | 'topP' | 'topK' | 'maxTokens' | 'intent' | 'sourceRoles' | 'maxChunksPerDocument'
+>
+
+const SOURCE_ROLES: RagSourceRole[] = ['publication', 'thesis', 'web', 'other']
+
+export function getGenerationLimits() {
+  const maxTokens = Number.parseInt(process.env.AGENT_MAX_TOKENS_LIMIT || '4096', 10)
+  const maxTopK = Number.parseInt(process.env.AGENT_MAX_TOP_K || '12', 10)
+  const maxChunksPerDocument = Number.parseInt(process.env.AGENT_MAX_CHUNKS_PER_DOCUMENT || '6', 10)
+
+  return {
+    maxTokens: Number.isFinite(maxTokens) && maxTokens > 0 ? maxTokens : 4096,
+    maxTopK: Number.isFinite(maxTopK) && maxTopK > 0 ? maxTopK : 12,
+    maxChunksPerDocument: Number.isFinite(maxChunksPerDocument) && maxChunksPerDocument > 0 ? maxChunksPerDocument : 6,
+  }
+}
+
+/**
+ * Split a `provider:model` entry. As in the benchmark route, the prefix only counts when it names
+ * a registered provider, so Ollama tags such as `llama3.1:8b` stay whole.
+ */
+function parseModelEntry(entry: string): { provider: string; model: string } {
+  const separator = entry.indexOf(':')
+  const prefix = separator > 0 ? entry.slice(0, separator).trim().toLowerCase() : ''
+  if (prefix && hasProvider(prefix)) {
+    return { provider: prefix, model: entry.slice(separator + 1).trim() || getChatModel(prefix) }
+  }
+  return { provider: getDefaultChatProviderName(), model: entry }
+}
+
+/**
+ * Models a request may select, as `provider:model` labels. Each provider's configured chat model is
+ * always allowed; AGENT_ALLOWED_MODELS adds to it (unprefixed entries belong to CHAT_PROVIDER).
+ */
+export function getAllowedModels(): string[] {
+  const configured = (process.env.AGENT_ALLOWED_MODELS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(parseModelEntry)
+  const defaults = listProviders().map(provider => ({ provider, model: getChatModel(provider) }))
+
+  return Array.from(new Set([...defaults, ...configured].map(({ provider, model }) => `${provider}:${model}`)))
+}
+
+export function isModelAllowed(provider: string | undefined, model: string): boolean {
+  const label = `${provider || getDefaultChatProviderName()}:${model}`
+  return getAllowedModels().includes(label)
+}
+
+function isUnset(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+function parseNumber(
+  value: unknown,
+  field: string,
+  min: number,
+  max: number,
+  errors: string[],
+  integer = false
+): number | undefined {
+  if (isUnset(value)) return undefined
+  const parsed = typeof value === 'number' ? value : Number(String(value))
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max || (integer && !Number.isInteger(parsed))) {
+    errors.push(`${field} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}`)
+    return undefined
+  }
+  return parsed
+}
+
+/**
+ * Read the snake_case generation fields of an /api/agent body. Every invalid field adds one
+ * message to `errors`; the model allowlist is checked separately once the provider is known.
+ */
+export function parseGenerationParams(body: Record<string, unknown>): { params: GenerationParams; errors: string[] } {
+  const errors: string[] = []
+  const limits = getGenerationLimits()
+  const params: GenerationParams = {}
+
+  if (!isUnset(body.chat_model)) {
+    if (typeof body.chat_model === 'string' && body.chat_model.trim()) params.chatModel = body.chat_model.trim()
+    else errors.push('chat_model must be a non-empty string')
+  }
+
+  params.temperature = parseNumber(body.temperature, 'temperature', 0, 2, errors)
+  params.topP = parseNumber(body.top_p, 'top_p', 0, 1, errors)
+  params.topK = parseNumber(body.top_k, 'top_k', 1, limits.maxTopK, errors, true)
+  params.maxTokens = parseNumber(body.max_tokens, 'max_tokens', 1, limits.maxTokens, errors, true)
+  params.maxChunksPerDocument = parseNumber(
+    body.max_chunks_per_document,
+    'max_chunks_per_document',
+    1,
+    limits.maxChunksPerDocument,
+    errors,
+    true
+  )
+
+  if (!isUnset(body.intent)) {
+    if (RAG_INTENTS.includes(body.intent as RagIntent)) params.intent = body.intent as RagIntent
+    else errors.push(`intent must be one of ${RAG_INTENTS.join(', ')}`)
+  }
+
+  if (!isUnset(body.source_roles)) {
+    const roles = Array.isArray(body.source_roles) ? body.source_roles : null
+    if (roles && roles.length > 0 && roles.every(role => SOURCE_ROLES.includes(role as RagSourceRole))) {
+      params.sourceRoles = Array.from(new Set(roles as RagSourceRole[]))
+    } else {
+      errors.push(`source_roles must be a non-empty array of ${SOURCE_ROLES.join(', ')}`)
+    }
+  }
+
+  for (const key of Object.keys(params) as Array<keyof GenerationParams>) {
+    if (params[key] === undefined) delete params[key]
+  }
+  return { params, errors }
+}
+
+/** What the advanced settings drawer may offer. */
+export function describeGenerationOptions() {
+  const limits = getGenerationLimits()
+  return {
+    default_provider: getDefaultChatProviderName(),
+    providers: listProviders(),
+    allowed_models: getAllowedModels(),
+    intents: [...RAG_INTENTS],
+    source_roles: SOURCE_ROLES,
+    limits: {
+      temperature: { min: 0, max: 2 },
+      top_p: { min: 0, max: 1 },
+      top_k: { min: 1, max: limits.maxTopK },
+      max_tokens: { min: 1, max: limits.maxTokens },
+      max_chunks_per_document: { min: 1, max: limits.maxChunksPerDocument },
+    },
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * Post-generation grounding verification.
+ * Responsibilities:
+ * - Split an answer into claims (sentences) and resolve the evidence markers attached to each.
+ * - Score every cited claim against its cited chunks: embedding similarity, term overlap, and numeric-value matching.
+ * - Optionally ask an LLM judge, then flag or remove unsupported numeric claims and report the outcome.
+ */
+
+import parseLLMJson from '@/lib/jsonParser'
+import { tokenizeForIndex } from '@/lib/server/lexicalIndex'
+import { getEmbeddingModel, ollamaChat, ollamaEmbedBatch } from '@/lib/server/ollama'
+import { hasCompatibleEmbedding, type RagChunk } from '@/lib/server/ragStore'
+import { cosineSimilarity } from '@/lib/server/text'
+
+export type GroundingVerdict = 'supported' | 'weak' | 'unsupported' | 'uncited'
+
+export type GroundingClaim = {
+  text: string
+  markers: string[]
+  chunk_ids: string[]
+  numeric_values: string[]
+  similarity: number | null
+  term_overlap: number | null
+  numbers_supported: boolean | null
+  judge: 'supported' | 'unsupported' | null
+  verdict: GroundingVerdict
+  action: 'kept' | 'flagged' | 'removed'
+}
+
+export type GroundingReport = {
+  claims_checked: number
+  supported: number
+  weak: number
+  unsupported: number
+  uncited: number
+  flagged: number
+  removed: number
+  /** Share of cited claims judged supported; null when nothing was cited. */
+  score: number | null
+  judge: 'off' | 'used' | 'failed'
+  claims: GroundingClaim[]
+}
+
+export type GroundingEvidence = {
+  marker: string
+  chunk: RagChunk
+}
+
+type Segment = {
+  text: string
+  claim: GroundingClaim | null
+}
+
+const MARKER_PATTERN = /\[((?:TR|P|T|W|S)\d+)\]/g
+const UNVERIFIED_NOTE = ' (unverified: the cited source does not contain this figure)'
+
+export function getGroundingConfig() {
+  const minSimilarity = Number.parseFloat(process.env.GROUNDING_MIN_SIMILARITY || '0.55')
+  const minTermOverlap = Number.parseFloat(process.env.GROUNDING_MIN_TERM_OVERLAP || '0.35')
+  const maxClaims = Number.parseInt(process.env.GROUNDING_MAX_CLAIMS || '24', 10)
+  const numericAction = (process.env.GROUNDING_NUMERIC_ACTION || 'flag').trim().toLowerCase()
+
+  return {
+    enabled: (process.env.GROUNDING_VERIFY_ENABLED || 'true').trim().toLowerCase() !== 'false',
+    judgeEnabled: (process.env.GROUNDING_LLM_JUDGE || 'false').trim().toLowerCase() === 'true',
+    minSimilarity: Number.isFinite(minSimilarity) ? minSimilarity : 0.55,
+    minTermOverlap: Number.isFinite(minTermOverlap) ? minTermOverlap : 0.35,
+    maxClaims: Number.isFinite(maxClaims) && maxClaims > 0 ? maxClaims : 24,
+    numericAction: numericAction === 'remove' ? 'remove' as const : 'flag' as const,
+  }
+}
+
+function extractMarkers(text: string): string[] {
+  return Array.from(new Set(Array.from(text.matchAll(MARKER_PATTERN), match => match[1])))
+}
+
+function stripMarkers(text: string): string {
+  return text.replace(MARKER_PATTERN, '').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Numbers that carry a claim. Four-digit years are skipped because answers routinely
+ * mention publication years that the chunk text does not repeat.
+ */
+function extractNumericValues(text: string): string[] {
+  const values = Array.from(stripMarkers(text).matchAll(/\d+(?:[.,]\d+)?/g), match => match[0].replace(',', '.'))
+  return Array.from(new Set(values.filter(value => !/^(19|20)\d{2}$/.test(value))))
+}
+
+function chunkContainsNumber(chunkText: string, value: string): boolean {
+  const escaped = value.replace('.', '[.,]')
+  return new RegExp(`(^|[^\\d.])${escaped}(?![\\d]|[.,]\\d)`).test(chunkText)
+}
+
+function termOverlap(claim: string, chunkText: string): number {
+  const claimTerms = Array.from(new Set(tokenizeForIndex(stripMarkers(claim))))
+  if (!claimTerms.length) return 0
+  const chunkTerms = new Set(tokenizeForIndex(chunkText))
+  return claimTerms.filter(term => chunkTerms.has(term)).length / claimTerms.length
+}
+
+/**
+ * Split answer text into sentence segments, keeping headings, list bullets and blank lines as-is.
+ * A sentence made only of markers ("... accuracy. [P1]") is attached to the sentence before it.
+ */
+function splitIntoSegments(text: string): Segment[][] {
+  return text.split('\n').map(line => {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) return [{ text: line, claim: null }]
+
+    const bullet = line.match(/^(\s*(?:[-*]|\d+\.)\s+)/)?.[1] || ''
+    const body = line.slice(bullet.length)
+    const sentences = body.split(/(?<=[.!?])\s+/)
+    const merged: string[] = []
+    for (const sentence of sentences) {
+      if (merged.length && !stripMarkers(sentence)) {
+        merged[merged.length - 1] = `${merged[merged.length - 1]} ${sentence}`
+      } else {
+        merged.push(sentence)
+      }
+    }
+
+    return merged.map((sentence, index) => ({
+      text: `${index === 0 ? bullet : ''}${sentence}`,
+      claim: null,
+    }))
+  })
+}
+
+async function embedForGrounding(texts: string[], signal?: AbortSignal): Promise<Array<number[] | null>> {
+  if (!texts.length) return []
+  try {
+    const vectors = await ollamaEmbedBatch(texts, getEmbeddingModel(), signal)
+    return texts.map((_, index) => (Array.isArray(vectors[index]) && vectors[index].length ? vectors[index] : null))
+  } catch (error) {
+    if (signal?.aborted) throw error
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    console.warn(`[groundingVerifier] Embedding failed, falling back to term overlap: ${reason}`)
+    return texts.map(() => null)
+  }
+}
+
+function buildJudgePrompt(claims: Array<{ claim: GroundingClaim; passages: string[] }>): string {
+  const items = claims.map(({ claim, passages }, index) => [
+    `[${index + 1}] Claim: ${stripMarkers(claim.text)}`,
+    ...passages.map(passage => `Source: ${passage.slice(0, 900)}`),
+  ].join('\n'))
+
+  return [
+    'For each claim, decide whether its sources state or directly imply it, including any numbers.',
+    'Return only JSON: {"verdicts":[{"id":1,"supported":true}]} with one entry per claim.',
+    '',
+    items.join('\n\n'),
+  ].join('\n')
+}
+
+async function judgeClaims(
+  claims: Array<{ claim: GroundingClaim; passages: string[] }>,
+  signal?: AbortSignal
+): Promise<Map<number, boolean>> {
+  const completion = await ollamaChat(
+    [
+      { role: 'system', content: 'You are a strict fact-checking judge. Return only valid JSON.' },
+      { role: 'user', content: buildJudgePrompt(claims) },
+    ],
+    { temperature: 0, signal }
+  )
+
+  const parsed = parseLLMJson(completion)
+  const entries = Array.isArray(parsed?.verdicts) ? parsed.verdicts : Array.isArray(parsed) ? parsed : null
+  if (!entries) {
+    throw new Error('grounding judge returned no verdicts')
+  }
+
+  const verdicts = new Map<number, boolean>()
+  for (const entry of entries) {
+    const id = Number.parseInt(String(entry?.id ?? ''), 10)
+    if (Number.isFinite(id) && typeof entry?.supported === 'boolean') verdicts.set(id, entry.supported)
+  }
+  return verdicts
+}
+
+/**
+ * Verify every cited claim in `text` against the chunks behind its markers.
+ * Returns the (possibly edited) text and a report; unsupported numeric claims are flagged
+ * inline or removed depending on GROUNDING_NUMERIC_ACTION.
+ */
+export async function verifyGrounding(params: {
+  text: string
+  evidence: GroundingEvidence[]
+  signal?: AbortSignal
+}): Promise<{ text: string; report: GroundingReport }> {
+  const config = getGroundingConfig()
+  const chunksByMarker = new Map(params.evidence.map(item => [item.marker, item.chunk]))
+  const lines = splitIntoSegments(params.text)
+
+  const cited: Array<{ claim: GroundingClaim; chunks: RagChunk[] }> = []
+  let uncited = 0
+  for (const segment of lines.flat()) {
+    const body = stripMarkers(segment.text.replace(/^\s*(?:[-*]|\d+\.)\s+/, ''))
+    if (!body || segment.text.trim().startsWith('#') || !/[a-z]/i.test(body)) continue
+
+    const markers = extractMarkers(segment.text).filter(marker => chunksByMarker.has(marker))
+    const claim: GroundingClaim = {
+      text: segment.text.trim(),
+      markers,
+      chunk_ids: markers.map(marker => (chunksByMarker.get(marker) as RagChunk).id),
+      numeric_values: extractNumericValues(segment.text),
+      similarity: null,
+      term_overlap: null,
+      numbers_supported: null,
+      judge: null,
+      verdict: markers.length ? 'weak' : 'uncited',
+      action: 'kept',
+    }
+    segment.claim = claim
+
+    if (!markers.length) {
+      uncited += 1
+    } else if (cited.length < config.maxClaims) {
+      cited.push({ claim, chunks: markers.map(marker => chunksByMarker.get(marker) as RagChunk) })
+    }
+  }
+
+  // Claims and any cited chunk without a comparable stored vector are embedded in one batch.
+  const embeddingModel = getEmbeddingModel()
+  const chunkVectors = new Map<string, number[]>()
+  const pendingChunks = new Map<string, RagChunk>()
+  for (const { chunks } of cited) {
+    for (const chunk of chunks) {
+      if (hasCompatibleEmbedding(chunk, embeddingModel)) chunkVectors.set(chunk.id, chunk.embedding as number[])
+      else pendingChunks.set(chunk.id, chunk)
+    }
+  }
+  const pendingList = Array.from(pendingChunks.values())
+  const vectors = await embedForGrounding([
+    ...cited.map(({ claim }) => stripMarkers(claim.text)),
+    ...pendingList.map(chunk => chunk.text),
+  ], params.signal)
+  pendingList.forEach((chunk, index) => {
+    const vector = vectors[cited.length + index]
+    if (vector) chunkVectors.set(chunk.id, vector)
+  })
+
+  cited.forEach(({ claim, chunks }, index) => {
+    const claimVector = vectors[index]
+    const similarities = chunks
+      .map(chunk => chunkVectors.get(chunk.id))
+      .filter((vector): vector is number[] => Boolean(claimVector && vector && vector.length === claimVector.length))
+      .map(vector => cosineSimilarity(claimVector as number[], vector))
+    claim.similarity = similarities.length ? Math.round(Math.max(...similarities) * 1000) / 1000 : null
+    claim.term_overlap = Math.round(Math.max(...chunks.map(chunk => termOverlap(claim.text, chunk.text))) * 1000) / 1000
+
+    if (claim.numeric_values.length) {
+      claim.numbers_supported = claim.numeric_values.every(value => chunks.some(chunk => chunkContainsNumber(chunk.text, value)))
+    }
+
+    const similar = claim.similarity !== null && claim.similarity >= config.minSimilarity
+    const overlapping = claim.term_overlap >= config.minTermOverlap
+    if (claim.numbers_supported === false) claim.verdict = 'unsupported'
+    else claim.verdict = similar || overlapping ? 'supported' : 'weak'
+  })
+
+  let judge: GroundingReport['judge'] = 'off'
+  if (config.judgeEnabled && cited.length) {
+    try {
+      const verdicts = await judgeClaims(cited.map(({ claim, chunks }) => ({ claim, passages: chunks.map(chunk => chunk.text) })), params.signal)
+      cited.forEach(({ claim }, index) => {
+        const supported = verdicts.get(index + 1)
+        if (supported === undefined) return
+        claim.judge = supported ? 'supported' : 'unsupported'
+        // The judge can rescue a paraphrase but never a figure the sources do not contain.
+        if (claim.numbers_supported !== false) claim.verdict = supported ? 'supported' : 'unsupported'
+      })
+      judge = 'used'
+    } catch (error) {
+      if (params.signal?.aborted) throw error
+      const reason = error instanceof Error ? error.message : 'unknown error'
+      console.warn(`[groundingVerifier] LLM judge failed: ${reason}`)
+      judge = 'failed'
+    }
+  }
+
+  const outputLines = lines.map(segments => {
+    const kept: string[] = []
+    for (const segment of segments) {
+      const claim = segment.claim
+      if (!claim || claim.verdict !== 'unsupported' || claim.numbers_supported !== false) {
+        kept.push(segment.text)
+        continue
+      }
+      if (config.numericAction === 'remove') {
+        claim.action = 'removed'
+        continue
+      }
+      claim.action = 'flagged'
+      kept.push(segment.text.replace(/([.!?]?)(\s*(?:\[(?:TR|P|T|W|S)\d+\]\s*)*)$/, `${UNVERIFIED_NOTE}$1$2`))
+    }
+    return kept.join(' ')
+  })
+
+  const claims = lines.flat().map(segment => segment.claim).filter((claim): claim is GroundingClaim => Boolean(claim))
+  const checked = cited.map(({ claim }) => claim)
+  const supported = checked.filter(claim => claim.verdict === 'supported').length
+
+  return {
+    text: outputLines.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    report: {
+      claims_checked: checked.length,
+      supported,
+      weak: checked.filter(claim => claim.verdict === 'weak').length,
+      unsupported: checked.filter(claim => claim.verdict === 'unsupported').length,
+      uncited,
+      flagged: claims.filter(claim => claim.action === 'flagged').length,
+      removed: claims.filter(claim => claim.action === 'removed').length,
+      score: checked.length ? Math.round((supported / checked.length) * 1000) / 1000 : null,
+      judge,
+      claims,
+    },
+  }
+}
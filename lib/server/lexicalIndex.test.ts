@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { buildLexicalIndex, scoreBm25, tokenizeForIndex, type LexicalIndex } from '@/lib/server/lexicalIndex'
+
+const CHUNKS = [
+  { id: 'c1', text: 'SANTA reports robustness on CIFAR-10-C with a new constructor for prompts.' },
+  { id: 'c2', text: 'ROSITA studies retrieval augmented generation over tables.' },
+  { id: 'c3', text: 'Structured data alignment: SANTA pretrains on code and product descriptions.' },
+]
+
+// Persisted indexes are plain JSON objects again, with Object.prototype behind them.
+function roundTrip(index: LexicalIndex): LexicalIndex {
+  return JSON.parse(JSON.stringify(index)) as LexicalIndex
+}
+
+describe('tokenizeForIndex', () => {
+  it('keeps compound identifiers whole and split', () => {
+    const terms = tokenizeForIndex('Results on CIFAR-10-C')
+    for (const term of ['cifar-10-c', 'cifar10c', 'cifar', '10', 'c', 'results']) {
+      assert.ok(terms.includes(term), term)
+    }
+    assert.ok(!terms.includes('on'))
+  })
+})
+
+describe('scoreBm25', () => {
+  it('ranks chunks by term matches and respects the candidate subset', () => {
+    const index = buildLexicalIndex('test', CHUNKS)
+    const scores = scoreBm25(index, 'SANTA CIFAR-10-C')
+    const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1]).map(([id]) => id)
+    assert.deepEqual(ranked, ['c1', 'c3'])
+
+    const subset = scoreBm25(index, 'SANTA CIFAR-10-C', new Set(['c3']))
+    assert.deepEqual(Array.from(subset.keys()), ['c3'])
+  })
+
+  it('indexes and queries prototype-named terms', () => {
+    const chunks = [...CHUNKS, { id: 'c4', text: 'toString valueOf hasOwnProperty __proto__ constructor' }]
+    const index = buildLexicalIndex('test', chunks)
+    assert.equal(index.documentFrequency.constructor, 2)
+
+    for (const candidate of [index, roundTrip(index)]) {
+      const scores = scoreBm25(candidate, 'constructor')
+      assert.deepEqual(Array.from(scores.keys()).sort(), ['c1', 'c4'])
+      assert.ok(Array.from(scores.values()).every(score => Number.isFinite(score) && score > 0))
+      assert.deepEqual(Array.from(scoreBm25(candidate, 'toString __proto__ valueOf').keys()), ['c4'])
+    }
+  })
+
+  it('ignores prototype-named terms that no chunk contains', () => {
+    const index = roundTrip(buildLexicalIndex('test', CHUNKS))
+    assert.equal(scoreBm25(index, 'toString hasOwnProperty').size, 0)
+    assert.equal(scoreBm25(index, 'constructor').size, 1)
+  })
+})
@@ -0,0 +1,180 @@
+/**
+ * BM25 inverted index over RAG chunks.
+ * Responsibilities:
+ * - Tokenize chunk text so exact identifiers ("CIFAR-10-C", "mIoU") stay searchable.
+ * - Build and persist one index per rag_id at ingest time.
+ * - Score queries with BM25 against an optional candidate subset.
+ */
+
+import { readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { sanitizeFileName } from '@/lib/server/text'
+
+export type LexicalIndex = {
+  ragId: string
+  builtAt: string
+  chunkCount: number
+  avgChunkLength: number
+  documentFrequency: Record<string, number>
+  chunkLengths: Record<string, number>
+  postings: Record<string, Array<[string, number]>>
+}
+
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'how', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'what', 'which', 'with', 'your',
+])
+
+const globalLexicalIndex = globalThis as typeof globalThis & {
+  __researchTwinLexicalIndexes?: Map<string, LexicalIndex>
+}
+
+const indexCache = globalLexicalIndex.__researchTwinLexicalIndexes ?? new Map<string, LexicalIndex>()
+if (!globalLexicalIndex.__researchTwinLexicalIndexes) {
+  globalLexicalIndex.__researchTwinLexicalIndexes = indexCache
+}
+
+function lexicalIndexPath(ragId: string): string {
+  return resolveDataPath('rag', 'index', `${sanitizeFileName(ragId)}.bm25.json`)
+}
+
+/**
+ * Lowercased terms with compound identifiers kept whole.
+ * "CIFAR-10-C" yields "cifar-10-c", "cifar10c", "cifar", "10" and "c" so both exact and partial mentions match.
+ */
+export function tokenizeForIndex(text: string): string[] {
+  const matches = text.toLowerCase().match(/[a-z0-9]+(?:[-_.][a-z0-9]+)*/g) || []
+  const terms: string[] = []
+
+  for (const match of matches) {
+    const parts = match.split(/[-_.]/).filter(Boolean)
+    if (parts.length > 1) {
+      terms.push(match, parts.join(''))
+      for (const part of parts) {
+        if (!STOPWORDS.has(part)) terms.push(part)
+      }
+      continue
+    }
+    if (!STOPWORDS.has(match)) terms.push(match)
+  }
+
+  return terms
+}
+
+/**
+ * Index records are keyed by raw terms and chunk ids, so "constructor" or "__proto__" must not reach
+ * Object.prototype: built records have no prototype, and lookups (also on indexes read back from
+ * JSON) only see own keys.
+ */
+function createRecord<T>(): Record<string, T> {
+  return Object.create(null) as Record<string, T>
+}
+
+function ownValue<T>(record: Record<string, T>, key: string): T | undefined {
+  return Object.hasOwn(record, key) ? record[key] : undefined
+}
+
+export function buildLexicalIndex(ragId: string, chunks: Array<{ id: string; text: string }>): LexicalIndex {
+  const documentFrequency = createRecord<number>()
+  const chunkLengths = createRecord<number>()
+  const postings = createRecord<Array<[string, number]>>()
+  let totalLength = 0
+
+  for (const chunk of chunks) {
+    const terms = tokenizeForIndex(chunk.text)
+    chunkLengths[chunk.id] = terms.length
+    totalLength += terms.length
+
+    const termFrequency = new Map<string, number>()
+    for (const term of terms) {
+      termFrequency.set(term, (termFrequency.get(term) || 0) + 1)
+    }
+
+    for (const [term, tf] of termFrequency) {
+      documentFrequency[term] = (documentFrequency[term] || 0) + 1
+      const list = postings[term]
+      if (list) {
+        list.push([chunk.id, tf])
+      } else {
+        postings[term] = [[chunk.id, tf]]
+      }
+    }
+  }
+
+  return {
+    ragId,
+    builtAt: new Date().toISOString(),
+    chunkCount: chunks.length,
+    avgChunkLength: chunks.length ? totalLength / chunks.length : 0,
+    documentFrequency,
+    chunkLengths,
+    postings,
+  }
+}
+
+async function readLexicalIndexFile(ragId: string): Promise<LexicalIndex | null> {
+  return readJsonFileIfExists<LexicalIndex | null>(lexicalIndexPath(ragId), null)
+}
+
+export async function writeLexicalIndex(index: LexicalIndex): Promise<void> {
+  indexCache.set(index.ragId, index)
+  try {
+    await writeJsonFileAtomic(lexicalIndexPath(index.ragId), index)
+  } catch (error) {
+    // Read-only runtimes keep the in-memory index; it is rebuilt on the next cold start.
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    console.warn(`[lexicalIndex] Could not persist index for ${index.ragId}: ${reason}`)
+  }
+}
+
+export async function rebuildLexicalIndex(
+  ragId: string,
+  chunks: Array<{ id: string; text: string }>
+): Promise<LexicalIndex> {
+  const index = buildLexicalIndex(ragId, chunks)
+  await writeLexicalIndex(index)
+  return index
+}
+
+/**
+ * Return the persisted index for a rag_id, rebuilding it when missing or out of sync with the chunk set.
+ */
+export async function getLexicalIndex(
+  ragId: string,
+  chunks: Array<{ id: string; text: string }>
+): Promise<LexicalIndex> {
+  const cached = indexCache.get(ragId) || await readLexicalIndexFile(ragId)
+  if (cached && cached.chunkCount === chunks.length && chunks.every(chunk => Object.hasOwn(cached.chunkLengths, chunk.id))) {
+    indexCache.set(ragId, cached)
+    return cached
+  }
+
+  return rebuildLexicalIndex(ragId, chunks)
+}
+
+export function scoreBm25(index: LexicalIndex, query: string, candidateIds?: Set<string>): Map<string, number> {
+  const scores = new Map<string, number>()
+  const queryTerms = Array.from(new Set(tokenizeForIndex(query)))
+  if (!queryTerms.length || !index.chunkCount) return scores
+
+  const avgLength = index.avgChunkLength || 1
+  for (const term of queryTerms) {
+    const postings = ownValue(index.postings, term)
+    if (!postings?.length) continue
+
+    const df = ownValue(index.documentFrequency, term) || postings.length
+    const idf = Math.log(1 + (index.chunkCount - df + 0.5) / (df + 0.5))
+
+    for (const [chunkId, tf] of postings) {
+      if (candidateIds && !candidateIds.has(chunkId)) continue
+      const length = ownValue(index.chunkLengths, chunkId) || avgLength
+      const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (length / avgLength))
+      const score = idf * ((tf * (BM25_K1 + 1)) / norm)
+      scores.set(chunkId, (scores.get(chunkId) || 0) + score)
+    }
+  }
+
+  return scores
+}
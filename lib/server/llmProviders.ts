@@ -0,0 +1,607 @@
+/**
+ * Chat and embedding provider registry.
+ * Responsibilities:
+ * - Keep named providers (Ollama, NVIDIA, generic OpenAI-compatible servers) behind one chat/embedding interface.
+ * - Resolve the provider for a call from an explicit name or the CHAT_PROVIDER / EMBEDDING_PROVIDER defaults.
+ * - Pass a JSON schema through each provider's structured-output mode, falling back to plain chat when rejected.
+ * - Forward the caller's AbortSignal to every chat and embedding request.
+ * - Probe provider reachability for the health route.
+ */
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export type ChatJsonSchema = {
+  name: string
+  schema: Record<string, unknown>
+}
+
+export type ChatCompletionOptions = {
+  provider?: string
+  model?: string
+  temperature?: number
+  top_p?: number
+  /** Cap on generated tokens; the server default when omitted. */
+  max_tokens?: number
+  /** Constrain the reply to this JSON schema where the provider supports it; ignored otherwise. */
+  jsonSchema?: ChatJsonSchema
+  /** Aborts the request (and an in-flight stream) when signalled. */
+  signal?: AbortSignal
+}
+
+export type ChatTokenHandler = (delta: string) => void
+
+export type ProviderHealth = {
+  status: 'ok' | 'down' | 'misconfigured'
+  detail?: string
+}
+
+export type LlmProvider = {
+  name: string
+  getChatModel: () => string
+  getEmbeddingModel?: () => string
+  chat: (messages: ChatMessage[], options: ChatCompletionOptions) => Promise<string>
+  chatStream: (messages: ChatMessage[], options: ChatCompletionOptions, onToken: ChatTokenHandler) => Promise<string>
+  /** Whether chat requests forward `options.jsonSchema` (Ollama `format`, OpenAI `response_format`). */
+  supportsJsonSchema: () => boolean
+  /** Index-aligned vectors for `texts`; throws on failure so callers can retry. */
+  embed?: (texts: string[], model: string, signal?: AbortSignal) => Promise<number[][]>
+  checkHealth: () => Promise<ProviderHealth>
+}
+
+type OllamaChatResponse = {
+  message?: {
+    content?: string
+  }
+  done?: boolean
+}
+
+type OllamaEmbeddingResponse = {
+  embedding?: number[]
+}
+
+type OllamaEmbedBatchResponse = {
+  embeddings?: number[][]
+}
+
+type OpenAIChatResponse = {
+  choices?: Array<{
+    message?: {
+      content?: string | Array<{ type?: string; text?: string }>
+    }
+  }>
+}
+
+type OpenAIChatStreamChunk = {
+  choices?: Array<{
+    delta?: {
+      content?: string | null
+    }
+  }>
+}
+
+type OpenAIEmbeddingResponse = {
+  data?: Array<{
+    index?: number
+    embedding?: number[]
+  }>
+}
+
+const HEALTH_TIMEOUT_MS = 3000
+
+const providers = new Map<string, LlmProvider>()
+
+const globalProviders = globalThis as typeof globalThis & {
+  __researchTwinJsonSchemaRejected?: Set<string>
+}
+
+// provider:model pairs whose server rejected a schema-constrained request; later calls skip the schema.
+const jsonSchemaRejected = globalProviders.__researchTwinJsonSchemaRejected ?? new Set<string>()
+if (!globalProviders.__researchTwinJsonSchemaRejected) {
+  globalProviders.__researchTwinJsonSchemaRejected = jsonSchemaRejected
+}
+
+export function registerProvider(provider: LlmProvider): void {
+  providers.set(provider.name.trim().toLowerCase(), provider)
+}
+
+export function listProviders(): string[] {
+  return Array.from(providers.keys())
+}
+
+export function hasProvider(name: string): boolean {
+  return providers.has(name.trim().toLowerCase())
+}
+
+export function getDefaultChatProviderName(): string {
+  const configured = (process.env.CHAT_PROVIDER || 'ollama').trim().toLowerCase()
+  return providers.has(configured) ? configured : 'ollama'
+}
+
+export function getDefaultEmbeddingProviderName(): string {
+  const configured = (process.env.EMBEDDING_PROVIDER || 'ollama').trim().toLowerCase()
+  return providers.get(configured)?.embed ? configured : 'ollama'
+}
+
+/**
+ * Look up a provider by name, falling back to CHAT_PROVIDER when no name is given.
+ * An explicit unknown name is an error rather than a silent fallback.
+ */
+export function getProvider(name?: string): LlmProvider {
+  const key = name?.trim().toLowerCase() || getDefaultChatProviderName()
+  const provider = providers.get(key)
+  if (!provider) {
+    throw new Error(`Unknown chat provider "${key}". Available: ${listProviders().join(', ')}`)
+  }
+  return provider
+}
+
+export function getEmbeddingProvider(): LlmProvider {
+  return getProvider(getDefaultEmbeddingProviderName())
+}
+
+function parseOptionalNumber(value: unknown): number | undefined {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined
+  return value
+}
+
+function normalizeMessageContent(content: unknown): string {
+  if (typeof content === 'string') return content.trim()
+
+  if (Array.isArray(content)) {
+    const text = content
+      .map(part => (part && typeof part === 'object' ? (part as { text?: string }).text : ''))
+      .filter(Boolean)
+      .join('\n')
+      .trim()
+    if (text) return text
+  }
+
+  return ''
+}
+
+async function readResponseLines(response: Response, onLine: (line: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffered += decoder.decode(value, { stream: true })
+
+    let newlineIndex = buffered.indexOf('\n')
+    while (newlineIndex >= 0) {
+      const line = buffered.slice(0, newlineIndex).trim()
+      buffered = buffered.slice(newlineIndex + 1)
+      if (line) onLine(line)
+      newlineIndex = buffered.indexOf('\n')
+    }
+  }
+
+  buffered += decoder.decode()
+  if (buffered.trim()) onLine(buffered.trim())
+}
+
+/**
+ * Send a chat request, constrained by `options.jsonSchema` when the provider supports it.
+ * A 400/422 reply to a constrained request is retried once without the schema; when that retry
+ * succeeds the provider/model pair is remembered so later calls go straight to plain chat.
+ */
+async function sendChatRequest(
+  provider: LlmProvider,
+  model: string,
+  options: ChatCompletionOptions,
+  send: (jsonSchema?: ChatJsonSchema) => Promise<Response>
+): Promise<Response> {
+  const key = `${provider.name}:${model}`
+  const jsonSchema = options.jsonSchema && provider.supportsJsonSchema() && !jsonSchemaRejected.has(key)
+    ? options.jsonSchema
+    : undefined
+
+  const response = await send(jsonSchema)
+  if (!jsonSchema || (response.status !== 400 && response.status !== 422)) return response
+
+  const details = await response.text().catch(() => '')
+  const retry = await send(undefined)
+  if (retry.ok) {
+    jsonSchemaRejected.add(key)
+    console.warn(`[llmProviders] ${key} rejected structured output (${response.status}); using plain chat: ${details.slice(0, 200)}`)
+  }
+  return retry
+}
+
+async function probe(url: string, headers: Record<string, string> = {}): Promise<ProviderHealth> {
+  try {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS)
+    const res = await fetch(url, { signal: controller.signal, headers }).finally(() => clearTimeout(timeout))
+    return res.ok ? { status: 'ok' } : { status: 'down', detail: `HTTP ${res.status}` }
+  } catch (error) {
+    return { status: 'down', detail: error instanceof Error ? error.message : 'unreachable' }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Ollama
+// ---------------------------------------------------------------------------
+
+function getOllamaBaseUrl(): string {
+  return process.env.OLLAMA_BASE_URL || 'http://127.0.0.1:11434'
+}
+
+function buildOllamaChatBody(
+  messages: ChatMessage[],
+  options: ChatCompletionOptions,
+  model: string,
+  stream: boolean,
+  jsonSchema?: ChatJsonSchema
+) {
+  const temperature = parseOptionalNumber(options.temperature)
+  const topP = parseOptionalNumber(options.top_p)
+  const maxTokens = parseOptionalNumber(options.max_tokens)
+
+  return JSON.stringify({
+    model,
+    stream,
+    messages,
+    ...(jsonSchema ? { format: jsonSchema.schema } : {}),
+    options: {
+      temperature: temperature ?? Number.parseFloat(process.env.OLLAMA_TEMPERATURE || '0.4'),
+      ...(typeof topP === 'number' ? { top_p: topP } : {}),
+      ...(typeof maxTokens === 'number' ? { num_predict: maxTokens } : {}),
+    },
+  })
+}
+
+async function requestOllamaEmbedding(model: string, text: string, signal?: AbortSignal): Promise<number[]> {
+  const response = await fetch(`${getOllamaBaseUrl()}/api/embeddings`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ model, prompt: text }),
+  })
+
+  if (!response.ok) {
+    const details = await response.text()
+    throw new Error(`Ollama embedding failed (${response.status}): ${details}`)
+  }
+
+  const data = (await response.json()) as OllamaEmbeddingResponse
+  if (!Array.isArray(data.embedding) || !data.embedding.length) {
+    throw new Error('Ollama embedding returned no vector')
+  }
+
+  return data.embedding
+}
+
+const ollamaProvider: LlmProvider = {
+  name: 'ollama',
+  getChatModel: () => process.env.OLLAMA_CHAT_MODEL || 'llama3.1:8b',
+  getEmbeddingModel: () => process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text',
+  // Ollama 0.5+ accepts a JSON schema in `format`; older servers answer 400 and sendChatRequest falls back.
+  supportsJsonSchema: () => (process.env.OLLAMA_JSON_SCHEMA || 'true').trim().toLowerCase() !== 'false',
+
+  async chat(messages, options) {
+    const model = options.model || ollamaProvider.getChatModel()
+    const response = await sendChatRequest(ollamaProvider, model, options, jsonSchema => fetch(`${getOllamaBaseUrl()}/api/chat`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: buildOllamaChatBody(messages, options, model, false, jsonSchema),
+    }))
+
+    if (!response.ok) {
+      const details = await response.text()
+      throw new Error(`Ollama chat failed (${response.status}): ${details}`)
+    }
+
+    const data = (await response.json()) as OllamaChatResponse
+    const content = data.message?.content?.trim()
+    if (!content) {
+      throw new Error('Ollama chat returned empty content')
+    }
+
+    return content
+  },
+
+  async chatStream(messages, options, onToken) {
+    const model = options.model || ollamaProvider.getChatModel()
+    const response = await sendChatRequest(ollamaProvider, model, options, jsonSchema => fetch(`${getOllamaBaseUrl()}/api/chat`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: buildOllamaChatBody(messages, options, model, true, jsonSchema),
+    }))
+
+    if (!response.ok) {
+      const details = await response.text()
+      throw new Error(`Ollama chat failed (${response.status}): ${details}`)
+    }
+
+    let content = ''
+    await readResponseLines(response, line => {
+      try {
+        const chunk = JSON.parse(line) as OllamaChatResponse
+        const delta = chunk.message?.content
+        if (typeof delta === 'string' && delta) {
+          content += delta
+          onToken(delta)
+        }
+      } catch {
+        // Ollama emits one JSON object per line; skip anything that is not.
+      }
+    })
+
+    if (!content.trim()) {
+      throw new Error('Ollama chat returned empty content')
+    }
+    return content.trim()
+  },
+
+  // One `/api/embed` call per batch, falling back to per-text `/api/embeddings` on servers without it.
+  async embed(texts, model, signal) {
+    if (!texts.length) return []
+
+    const response = await fetch(`${getOllamaBaseUrl()}/api/embed`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model, input: texts }),
+    })
+
+    if (response.status === 404 || response.status === 405) {
+      const embeddings: number[][] = []
+      for (const text of texts) {
+        embeddings.push(await requestOllamaEmbedding(model, text, signal))
+      }
+      return embeddings
+    }
+
+    if (!response.ok) {
+      const details = await response.text()
+      throw new Error(`Ollama batch embedding failed (${response.status}): ${details}`)
+    }
+
+    const data = (await response.json()) as OllamaEmbedBatchResponse
+    if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+      throw new Error(`Ollama batch embedding returned ${data.embeddings?.length ?? 0} vectors for ${texts.length} inputs`)
+    }
+
+    return data.embeddings
+  },
+
+  checkHealth: () => probe(`${getOllamaBaseUrl()}/api/tags`),
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible (`/chat/completions`, `/embeddings`): NVIDIA and local servers
+// ---------------------------------------------------------------------------
+
+type OpenAICompatibleConfig = {
+  name: string
+  label: string
+  getBaseUrl: () => string
+  /** Full chat endpoint override; defaults to `<base>/chat/completions`. */
+  getChatUrl?: () => string | undefined
+  /** Returns the key, `undefined` for keyless servers, or throws when a required key is missing. */
+  getApiKey: () => string | undefined
+  getChatModel: () => string
+  getEmbeddingModel?: () => string
+  getDefaultTemperature: () => number
+  getDefaultTopP: () => number | undefined
+  /** Whether the server honours `response_format: {type: 'json_schema'}`. */
+  supportsJsonSchema: () => boolean
+}
+
+function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LlmProvider {
+  const chatUrl = () => {
+    const configured = config.getChatUrl?.()
+    if (configured) return configured
+    const base = config.getBaseUrl()
+    return base.endsWith('/chat/completions') ? base : `${base}/chat/completions`
+  }
+
+  const headers = (extra: Record<string, string> = {}): Record<string, string> => {
+    const apiKey = config.getApiKey()
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      ...extra,
+    }
+  }
+
+  const chatBody = (
+    messages: ChatMessage[],
+    options: ChatCompletionOptions,
+    model: string,
+    stream: boolean,
+    jsonSchema?: ChatJsonSchema
+  ) => {
+    const topP = parseOptionalNumber(options.top_p) ?? config.getDefaultTopP()
+    const maxTokens = parseOptionalNumber(options.max_tokens)
+    return JSON.stringify({
+      model,
+      messages,
+      temperature: parseOptionalNumber(options.temperature) ?? config.getDefaultTemperature(),
+      ...(typeof topP === 'number' ? { top_p: topP } : {}),
+      ...(typeof maxTokens === 'number' ? { max_tokens: maxTokens } : {}),
+      ...(jsonSchema
+        ? { response_format: { type: 'json_schema', json_schema: { name: jsonSchema.name, schema: jsonSchema.schema, strict: true } } }
+        : {}),
+      stream,
+    })
+  }
+
+  const provider: LlmProvider = {
+    name: config.name,
+    getChatModel: config.getChatModel,
+    getEmbeddingModel: config.getEmbeddingModel,
+    supportsJsonSchema: config.supportsJsonSchema,
+
+    async chat(messages, options) {
+      const model = options.model || config.getChatModel()
+      const response = await sendChatRequest(provider, model, options, jsonSchema => fetch(chatUrl(), {
+        method: 'POST',
+        signal: options.signal,
+        headers: headers(),
+        body: chatBody(messages, options, model, false, jsonSchema),
+      }))
+
+      if (!response.ok) {
+        const details = await response.text()
+        throw new Error(`${config.label} chat failed (${response.status}): ${details}`)
+      }
+
+      const data = (await response.json()) as OpenAIChatResponse
+      const content = normalizeMessageContent(data.choices?.[0]?.message?.content)
+      if (!content) {
+        throw new Error(`${config.label} chat returned empty content`)
+      }
+      return content
+    },
+
+    async chatStream(messages, options, onToken) {
+      const model = options.model || config.getChatModel()
+      const response = await sendChatRequest(provider, model, options, jsonSchema => fetch(chatUrl(), {
+        method: 'POST',
+        signal: options.signal,
+        headers: headers({ 'Accept': 'text/event-stream' }),
+        body: chatBody(messages, options, model, true, jsonSchema),
+      }))
+
+      if (!response.ok) {
+        const details = await response.text()
+        throw new Error(`${config.label} chat failed (${response.status}): ${details}`)
+      }
+
+      let content = ''
+      await readResponseLines(response, line => {
+        if (!line.startsWith('data:')) return
+        const payload = line.slice(5).trim()
+        if (!payload || payload === '[DONE]') return
+        try {
+          const chunk = JSON.parse(payload) as OpenAIChatStreamChunk
+          const delta = chunk.choices?.[0]?.delta?.content
+          if (typeof delta === 'string' && delta) {
+            content += delta
+            onToken(delta)
+          }
+        } catch {
+          // Ignore keep-alive or malformed frames; the final content check below catches empty streams.
+        }
+      })
+
+      if (!content.trim()) {
+        throw new Error(`${config.label} chat returned empty content`)
+      }
+      return content.trim()
+    },
+
+    async checkHealth() {
+      let apiKey: string | undefined
+      try {
+        apiKey = config.getApiKey()
+      } catch (error) {
+        return { status: 'misconfigured', detail: error instanceof Error ? error.message : 'missing API key' }
+      }
+
+      const base = config.getBaseUrl()
+      const modelsUrl = base.endsWith('/models') ? base : `${base}/models`
+      return probe(modelsUrl, apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+    },
+  }
+
+  if (config.getEmbeddingModel) {
+    provider.embed = async (texts, model, signal) => {
+      if (!texts.length) return []
+
+      const response = await fetch(`${config.getBaseUrl()}/embeddings`, {
+        method: 'POST',
+        signal,
+        headers: headers(),
+        body: JSON.stringify({ model, input: texts }),
+      })
+
+      if (!response.ok) {
+        const details = await response.text()
+        throw new Error(`${config.label} embedding failed (${response.status}): ${details}`)
+      }
+
+      const data = (await response.json()) as OpenAIEmbeddingResponse
+      const items = Array.isArray(data.data) ? data.data : []
+      if (items.length !== texts.length) {
+        throw new Error(`${config.label} embedding returned ${items.length} vectors for ${texts.length} inputs`)
+      }
+
+      // The spec allows any order; `index` ties each vector back to its input.
+      return [...items]
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map(item => {
+          if (!Array.isArray(item.embedding) || !item.embedding.length) {
+            throw new Error(`${config.label} embedding returned an empty vector`)
+          }
+          return item.embedding
+        })
+    }
+  }
+
+  return provider
+}
+
+const nvidiaProvider = createOpenAICompatibleProvider({
+  name: 'nvidia',
+  label: 'NVIDIA',
+  getBaseUrl: () => (
+    process.env.NVIDIA_API_BASE_URL
+    || process.env.NVIDIA_NIM_BASE_URL
+    || 'https://integrate.api.nvidia.com/v1'
+  ).replace(/\/+$/, ''),
+  getChatUrl: () => process.env.NVIDIA_CHAT_URL?.trim(),
+  getApiKey: () => {
+    const key = process.env.NVIDIA_API_KEY || process.env.NGC_API_KEY
+    if (!key) {
+      throw new Error('NVIDIA API key missing. Set NVIDIA_API_KEY (or NGC_API_KEY).')
+    }
+    return key
+  },
+  getChatModel: () => process.env.NVIDIA_CHAT_MODEL || 'nvidia/nemotron-nano-12b-v2-vl',
+  getDefaultTemperature: () => Number.parseFloat(process.env.NVIDIA_TEMPERATURE || process.env.OLLAMA_TEMPERATURE || '0.4'),
+  getDefaultTopP: () => Number.parseFloat(process.env.NVIDIA_TOP_P || '0.95'),
+  // Only some hosted NIM models accept `response_format`; opt in per deployment.
+  supportsJsonSchema: () => (process.env.NVIDIA_JSON_SCHEMA || 'false').trim().toLowerCase() === 'true',
+})
+
+// llama.cpp server, vLLM, LM Studio and similar servers speaking the OpenAI REST shape.
+const openAICompatibleProvider = createOpenAICompatibleProvider({
+  name: 'openai',
+  label: 'OpenAI-compatible',
+  getBaseUrl: () => (process.env.OPENAI_COMPAT_BASE_URL || 'http://127.0.0.1:8080/v1').replace(/\/+$/, ''),
+  getApiKey: () => process.env.OPENAI_COMPAT_API_KEY || undefined,
+  getChatModel: () => process.env.OPENAI_COMPAT_CHAT_MODEL || 'local-model',
+  getEmbeddingModel: () => process.env.OPENAI_COMPAT_EMBEDDING_MODEL || process.env.OPENAI_COMPAT_CHAT_MODEL || 'local-model',
+  getDefaultTemperature: () => Number.parseFloat(process.env.OPENAI_COMPAT_TEMPERATURE || process.env.OLLAMA_TEMPERATURE || '0.4'),
+  getDefaultTopP: () => {
+    const topP = Number.parseFloat(process.env.OPENAI_COMPAT_TOP_P || '')
+    return Number.isFinite(topP) ? topP : undefined
+  },
+  supportsJsonSchema: () => (process.env.OPENAI_COMPAT_JSON_SCHEMA || 'true').trim().toLowerCase() !== 'false',
+})
+
+registerProvider(ollamaProvider)
+registerProvider(nvidiaProvider)
+registerProvider(openAICompatibleProvider)
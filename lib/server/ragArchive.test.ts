@@ -0,0 +1,198 @@
+import assert from 'node:assert/strict'
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { after, before, describe, it } from 'node:test'
+
+type RagArchiveModule = typeof import('@/lib/server/ragArchive')
+
+let ragArchive: RagArchiveModule
+let dataDir: string
+
+const CONFIGURED_MODEL = 'nomic-embed-text'
+
+type ChunkSpec = { text: string; embedding?: number[]; model?: string }
+
+function makeDocument(ragId: string, id: string, fileName: string) {
+  return {
+    id,
+    ragId,
+    fileName,
+    fileType: 'txt',
+    status: 'active',
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+    sourceType: 'upload',
+    documentCount: 1,
+    sourceRole: 'publication',
+  }
+}
+
+function makeChunks(ragId: string, documentId: string, fileName: string, specs: ChunkSpec[]) {
+  return specs.map((spec, i) => ({
+    id: `${documentId}-c${i}`,
+    ragId,
+    documentId,
+    sourceName: fileName,
+    text: spec.text,
+    embedding: spec.embedding,
+    embeddingModel: spec.embedding ? spec.model ?? CONFIGURED_MODEL : undefined,
+  }))
+}
+
+// Archives are built by hand so each test controls exactly what the importer sees.
+function makeArchive(ragId: string, files: Array<{ id: string; fileName: string; chunks: ChunkSpec[] }>) {
+  const documents = files.map(file => makeDocument(ragId, file.id, file.fileName))
+  const chunks = files.flatMap(file => makeChunks(ragId, file.id, file.fileName, file.chunks))
+  return {
+    format: 'research-twin-rag-archive',
+    version: 1,
+    ragId,
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    embedding: { models: [], missing: 0 },
+    checksum: createHash('sha256').update(JSON.stringify({ documents, chunks })).digest('hex'),
+    documents,
+    chunks,
+  }
+}
+
+const PAPER = {
+  id: 'doc-santa',
+  fileName: 'santa.txt',
+  chunks: [{ text: 'SANTA aligns structured data with text.', embedding: [0.1, 0.2, 0.3] }],
+}
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-archive-test-'))
+  process.env.DATA_DIR = dataDir
+  delete process.env.OLLAMA_EMBEDDING_MODEL
+  delete process.env.EMBEDDING_PROVIDER
+  // Archived chunks carry their vectors; nothing here should reach an embedding provider.
+  globalThis.fetch = async () => {
+    throw new Error('unexpected network call')
+  }
+  ragArchive = await import('@/lib/server/ragArchive')
+})
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+describe('parseRagArchive', () => {
+  it('accepts an intact archive and rejects edited ones', () => {
+    const archive = makeArchive('parse', [PAPER])
+    assert.equal(ragArchive.parseRagArchive(archive).documents.length, 1)
+
+    const edited = structuredClone(archive)
+    edited.chunks[0].text = 'SANTA was edited after export.'
+    assert.throws(() => ragArchive.parseRagArchive(edited), ragArchive.RagArchiveValidationError)
+    assert.throws(() => ragArchive.parseRagArchive(edited), /checksum does not match/)
+  })
+
+  it('rejects other formats and newer versions', () => {
+    const archive = makeArchive('parse', [PAPER])
+    assert.throws(() => ragArchive.parseRagArchive({ ...archive, format: 'store' }), /Not a RAG archive/)
+    assert.throws(() => ragArchive.parseRagArchive({ ...archive, version: 2 }), /Unsupported archive version 2/)
+  })
+})
+
+describe('importRagArchive', () => {
+  it('exports what it imported', async () => {
+    await ragArchive.importRagArchive(makeArchive('roundtrip', [PAPER]))
+    const exported = await ragArchive.exportRagArchive('roundtrip')
+    assert.deepEqual(exported.documents.map(doc => doc.fileName), ['santa.txt'])
+    assert.deepEqual(exported.embedding.models, [{ model: CONFIGURED_MODEL, dimensions: [3], chunks: 1 }])
+    assert.equal(ragArchive.parseRagArchive(exported).checksum, exported.checksum)
+  })
+
+  it('applies the skip, rename and replace conflict modes', async () => {
+    const ragId = 'conflicts'
+    await ragArchive.importRagArchive(makeArchive(ragId, [PAPER]))
+
+    const incoming = makeArchive(ragId, [{
+      ...PAPER,
+      id: 'doc-santa-v2',
+      chunks: [{ text: 'SANTA, second revision.', embedding: [0.3, 0.2, 0.1] }],
+    }])
+
+    const skipped = await ragArchive.importRagArchive(incoming)
+    assert.deepEqual(skipped.skipped, ['santa.txt'])
+    assert.deepEqual(skipped.imported, [])
+
+    const renamed = await ragArchive.importRagArchive(incoming, { onConflict: 'rename' })
+    assert.deepEqual(renamed.renamed, [{ from: 'santa.txt', to: 'santa (2).txt' }])
+
+    const replaced = await ragArchive.importRagArchive(incoming, { onConflict: 'replace' })
+    assert.deepEqual(replaced.replaced, ['santa.txt'])
+
+    const exported = await ragArchive.exportRagArchive(ragId)
+    assert.deepEqual(exported.documents.map(doc => doc.fileName).sort(), ['santa (2).txt', 'santa.txt'])
+    const santa = exported.documents.find(doc => doc.fileName === 'santa.txt')
+    assert.equal(santa?.id, 'doc-santa-v2')
+  })
+
+  it('reports a dry run without writing', async () => {
+    const result = await ragArchive.importRagArchive(makeArchive('dry-run', [PAPER]), { dryRun: true })
+    assert.deepEqual(result.imported, ['santa.txt'])
+    assert.equal((await ragArchive.exportRagArchive('dry-run')).documents.length, 0)
+  })
+
+  it('requires allowEmbeddingMismatch for vectors from another model', async () => {
+    const foreign = makeArchive('foreign', [{
+      ...PAPER,
+      chunks: [{ text: 'SANTA, embedded elsewhere.', embedding: [0.1, 0.2], model: 'other-embedder' }],
+    }])
+    await assert.rejects(ragArchive.importRagArchive(foreign), /Embedding model mismatch/)
+
+    const result = await ragArchive.importRagArchive(foreign, { allowEmbeddingMismatch: true })
+    assert.equal(result.embedding.compatible, false)
+    assert.equal(result.embedding.reembedRequired, true)
+    assert.deepEqual(result.imported, ['santa.txt'])
+  })
+
+  it('rejects vectors whose dimension clashes with the target', async () => {
+    const ragId = 'dimensions'
+    await ragArchive.importRagArchive(makeArchive(ragId, [PAPER]))
+
+    const wider = makeArchive(ragId, [{
+      id: 'doc-rosita',
+      fileName: 'rosita.txt',
+      chunks: [{ text: 'ROSITA studies retrieval over tables.', embedding: [0.1, 0.2, 0.3, 0.4] }],
+    }])
+    await assert.rejects(ragArchive.importRagArchive(wider), /Embedding dimensions conflict/)
+
+    const mixed = makeArchive('mixed', [{
+      ...PAPER,
+      chunks: [
+        { text: 'SANTA, three dimensions.', embedding: [0.1, 0.2, 0.3] },
+        { text: 'SANTA, four dimensions.', embedding: [0.1, 0.2, 0.3, 0.4] },
+      ],
+    }])
+    await assert.rejects(ragArchive.importRagArchive(mixed), /Embedding dimensions conflict/)
+  })
+})
+
+describe('snapshots', () => {
+  it('keeps every entry when snapshots are created concurrently', async () => {
+    const ragId = 'snapshots'
+    await ragArchive.importRagArchive(makeArchive(ragId, [PAPER]))
+    await Promise.all(['a', 'b', 'c', 'd'].map(name => ragArchive.createRagSnapshot(ragId, name)))
+    assert.deepEqual((await ragArchive.listRagSnapshots(ragId)).map(item => item.name).sort(), ['a', 'b', 'c', 'd'])
+
+    await Promise.all(['a', 'b'].map(name => ragArchive.deleteRagSnapshot(ragId, name)))
+    assert.deepEqual((await ragArchive.listRagSnapshots(ragId)).map(item => item.name).sort(), ['c', 'd'])
+  })
+
+  it('compares names case-insensitively and reserves the index name', async () => {
+    const ragId = 'snapshot-names'
+    await ragArchive.importRagArchive(makeArchive(ragId, [PAPER]))
+    await ragArchive.createRagSnapshot(ragId, 'Run1')
+    await assert.rejects(ragArchive.createRagSnapshot(ragId, 'run1'), /already exists/)
+    await assert.rejects(ragArchive.createRagSnapshot(ragId, 'INDEX'), /reserved/)
+
+    const restored = await ragArchive.restoreRagSnapshot(ragId, 'RUN1')
+    assert.deepEqual(restored?.imported, ['santa.txt'])
+    assert.equal(await ragArchive.deleteRagSnapshot(ragId, 'rUn1'), true)
+    assert.deepEqual(await ragArchive.listRagSnapshots(ragId), [])
+  })
+})
@@ -0,0 +1,531 @@
+/**
+ * RAG corpus archives and named snapshots.
+ * Responsibilities:
+ * - Export one rag_id (documents, chunks, embeddings, metadata, redundancy annotations) as a versioned,
+ *   checksummed archive that can be moved between machines.
+ * - Import an archive into a rag_id with per-document conflict handling (skip, replace, rename) and a
+ *   check that its embeddings can be compared with this server's embedding model.
+ * - Keep named snapshots per rag_id under data/rag/snapshots and restore a rag_id to one of them.
+ */
+
+import { fileExists, readJsonFile, readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { getEmbeddingModel } from '@/lib/server/ollama'
+import {
+  exportRagSnapshot,
+  normalizeRagSnapshot,
+  writeArchivedDocuments,
+  type RagChunk,
+  type RagDocument,
+} from '@/lib/server/ragStore'
+import { sanitizeFileName } from '@/lib/server/text'
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export const RAG_ARCHIVE_FORMAT = 'research-twin-rag-archive'
+export const RAG_ARCHIVE_VERSION = 1
+
+export type RagArchiveEmbeddingSummary = {
+  /** Embedding models found on the chunks, with the vector dimension each produced. */
+  models: Array<{ model: string; dimensions: number[]; chunks: number }>
+  /** Chunks without a vector (only reachable through keyword search). */
+  missing: number
+}
+
+export type RagArchive = {
+  format: typeof RAG_ARCHIVE_FORMAT
+  version: number
+  ragId: string
+  exportedAt: string
+  embedding: RagArchiveEmbeddingSummary
+  /** sha256 of JSON.stringify({ documents, chunks }); imports reject archives that do not match. */
+  checksum: string
+  documents: RagDocument[]
+  chunks: RagChunk[]
+}
+
+export type RagArchiveConflictMode = 'skip' | 'replace' | 'rename'
+
+export type RagArchiveImportOptions = {
+  /** rag_id to import into; defaults to the archive's own rag_id. */
+  targetRagId?: string
+  /** What to do with an archived document whose fileName (or id) already exists in the target. Default `skip`. */
+  onConflict?: RagArchiveConflictMode
+  /** Import vectors from another embedding model anyway; the rag_id then needs a re-embed for dense retrieval. */
+  allowEmbeddingMismatch?: boolean
+  /** Report what would happen without writing. */
+  dryRun?: boolean
+}
+
+export type RagArchiveImportResult = {
+  ragId: string
+  dryRun: boolean
+  imported: string[]
+  skipped: string[]
+  replaced: string[]
+  renamed: Array<{ from: string; to: string }>
+  chunks: number
+  embedding: {
+    configuredModel: string
+    archive: RagArchiveEmbeddingSummary
+    compatible: boolean
+    issues: string[]
+    /** True when imported chunks carry vectors from another model; run a re-embed job for the rag_id. */
+    reembedRequired: boolean
+  }
+}
+
+export type RagSnapshotInfo = {
+  name: string
+  ragId: string
+  note?: string
+  createdAt: string
+  documents: number
+  chunks: number
+  embedding: RagArchiveEmbeddingSummary
+  checksum: string
+}
+
+type SnapshotIndex = {
+  snapshots: RagSnapshotInfo[]
+}
+
+/**
+ * A request the archive or snapshot functions refuse (malformed or tampered archive, bad or
+ * clashing snapshot name, incompatible embeddings). Routes report these as 400s; any other error
+ * is a server failure.
+ */
+export class RagArchiveValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RagArchiveValidationError'
+  }
+}
+
+const SNAPSHOT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/
+// Snapshots are stored as <lowercased name>.json next to the snapshot index, so names are compared
+// case-insensitively: "Run1" and "run1" are the same snapshot on every filesystem.
+const SNAPSHOT_INDEX_NAME = 'index'
+
+const globalRagArchive = globalThis as typeof globalThis & {
+  __researchTwinSnapshotLocks?: Map<string, Promise<void>>
+}
+
+const snapshotLocks = globalRagArchive.__researchTwinSnapshotLocks ?? new Map<string, Promise<void>>()
+if (!globalRagArchive.__researchTwinSnapshotLocks) {
+  globalRagArchive.__researchTwinSnapshotLocks = snapshotLocks
+}
+
+export function getSnapshotConfig() {
+  const maxPerRag = Number.parseInt(process.env.RAG_SNAPSHOT_MAX_PER_RAG || '20', 10)
+  return {
+    maxPerRag: Number.isFinite(maxPerRag) && maxPerRag > 0 ? maxPerRag : 20,
+  }
+}
+
+function computeChecksum(documents: unknown, chunks: unknown): string {
+  return createHash('sha256').update(JSON.stringify({ documents, chunks })).digest('hex')
+}
+
+function summarizeEmbeddings(chunks: RagChunk[]): RagArchiveEmbeddingSummary {
+  const byModel = new Map<string, { dimensions: Set<number>; chunks: number }>()
+  let missing = 0
+
+  for (const chunk of chunks) {
+    if (!chunk.embedding?.length) {
+      missing += 1
+      continue
+    }
+    // Chunks embedded before models were recorded are reported as `unknown`.
+    const model = chunk.embeddingModel || 'unknown'
+    const entry = byModel.get(model) ?? { dimensions: new Set<number>(), chunks: 0 }
+    entry.dimensions.add(chunk.embedding.length)
+    entry.chunks += 1
+    byModel.set(model, entry)
+  }
+
+  return {
+    models: Array.from(byModel, ([model, entry]) => ({
+      model,
+      dimensions: Array.from(entry.dimensions).sort((a, b) => a - b),
+      chunks: entry.chunks,
+    })),
+    missing,
+  }
+}
+
+/**
+ * Export the live (non-deleted) documents of a rag_id with their chunks. Redundancy annotations and
+ * embeddings travel on the chunks.
+ */
+export async function exportRagArchive(ragId: string): Promise<RagArchive> {
+  const snapshot = await exportRagSnapshot(ragId)
+  const documents = snapshot.documents.filter(doc => doc.status !== 'deleted')
+  const documentIds = new Set(documents.map(doc => doc.id))
+  const chunks = snapshot.chunks.filter(chunk => documentIds.has(chunk.documentId))
+
+  return {
+    format: RAG_ARCHIVE_FORMAT,
+    version: RAG_ARCHIVE_VERSION,
+    ragId,
+    exportedAt: new Date().toISOString(),
+    embedding: summarizeEmbeddings(chunks),
+    checksum: computeChecksum(documents, chunks),
+    documents,
+    chunks,
+  }
+}
+
+/**
+ * Validate format, version and checksum, then normalize records the same way store.json imports are.
+ * Throws with a readable message for anything that is not an intact archive.
+ */
+export function parseRagArchive(raw: unknown): RagArchive {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+  if (value.format !== RAG_ARCHIVE_FORMAT) {
+    throw new RagArchiveValidationError(`Not a RAG archive (expected format "${RAG_ARCHIVE_FORMAT}"); use action "import" for store.json payloads`)
+  }
+
+  const version = typeof value.version === 'number' ? value.version : Number.NaN
+  if (!Number.isInteger(version) || version < 1 || version > RAG_ARCHIVE_VERSION) {
+    throw new RagArchiveValidationError(`Unsupported archive version ${String(value.version)} (this server reads up to ${RAG_ARCHIVE_VERSION})`)
+  }
+
+  if (!Array.isArray(value.documents) || !Array.isArray(value.chunks)) {
+    throw new RagArchiveValidationError('Archive is missing documents or chunks')
+  }
+  if (value.checksum !== computeChecksum(value.documents, value.chunks)) {
+    throw new RagArchiveValidationError('Archive checksum does not match its contents; the file is truncated or was edited')
+  }
+
+  const ragId = typeof value.ragId === 'string' && value.ragId.trim() ? value.ragId.trim() : ''
+  if (!ragId) throw new RagArchiveValidationError('Archive is missing ragId')
+
+  const { documents, chunks } = normalizeRagSnapshot({ documents: value.documents, chunks: value.chunks })
+  return {
+    format: RAG_ARCHIVE_FORMAT,
+    version,
+    ragId,
+    exportedAt: typeof value.exportedAt === 'string' ? value.exportedAt : '',
+    embedding: summarizeEmbeddings(chunks),
+    checksum: value.checksum,
+    documents: documents.filter(doc => doc.status !== 'deleted'),
+    chunks,
+  }
+}
+
+/**
+ * Archived vectors are only comparable with query vectors from the configured embedding model, and
+ * one rag_id cannot mix dimensions for the same model.
+ */
+function checkEmbeddings(archive: RagArchive, keptChunks: RagChunk[]) {
+  const configuredModel = getEmbeddingModel()
+  const issues: string[] = []
+  let foreignModel = false
+
+  for (const entry of archive.embedding.models) {
+    if (entry.model !== configuredModel) {
+      foreignModel = true
+      issues.push(`${entry.chunks} chunks were embedded with ${entry.model}; this server embeds with ${configuredModel}`)
+    }
+  }
+
+  const keptDimensions = new Set(
+    keptChunks
+      .filter(chunk => chunk.embedding?.length && chunk.embeddingModel === configuredModel)
+      .map(chunk => chunk.embedding!.length)
+  )
+  const archivedDimensions = archive.embedding.models.find(entry => entry.model === configuredModel)?.dimensions ?? []
+  const dimensionClash = archivedDimensions.length > 1
+    || archivedDimensions.some(dim => keptDimensions.size > 0 && !keptDimensions.has(dim))
+  if (dimensionClash) {
+    issues.push(
+      `${configuredModel} vectors are ${archivedDimensions.join('/')}d in the archive but ${Array.from(keptDimensions).join('/') || 'mixed'}d in the target`
+    )
+  }
+
+  return { configuredModel, issues, foreignModel, dimensionClash }
+}
+
+function groupByDocument(chunks: RagChunk[]): Map<string, RagChunk[]> {
+  const grouped = new Map<string, RagChunk[]>()
+  for (const chunk of chunks) {
+    const bucket = grouped.get(chunk.documentId)
+    if (bucket) bucket.push(chunk)
+    else grouped.set(chunk.documentId, [chunk])
+  }
+  return grouped
+}
+
+function uniqueFileName(fileName: string, taken: Set<string>): string {
+  const extension = path.extname(fileName)
+  const stem = fileName.slice(0, fileName.length - extension.length)
+  for (let suffix = 2; ; suffix++) {
+    const candidate = `${stem} (${suffix})${extension}`
+    if (!taken.has(candidate)) return candidate
+  }
+}
+
+/**
+ * Import an archive into a rag_id. Documents are matched on fileName (the identity ingest uses) or id.
+ * When the target keeps documents the archive did not bring, thesis redundancy is recomputed across
+ * the merged corpus; otherwise the archived annotations are kept as they are.
+ */
+export async function importRagArchive(
+  raw: unknown,
+  options: RagArchiveImportOptions = {}
+): Promise<RagArchiveImportResult> {
+  const archive = parseRagArchive(raw)
+  const ragId = options.targetRagId?.trim() || archive.ragId
+  const onConflict = options.onConflict ?? 'skip'
+
+  const target = await exportRagSnapshot(ragId)
+  const existing = target.documents.filter(doc => doc.status !== 'deleted')
+  const existingByName = new Map(existing.map(doc => [doc.fileName, doc]))
+  const existingById = new Map(existing.map(doc => [doc.id, doc]))
+  const takenNames = new Set(existing.map(doc => doc.fileName))
+  const archivedChunks = groupByDocument(archive.chunks)
+
+  const upsert: Array<{ document: RagDocument; chunks: RagChunk[] }> = []
+  const removeDocumentIds = new Set<string>()
+  const result: RagArchiveImportResult = {
+    ragId,
+    dryRun: options.dryRun === true,
+    imported: [],
+    skipped: [],
+    replaced: [],
+    renamed: [],
+    chunks: 0,
+    embedding: {
+      configuredModel: getEmbeddingModel(),
+      archive: archive.embedding,
+      compatible: true,
+      issues: [],
+      reembedRequired: false,
+    },
+  }
+
+  for (const document of archive.documents) {
+    const chunks = archivedChunks.get(document.id) ?? []
+    const conflict = existingByName.get(document.fileName) ?? existingById.get(document.id)
+    let incoming = {
+      document: { ...document, ragId },
+      chunks: chunks.map(chunk => ({ ...chunk, ragId })),
+    }
+
+    if (conflict && onConflict === 'skip') {
+      result.skipped.push(document.fileName)
+      continue
+    }
+
+    if (conflict && onConflict === 'replace') {
+      if (conflict.id !== document.id) removeDocumentIds.add(conflict.id)
+      result.replaced.push(document.fileName)
+    }
+
+    if (conflict && onConflict === 'rename') {
+      const fileName = uniqueFileName(document.fileName, takenNames)
+      const documentId = crypto.randomUUID()
+      incoming = {
+        document: { ...incoming.document, id: documentId, fileName },
+        chunks: incoming.chunks.map(chunk => ({ ...chunk, id: crypto.randomUUID(), documentId, sourceName: fileName })),
+      }
+      result.renamed.push({ from: document.fileName, to: fileName })
+    }
+
+    takenNames.add(incoming.document.fileName)
+    upsert.push(incoming)
+    result.imported.push(incoming.document.fileName)
+    result.chunks += incoming.chunks.length
+  }
+
+  const overwrittenIds = new Set([...removeDocumentIds, ...upsert.map(item => item.document.id)])
+  const keptDocuments = existing.filter(doc => !overwrittenIds.has(doc.id))
+  const keptIds = new Set(keptDocuments.map(doc => doc.id))
+  const check = checkEmbeddings(archive, target.chunks.filter(chunk => keptIds.has(chunk.documentId)))
+  result.embedding.issues = check.issues
+  result.embedding.compatible = check.issues.length === 0
+  result.embedding.reembedRequired = check.foreignModel && upsert.length > 0
+
+  if (check.dimensionClash) {
+    throw new RagArchiveValidationError(`Embedding dimensions conflict: ${check.issues.join('; ')}`)
+  }
+  if (check.foreignModel && !options.allowEmbeddingMismatch) {
+    throw new RagArchiveValidationError(
+      `Embedding model mismatch: ${check.issues.join('; ')}. Set allowEmbeddingMismatch to import anyway, then re-embed the rag_id`
+    )
+  }
+
+  if (result.dryRun || (!upsert.length && !removeDocumentIds.size)) return result
+
+  await writeArchivedDocuments(ragId, {
+    upsert,
+    removeDocumentIds: Array.from(removeDocumentIds),
+    reannotate: keptDocuments.length > 0,
+  })
+  return result
+}
+
+function snapshotDir(ragId: string): string {
+  return resolveDataPath('rag', 'snapshots', sanitizeFileName(ragId))
+}
+
+function snapshotPath(ragId: string, name: string): string {
+  return path.join(snapshotDir(ragId), `${name.toLowerCase()}.json`)
+}
+
+function isSameSnapshotName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+/**
+ * Serialize snapshot index read-modify-writes per rag_id; concurrent creates and deletes would otherwise
+ * drop each other's entries.
+ */
+async function withSnapshotLock<T>(ragId: string, task: () => Promise<T>): Promise<T> {
+  const previous = snapshotLocks.get(ragId) || Promise.resolve()
+  let release: () => void = () => {}
+  const current = new Promise<void>(resolve => {
+    release = resolve
+  })
+  const chained = previous.then(() => current)
+  snapshotLocks.set(ragId, chained)
+
+  await previous
+  try {
+    return await task()
+  } finally {
+    release()
+    if (snapshotLocks.get(ragId) === chained) snapshotLocks.delete(ragId)
+  }
+}
+
+async function readSnapshotIndex(ragId: string): Promise<SnapshotIndex> {
+  const filePath = path.join(snapshotDir(ragId), `${SNAPSHOT_INDEX_NAME}.json`)
+  const stored = await readJsonFileIfExists<SnapshotIndex | null>(filePath, null)
+  return { snapshots: Array.isArray(stored?.snapshots) ? stored.snapshots : [] }
+}
+
+async function writeSnapshotIndex(ragId: string, index: SnapshotIndex): Promise<void> {
+  await writeJsonFileAtomic(path.join(snapshotDir(ragId), `${SNAPSHOT_INDEX_NAME}.json`), index)
+}
+
+export async function listRagSnapshots(ragId: string): Promise<RagSnapshotInfo[]> {
+  const { snapshots } = await readSnapshotIndex(ragId)
+  return [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Save the current state of a rag_id under `name`. Existing names are only overwritten with
+ * `overwrite`, and each rag_id holds at most RAG_SNAPSHOT_MAX_PER_RAG snapshots.
+ */
+export async function createRagSnapshot(
+  ragId: string,
+  name: string,
+  options: { note?: string; overwrite?: boolean } = {}
+): Promise<RagSnapshotInfo> {
+  if (!SNAPSHOT_NAME_PATTERN.test(name)) {
+    throw new RagArchiveValidationError('Snapshot name must be 1-64 letters, digits, dots, dashes or underscores')
+  }
+  if (name.toLowerCase() === SNAPSHOT_INDEX_NAME) {
+    throw new RagArchiveValidationError(`Snapshot name "${name}" is reserved`)
+  }
+
+  return withSnapshotLock(ragId, async () => {
+    const index = await readSnapshotIndex(ragId)
+    const existing = index.snapshots.find(item => isSameSnapshotName(item.name, name))
+    if (existing && !options.overwrite) {
+      throw new RagArchiveValidationError(`Snapshot "${existing.name}" already exists for ${ragId}`)
+    }
+    const { maxPerRag } = getSnapshotConfig()
+    if (!existing && index.snapshots.length >= maxPerRag) {
+      throw new RagArchiveValidationError(`${ragId} already has ${maxPerRag} snapshots; delete one first`)
+    }
+
+    const archive = await exportRagArchive(ragId)
+    const info: RagSnapshotInfo = {
+      name,
+      ragId,
+      note: options.note?.trim() || undefined,
+      createdAt: archive.exportedAt,
+      documents: archive.documents.length,
+      chunks: archive.chunks.length,
+      embedding: archive.embedding,
+      checksum: archive.checksum,
+    }
+
+    await writeJsonFileAtomic(snapshotPath(ragId, name), archive)
+    await writeSnapshotIndex(ragId, {
+      snapshots: [...index.snapshots.filter(item => !isSameSnapshotName(item.name, name)), info],
+    })
+    return info
+  })
+}
+
+/**
+ * Replace the contents of a rag_id with a snapshot. Returns null when the snapshot does not exist.
+ * Vectors from another embedding model are restored as they were and flagged with `reembedRequired`.
+ */
+export async function restoreRagSnapshot(ragId: string, name: string): Promise<RagArchiveImportResult | null> {
+  const archive = await withSnapshotLock(ragId, async () => {
+    const info = (await readSnapshotIndex(ragId)).snapshots.find(item => isSameSnapshotName(item.name, name))
+    if (!info) return null
+
+    const filePath = snapshotPath(ragId, info.name)
+    if (!(await fileExists(filePath))) return null
+
+    try {
+      return parseRagArchive(await readJsonFile<unknown>(filePath, null))
+    } catch (error) {
+      // A stored snapshot that no longer parses is damaged data, not a bad request.
+      const reason = error instanceof Error ? error.message : 'unknown error'
+      throw new Error(`Snapshot "${info.name}" of ${ragId} is unreadable: ${reason}`)
+    }
+  })
+  if (!archive) return null
+
+  const current = await exportRagSnapshot(ragId)
+  const restoredIds = new Set(archive.documents.map(doc => doc.id))
+  const removeDocumentIds = current.documents.map(doc => doc.id).filter(id => !restoredIds.has(id))
+  const archivedChunks = groupByDocument(archive.chunks)
+  const check = checkEmbeddings(archive, [])
+
+  await writeArchivedDocuments(ragId, {
+    upsert: archive.documents.map(document => ({
+      document: { ...document, ragId },
+      chunks: (archivedChunks.get(document.id) ?? []).map(chunk => ({ ...chunk, ragId })),
+    })),
+    removeDocumentIds,
+    reannotate: false,
+  })
+
+  return {
+    ragId,
+    dryRun: false,
+    imported: archive.documents.map(doc => doc.fileName),
+    skipped: [],
+    replaced: [],
+    renamed: [],
+    chunks: archive.chunks.length,
+    embedding: {
+      configuredModel: check.configuredModel,
+      archive: archive.embedding,
+      compatible: check.issues.length === 0,
+      issues: check.issues,
+      reembedRequired: check.foreignModel,
+    },
+  }
+}
+
+export async function deleteRagSnapshot(ragId: string, name: string): Promise<boolean> {
+  return withSnapshotLock(ragId, async () => {
+    const index = await readSnapshotIndex(ragId)
+    if (!index.snapshots.some(item => isSameSnapshotName(item.name, name))) return false
+
+    await writeSnapshotIndex(ragId, {
+      snapshots: index.snapshots.filter(item => !isSameSnapshotName(item.name, name)),
+    })
+    await fs.rm(snapshotPath(ragId, name), { force: true })
+    return true
+  })
+}
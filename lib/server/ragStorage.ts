@@ -0,0 +1,357 @@
+/**
+ * Pluggable persistence for RAG documents and chunks.
+ * Responsibilities:
+ * - Define the storage contract used by ragStore (document listing, filtered chunk scans, per-document writes).
+ * - Provide a whole-file JSON backend over data/rag/store.json.
+ * - Provide a segmented backend: one manifest per rag_id plus one chunk file per document, cached by mtime.
+ * - Migrate the legacy JSON store into segments on first use.
+ */
+
+import { fileExists, readJsonFile, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { sanitizeFileName } from '@/lib/server/text'
+import type { RagChunk, RagDocument, RagSourceRole } from '@/lib/server/ragStore'
+import { promises as fs } from 'fs'
+
+export type RagStorageBackendName = 'json' | 'segmented'
+
+export type RagStoreSnapshot = {
+  documents: RagDocument[]
+  chunks: RagChunk[]
+}
+
+export type ChunkScanFilter = {
+  ragId: string
+  sourceRoles?: RagSourceRole[]
+  documentNames?: string[]
+  excludeRedundant?: boolean
+}
+
+/**
+ * One atomic change to a rag_id.
+ * Upserted documents replace their chunk set when `chunks` is given; removed documents lose the record and its chunks.
+ */
+export type DocumentWrite = {
+  upsert?: Array<{ document: RagDocument; chunks?: RagChunk[] }>
+  removeDocumentIds?: string[]
+}
+
+export type RagStorageBackend = {
+  name: RagStorageBackendName
+  listRagIds(): Promise<string[]>
+  listDocuments(ragId: string): Promise<RagDocument[]>
+  scanChunks(filter: ChunkScanFilter): Promise<RagChunk[]>
+  writeDocuments(ragId: string, change: DocumentWrite): Promise<void>
+}
+
+type SegmentManifest = {
+  version: 1
+  ragId: string
+  revision: number
+  updatedAt: string
+  documents: RagDocument[]
+}
+
+type SegmentMeta = {
+  version: 1
+  migratedFrom?: RagStorageBackendName
+  migratedAt: string
+}
+
+type CachedFile = {
+  mtimeMs: number
+  size: number
+  value: unknown
+}
+
+const SEGMENT_ROOT = resolveDataPath('rag', 'segments')
+const SEGMENT_META_PATH = resolveDataPath('rag', 'segments', 'meta.json')
+
+const globalRagStorage = globalThis as typeof globalThis & {
+  __researchTwinSegmentCache?: Map<string, CachedFile>
+  __researchTwinSegmentLocks?: Map<string, Promise<void>>
+}
+
+const segmentCache = globalRagStorage.__researchTwinSegmentCache ?? new Map<string, CachedFile>()
+if (!globalRagStorage.__researchTwinSegmentCache) {
+  globalRagStorage.__researchTwinSegmentCache = segmentCache
+}
+
+const segmentLocks = globalRagStorage.__researchTwinSegmentLocks ?? new Map<string, Promise<void>>()
+if (!globalRagStorage.__researchTwinSegmentLocks) {
+  globalRagStorage.__researchTwinSegmentLocks = segmentLocks
+}
+
+export function getStorageBackendName(): RagStorageBackendName {
+  return process.env.RAG_STORAGE_BACKEND === 'json' ? 'json' : 'segmented'
+}
+
+function matchesChunkFilter(chunk: RagChunk, filter: ChunkScanFilter, roleFilter: Set<RagSourceRole> | null, nameFilter: Set<string> | null): boolean {
+  if (chunk.ragId !== filter.ragId) return false
+  if (roleFilter && !roleFilter.has(chunk.sourceRole)) return false
+  if (nameFilter && !nameFilter.has(chunk.sourceName)) return false
+  if (filter.excludeRedundant && chunk.isRedundant) return false
+  return true
+}
+
+function buildFilterSets(filter: ChunkScanFilter) {
+  return {
+    roleFilter: filter.sourceRoles?.length ? new Set(filter.sourceRoles) : null,
+    nameFilter: filter.documentNames?.length ? new Set(filter.documentNames) : null,
+  }
+}
+
+export function applyDocumentWrite(snapshot: RagStoreSnapshot, ragId: string, change: DocumentWrite): RagStoreSnapshot {
+  const upserts = change.upsert || []
+  const removedIds = new Set(change.removeDocumentIds || [])
+  const upsertIds = new Set(upserts.map(item => item.document.id))
+  const replacedChunkDocIds = new Set(upserts.filter(item => item.chunks).map(item => item.document.id))
+
+  const documents = snapshot.documents.filter(doc => !(doc.ragId === ragId && (removedIds.has(doc.id) || upsertIds.has(doc.id))))
+  documents.push(...upserts.map(item => item.document))
+
+  const chunks = snapshot.chunks.filter(chunk => !(
+    chunk.ragId === ragId && (removedIds.has(chunk.documentId) || replacedChunkDocIds.has(chunk.documentId))
+  ))
+  for (const item of upserts) {
+    if (item.chunks) chunks.push(...item.chunks)
+  }
+
+  return { documents, chunks }
+}
+
+/**
+ * Whole-file backend. Every call reads (and every write rewrites) the full snapshot.
+ */
+export function createJsonStorage(io: {
+  read: () => Promise<RagStoreSnapshot>
+  write: (snapshot: RagStoreSnapshot) => Promise<void>
+}): RagStorageBackend {
+  return {
+    name: 'json',
+    async listRagIds() {
+      const snapshot = await io.read()
+      return Array.from(new Set(snapshot.documents.map(doc => doc.ragId)))
+    },
+    async listDocuments(ragId) {
+      const snapshot = await io.read()
+      return snapshot.documents.filter(doc => doc.ragId === ragId)
+    },
+    async scanChunks(filter) {
+      const snapshot = await io.read()
+      const { roleFilter, nameFilter } = buildFilterSets(filter)
+      return snapshot.chunks.filter(chunk => matchesChunkFilter(chunk, filter, roleFilter, nameFilter))
+    },
+    async writeDocuments(ragId, change) {
+      const snapshot = await io.read()
+      await io.write(applyDocumentWrite(snapshot, ragId, change))
+    },
+  }
+}
+
+function ragDirName(ragId: string): string {
+  return sanitizeFileName(ragId)
+}
+
+function manifestPath(ragId: string): string {
+  return resolveDataPath('rag', 'segments', ragDirName(ragId), 'manifest.json')
+}
+
+function segmentPath(ragId: string, documentId: string): string {
+  return resolveDataPath('rag', 'segments', ragDirName(ragId), 'chunks', `${sanitizeFileName(documentId)}.json`)
+}
+
+/**
+ * Read a JSON file through the mtime/size cache so unchanged segments are parsed once per process.
+ */
+async function readCachedJson<T>(filePath: string, fallback: T): Promise<T> {
+  const stat = await fs.stat(filePath).catch(() => null)
+  if (!stat?.isFile()) {
+    segmentCache.delete(filePath)
+    return fallback
+  }
+
+  const cached = segmentCache.get(filePath)
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached.value as T
+  }
+
+  const value = await readJsonFile<T>(filePath, fallback)
+  segmentCache.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, value })
+  return value
+}
+
+async function writeCachedJson(filePath: string, value: unknown): Promise<void> {
+  await writeJsonFileAtomic(filePath, value)
+  const stat = await fs.stat(filePath).catch(() => null)
+  if (stat) {
+    segmentCache.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, value })
+  } else {
+    segmentCache.delete(filePath)
+  }
+}
+
+async function withRagLock<T>(ragId: string, task: () => Promise<T>): Promise<T> {
+  const previous = segmentLocks.get(ragId) || Promise.resolve()
+  let release: () => void = () => {}
+  const current = new Promise<void>(resolve => {
+    release = resolve
+  })
+  const chained = previous.then(() => current)
+  segmentLocks.set(ragId, chained)
+
+  await previous
+  try {
+    return await task()
+  } finally {
+    release()
+    if (segmentLocks.get(ragId) === chained) segmentLocks.delete(ragId)
+  }
+}
+
+async function readManifest(ragId: string): Promise<SegmentManifest | null> {
+  return readCachedJson<SegmentManifest | null>(manifestPath(ragId), null)
+}
+
+async function readSegment(ragId: string, documentId: string): Promise<RagChunk[]> {
+  const chunks = await readCachedJson<RagChunk[]>(segmentPath(ragId, documentId), [])
+  return Array.isArray(chunks) ? chunks : []
+}
+
+async function writeSegmentedDocuments(ragId: string, change: DocumentWrite): Promise<void> {
+  await withRagLock(ragId, async () => {
+    const manifest = await readManifest(ragId)
+    const upserts = change.upsert || []
+    const removedIds = new Set(change.removeDocumentIds || [])
+    const upsertIds = new Set(upserts.map(item => item.document.id))
+
+    // Segments are written before the manifest references them, and only unlinked after it stops doing so,
+    // so concurrent readers always see a manifest whose segments exist.
+    for (const item of upserts) {
+      if (item.chunks?.length) await writeCachedJson(segmentPath(ragId, item.document.id), item.chunks)
+    }
+
+    const documents = (manifest?.documents || []).filter(doc => !removedIds.has(doc.id) && !upsertIds.has(doc.id))
+    documents.push(...upserts.map(item => item.document))
+
+    await writeCachedJson(manifestPath(ragId), {
+      version: 1,
+      ragId,
+      revision: (manifest?.revision || 0) + 1,
+      updatedAt: new Date().toISOString(),
+      documents,
+    } satisfies SegmentManifest)
+
+    const emptiedIds = upserts.filter(item => item.chunks && !item.chunks.length).map(item => item.document.id)
+    for (const documentId of [...Array.from(removedIds), ...emptiedIds]) {
+      if (removedIds.has(documentId) && upsertIds.has(documentId)) continue
+      const filePath = segmentPath(ragId, documentId)
+      segmentCache.delete(filePath)
+      await fs.unlink(filePath).catch(() => undefined)
+    }
+  })
+}
+
+async function migrateLegacyStore(legacy: RagStorageBackend): Promise<void> {
+  const ragIds = await legacy.listRagIds()
+  for (const ragId of ragIds) {
+    const documents = await legacy.listDocuments(ragId)
+    const chunks = await legacy.scanChunks({ ragId })
+    const chunksByDocument = new Map<string, RagChunk[]>()
+    for (const chunk of chunks) {
+      const bucket = chunksByDocument.get(chunk.documentId)
+      if (bucket) {
+        bucket.push(chunk)
+      } else {
+        chunksByDocument.set(chunk.documentId, [chunk])
+      }
+    }
+
+    await writeSegmentedDocuments(ragId, {
+      upsert: documents.map(document => ({ document, chunks: chunksByDocument.get(document.id) || [] })),
+    })
+  }
+
+  await writeJsonFileAtomic(SEGMENT_META_PATH, {
+    version: 1,
+    migratedFrom: legacy.name,
+    migratedAt: new Date().toISOString(),
+  } satisfies SegmentMeta)
+
+  if (ragIds.length) {
+    console.info(`[ragStorage] Migrated ${ragIds.length} rag_id(s) from ${legacy.name} storage into segments.`)
+  }
+}
+
+/**
+ * Segmented backend. Falls back to the legacy backend for reads when segments cannot be created
+ * (for example read-only serverless runtimes that only ship the bundled store.json).
+ */
+export function createSegmentedStorage(legacy: RagStorageBackend): RagStorageBackend {
+  let ready: Promise<boolean> | null = null
+
+  const ensureReady = () => {
+    if (!ready) {
+      ready = (async () => {
+        const meta = await fileExists(SEGMENT_META_PATH)
+        if (meta) return true
+        try {
+          await migrateLegacyStore(legacy)
+          return true
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'unknown error'
+          console.warn(`[ragStorage] Segment migration failed, serving ${legacy.name} storage: ${reason}`)
+          return false
+        }
+      })()
+    }
+    return ready
+  }
+
+  return {
+    name: 'segmented',
+    async listRagIds() {
+      if (!(await ensureReady())) return legacy.listRagIds()
+      const entries = await fs.readdir(SEGMENT_ROOT, { withFileTypes: true }).catch(() => [])
+      const ragIds: string[] = []
+      for (const entry of entries) {
+        if (!entry.isDirectory()) continue
+        const manifest = await readCachedJson<SegmentManifest | null>(
+          resolveDataPath('rag', 'segments', entry.name, 'manifest.json'),
+          null
+        )
+        if (manifest?.ragId) ragIds.push(manifest.ragId)
+      }
+      return ragIds
+    },
+    async listDocuments(ragId) {
+      if (!(await ensureReady())) return legacy.listDocuments(ragId)
+      const manifest = await readManifest(ragId)
+      return manifest?.documents || []
+    },
+    async scanChunks(filter) {
+      if (!(await ensureReady())) return legacy.scanChunks(filter)
+      const manifest = await readManifest(filter.ragId)
+      if (!manifest) return []
+
+      const { roleFilter, nameFilter } = buildFilterSets(filter)
+      const documents = manifest.documents.filter(doc => (
+        doc.status !== 'deleted'
+        && (!roleFilter || roleFilter.has(doc.sourceRole))
+        && (!nameFilter || nameFilter.has(doc.fileName))
+      ))
+
+      const chunks: RagChunk[] = []
+      for (const document of documents) {
+        const segment = await readSegment(filter.ragId, document.id)
+        for (const chunk of segment) {
+          if (matchesChunkFilter(chunk, filter, roleFilter, nameFilter)) chunks.push(chunk)
+        }
+      }
+      return chunks
+    },
+    async writeDocuments(ragId, change) {
+      if (!(await ensureReady())) return legacy.writeDocuments(ragId, change)
+      await writeSegmentedDocuments(ragId, change)
+    },
+  }
+}
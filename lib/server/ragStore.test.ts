@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { after, before, describe, it } from 'node:test'
+import type { HybridRetrievalOptions, RetrievalScoreTrace } from '@/lib/server/ragStore'
+
+type RagStoreModule = typeof import('@/lib/server/ragStore')
+
+let ragStore: RagStoreModule
+let dataDir: string
+let queryEmbedding: number[] | null = [1, 0, 0]
+
+const RAG_ID = 'fusion'
+
+// One chunk matches only on keywords, one only on its vector, one on both.
+const CHUNKS = [
+  { id: 'lexical', text: 'ROSITA evaluates retrieval over tables.', embedding: [0, 1, 0] },
+  { id: 'dense', text: 'A method for aligning structured data.', embedding: [1, 0, 0] },
+  { id: 'both', text: 'ROSITA aligns tables with questions.', embedding: [0.9, 0.1, 0] },
+  { id: 'neither', text: 'Acknowledgements and funding.', embedding: [0, 0, 1] },
+]
+
+async function retrieve(hybrid?: HybridRetrievalOptions) {
+  let trace: RetrievalScoreTrace | null = null
+  const chunks = await ragStore.retrieveRelevantChunks({
+    ragId: RAG_ID,
+    query: 'ROSITA',
+    topK: 4,
+    hybrid,
+    onScores: scores => {
+      trace = scores
+    },
+  })
+  return { ids: chunks.map(chunk => chunk.id), trace: trace as RetrievalScoreTrace | null }
+}
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-store-test-'))
+  process.env.DATA_DIR = dataDir
+  delete process.env.OLLAMA_EMBEDDING_MODEL
+  delete process.env.EMBEDDING_PROVIDER
+  globalThis.fetch = async () => {
+    if (!queryEmbedding) return new Response('embedding model unavailable', { status: 503 })
+    return new Response(JSON.stringify({ embeddings: [queryEmbedding] }), { status: 200 })
+  }
+  ragStore = await import('@/lib/server/ragStore')
+
+  const { documents, chunks } = ragStore.normalizeRagSnapshot({
+    documents: [{ id: 'doc', ragId: RAG_ID, fileName: 'paper.txt', status: 'active', sourceRole: 'publication' }],
+    chunks: CHUNKS.map(chunk => ({
+      ...chunk,
+      ragId: RAG_ID,
+      documentId: 'doc',
+      sourceName: 'paper.txt',
+      embeddingModel: 'nomic-embed-text',
+    })),
+  })
+  await ragStore.writeArchivedDocuments(RAG_ID, {
+    upsert: [{ document: documents[0], chunks }],
+    removeDocumentIds: [],
+    reannotate: false,
+  })
+})
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+describe('retrieveRelevantChunks fusion', () => {
+  it('ranks chunks found by both BM25 and the dense scan first under RRF', async () => {
+    const { ids, trace } = await retrieve({ fusion: 'rrf' })
+    assert.equal(ids[0], 'both')
+    assert.deepEqual(ids.slice(1, 3).sort(), ['dense', 'lexical'])
+    assert.equal(ids[3], 'neither')
+    assert.equal(trace?.fusion, 'rrf')
+    assert.equal(trace?.query_embedded, true)
+  })
+
+  it('follows the list weights', async () => {
+    assert.equal((await retrieve({ fusion: 'rrf', denseWeight: 1, lexicalWeight: 0 })).ids[0], 'dense')
+    const lexicalOnly = await retrieve({ fusion: 'weighted', denseWeight: 0, lexicalWeight: 1 })
+    assert.deepEqual(lexicalOnly.ids.slice(0, 2).sort(), ['both', 'lexical'])
+  })
+
+  it('falls back to BM25 alone when the query cannot be embedded', async () => {
+    queryEmbedding = null
+    try {
+      const { ids, trace } = await retrieve()
+      assert.deepEqual(ids.slice(0, 2).sort(), ['both', 'lexical'])
+      assert.equal(trace?.query_embedded, false)
+      assert.ok(trace?.candidates.every(candidate => candidate.dense === null))
+    } finally {
+      queryEmbedding = [1, 0, 0]
+    }
+  })
+})
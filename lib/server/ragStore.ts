@@ -1,16 +1,30 @@
 /**
- * Local JSON-backed RAG storage layer.
+ * Local RAG storage layer.
  * Responsibilities:
- * - Persist document and chunk records.
- * - Ingest and embed uploaded/crawled text.
- * - Retrieve relevant chunks with configurable filters.
+ * - Persist document and chunk records through a pluggable backend (segmented by default, JSON file as legacy/export format).
+ * - Ingest and embed uploaded/crawled text, chunked along sections, pages and sentences, reusing cached embeddings.
+ * - Retrieve relevant chunks with hybrid dense + BM25 ranking and configurable filters,
+ *   using the HNSW index for dense scoring once the candidate pool is large.
  * - Track thesis redundancy against publication chunks.
+ * - Parse store.json-format payloads and apply archive imports (see `ragArchive.ts`).
+ * - Stamp each rag_id with a corpus version that changes on every write, for caches keyed on corpus contents.
  */
 
-import { readJsonFile, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { readJsonFile, readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
 import { DEFAULT_RAG_TOP_K } from '@/lib/config/env'
-import { ollamaEmbedding } from '@/lib/server/ollama'
-import { chunkText, cosineSimilarity, keywordScore } from '@/lib/server/text'
+import { getLexicalIndex, rebuildLexicalIndex, scoreBm25 } from '@/lib/server/lexicalIndex'
+import { getEmbeddingModel, ollamaEmbedding } from '@/lib/server/ollama'
+import { embedTexts } from '@/lib/server/embeddingCache'
+import {
+  createJsonStorage,
+  createSegmentedStorage,
+  getStorageBackendName,
+  type DocumentWrite,
+  type RagStorageBackend,
+  type RagStoreSnapshot,
+} from '@/lib/server/ragStorage'
+import { getAnnConfig, searchVectorIndex, syncVectorIndex } from '@/lib/server/vectorIndex'
+import { chunkStructuredText, chunkText, cosineSimilarity, sanitizeFileName, type StructuredChunk } from '@/lib/server/text'
 import { createHash } from 'crypto'
 import { promises as fs } from 'fs'
 
@@ -39,6 +53,7 @@ export type RagDocument = {
   documentCount: number
   sourceRole: RagSourceRole
   metadata?: RagDocumentMetadata
+  missingEmbeddings?: number
 }
 
 export type RagChunk = {
@@ -48,6 +63,8 @@ export type RagChunk = {
   text: string
   textHash?: string
   embedding?: number[]
+  embeddingModel?: string
+  embeddingDim?: number
   sourceName: string
   chunkIndex: number
   sourceRole: RagSourceRole
@@ -61,9 +78,46 @@ export type RagChunk = {
   isRedundant?: boolean
 }
 
-type RagStore = {
-  documents: RagDocument[]
-  chunks: RagChunk[]
+type RagStore = RagStoreSnapshot
+
+export type ReembedProgress = {
+  totalDocuments: number
+  processedDocuments: number
+  reembeddedChunks: number
+  cachedChunks: number
+  failedChunks: number
+}
+
+export type RetrievalFusionMode = 'rrf' | 'weighted'
+
+export type HybridRetrievalOptions = {
+  fusion?: RetrievalFusionMode
+  denseWeight?: number
+  lexicalWeight?: number
+  rrfK?: number
+}
+
+/**
+ * Per-call scoring detail from retrieveRelevantChunks, for retrieval debugging.
+ * `dense` is the cosine (or ANN) similarity and `lexical` the raw BM25 score; either is null when
+ * the chunk got no contribution from that list.
+ */
+export type RetrievalScoreTrace = {
+  fusion: RetrievalFusionMode
+  query_embedded: boolean
+  scanned_chunks: number
+  candidate_chunks: number
+  candidates: Array<{
+    chunk_id: string
+    document: string
+    source_role: RagSourceRole
+    dense: number | null
+    lexical: number | null
+    redundancy_penalty: number
+    score: number
+    selected: boolean
+    dropped_by?: 'top_k' | 'max_chunks_per_document'
+  }>
 }
 
 const RAG_STORE_PATH = resolveDataPath('rag', 'store.json')
@@ -283,6 +337,30 @@ function getRedundantThesisPenalty(): number {
   return clamp01(value)
 }
 
+function parseWeight(value: unknown, fallback: number): number {
+  const parsed = parseNumber(value)
+  return typeof parsed === 'number' && parsed >= 0 ? parsed : fallback
+}
+
+function getHybridConfig(overrides?: HybridRetrievalOptions): Required<HybridRetrievalOptions> {
+  const envFusion = process.env.RAG_FUSION_MODE === 'weighted' ? 'weighted' : 'rrf'
+  const denseWeight = parseWeight(process.env.RAG_DENSE_WEIGHT, 1)
+  const lexicalWeight = parseWeight(process.env.RAG_LEXICAL_WEIGHT, 1)
+  const rrfK = parseWeight(process.env.RAG_RRF_K, 60)
+
+  return {
+    fusion: overrides?.fusion === 'weighted' || overrides?.fusion === 'rrf' ? overrides.fusion : envFusion,
+    denseWeight: parseWeight(overrides?.denseWeight, denseWeight),
+    lexicalWeight: parseWeight(overrides?.lexicalWeight, lexicalWeight),
+    rrfK: parseWeight(overrides?.rrfK, rrfK),
+  }
+}
+
+function rankPositions(scores: Map<string, number>): Map<string, number> {
+  const ordered = Array.from(scores.entries()).sort((a, b) => b[1] - a[1])
+  return new Map(ordered.map(([id], index) => [id, index + 1]))
+}
+
 function annotateThesisRedundancy(store: RagStore, ragId: string): void {
   const { cosineThreshold, lexicalThreshold, novelSentenceThreshold } = getDedupConfig()
   const publicationChunks = store.chunks.filter(chunk => chunk.ragId === ragId && chunk.sourceRole === 'publication')
@@ -328,8 +406,8 @@ function annotateThesisRedundancy(store: RagStore, ragId: string): void {
       const lexical = lexicalOverlapScore(thesisChunk.text, publicationChunk.text)
       if (lexical < lexicalThreshold) continue
 
-      const cosine = thesisChunk.embedding && publicationChunk.embedding
-        ? cosineSimilarity(thesisChunk.embedding, publicationChunk.embedding)
+      const cosine = sameEmbeddingSpace(thesisChunk, publicationChunk)
+        ? cosineSimilarity(thesisChunk.embedding as number[], publicationChunk.embedding as number[])
         : 0
 
       if (cosine < cosineThreshold) continue
@@ -369,6 +447,7 @@ function normalizeDocument(raw: unknown): RagDocument | null {
   const sourceType = value.sourceType === 'crawl' ? 'crawl' : 'upload'
   const sourceRef = normalizeTextField(value.sourceRef)
   const documentCount = parseInteger(value.documentCount) || 0
+  const missingEmbeddings = parseInteger(value.missingEmbeddings)
 
   if (!id || !ragId || !fileName) return null
 
@@ -386,6 +465,7 @@ function normalizeDocument(raw: unknown): RagDocument | null {
     documentCount,
     sourceRole: normalizeSourceRole(value.sourceRole, inferredRole),
     metadata: normalizeMetadata(value.metadata),
+    missingEmbeddings: missingEmbeddings || undefined,
   }
 }
 
@@ -419,6 +499,7 @@ function normalizeChunk(raw: unknown, documentsById: Map<string, RagDocument>):
         .map(item => parseNumber(item))
         .filter((item): item is number => typeof item === 'number')
     : undefined
+  const embeddingModel = embedding?.length ? normalizeTextField(value.embeddingModel) : undefined
 
   return {
     id,
@@ -427,6 +508,8 @@ function normalizeChunk(raw: unknown, documentsById: Map<string, RagDocument>):
     text,
     textHash,
     embedding: embedding?.length ? embedding : undefined,
+    embeddingModel,
+    embeddingDim: embedding?.length || undefined,
     sourceName,
     chunkIndex,
     sourceRole,
@@ -480,6 +563,94 @@ async function writeStore(store: RagStore): Promise<void> {
   await writeJsonFileAtomic(RAG_STORE_PATH, store)
 }
 
+const jsonStorage = createJsonStorage({ read: readStore, write: writeStore })
+let activeStorage: RagStorageBackend | null = null
+
+function getStorage(): RagStorageBackend {
+  if (!activeStorage) {
+    activeStorage = getStorageBackendName() === 'json' ? jsonStorage : createSegmentedStorage(jsonStorage)
+  }
+  return activeStorage
+}
+
+function groupChunksByDocument(chunks: RagChunk[]): Map<string, RagChunk[]> {
+  const grouped = new Map<string, RagChunk[]>()
+  for (const chunk of chunks) {
+    const bucket = grouped.get(chunk.documentId)
+    if (bucket) {
+      bucket.push(chunk)
+    } else {
+      grouped.set(chunk.documentId, [chunk])
+    }
+  }
+  return grouped
+}
+
+/**
+ * Whether a chunk vector can be compared with vectors from `model`.
+ * Chunks embedded before models were recorded are accepted when the dimension matches.
+ */
+export function hasCompatibleEmbedding(chunk: RagChunk, model: string, dim?: number): boolean {
+  if (!chunk.embedding?.length) return false
+  if (chunk.embeddingModel && chunk.embeddingModel !== model) return false
+  return dim === undefined || chunk.embedding.length === dim
+}
+
+const embeddingMismatchWarnings = new Set<string>()
+
+function warnEmbeddingMismatch(ragId: string, model: string, count: number): void {
+  const key = `${ragId}|${model}|${count}`
+  if (embeddingMismatchWarnings.has(key)) return
+  embeddingMismatchWarnings.add(key)
+  console.warn(`[ragStore] ${ragId}: ${count} chunks were embedded with a model other than ${model}; dense scoring skips them until the rag is re-embedded`)
+}
+
+function sameEmbeddingSpace(a: RagChunk, b: RagChunk): boolean {
+  if (!a.embedding?.length || !b.embedding?.length || a.embedding.length !== b.embedding.length) return false
+  return !a.embeddingModel || !b.embeddingModel || a.embeddingModel === b.embeddingModel
+}
+
+type CorpusVersionFile = {
+  version: string
+  updatedAt: string
+}
+
+function corpusVersionPath(ragId: string): string {
+  return resolveDataPath('rag', 'index', `${sanitizeFileName(ragId)}.version.json`)
+}
+
+/**
+ * Opaque token that changes whenever documents of `ragId` are ingested, deleted, re-embedded or
+ * imported. Corpora not written since versioning was added report '0'.
+ */
+export async function getCorpusVersion(ragId: string): Promise<string> {
+  const filePath = corpusVersionPath(ragId)
+  const stored = await readJsonFileIfExists<CorpusVersionFile | null>(filePath, null)
+  return stored?.version || '0'
+}
+
+/**
+ * Rebuild the BM25 index, sync the ANN graph and bump the corpus version after a write to a rag_id.
+ */
+async function refreshRagIndexes(storage: RagStorageBackend, ragId: string): Promise<void> {
+  const chunks = await storage.scanChunks({ ragId })
+  await rebuildLexicalIndex(ragId, chunks)
+  await writeJsonFileAtomic(corpusVersionPath(ragId), {
+    version: `${Date.now().toString(36)}-${crypto.randomUUID().slice(0, 8)}`,
+    updatedAt: new Date().toISOString(),
+  } satisfies CorpusVersionFile)
+
+  const { enabled, minCandidates } = getAnnConfig()
+  if (enabled && chunks.length >= minCandidates) {
+    const model = getEmbeddingModel()
+    await syncVectorIndex(ragId, model, chunks.filter(chunk => hasCompatibleEmbedding(chunk, model)))
+  }
+}
+
+function redundancySignature(chunk: RagChunk): string {
+  return `${chunk.isRedundant ? 1 : 0}|${chunk.redundantOf || ''}|${chunk.redundancyScore ?? ''}`
+}
+
 function getChunkingConfig(sourceRole: RagSourceRole) {
   const defaultChunkSize = sourceRole === 'thesis' ? 1200 : sourceRole === 'publication' ? 900 : 900
   const defaultOverlap = sourceRole === 'thesis' ? 180 : sourceRole === 'publication' ? 140 : 150
@@ -500,12 +671,53 @@ function getChunkingConfig(sourceRole: RagSourceRole) {
   return {
     chunkSize: Number.isFinite(chunkSize) && chunkSize > 0 ? chunkSize : defaultChunkSize,
     overlap: Number.isFinite(overlap) && overlap >= 0 ? overlap : defaultOverlap,
+    mode: process.env.RAG_CHUNKING_MODE === 'fixed' ? 'fixed' as const : 'structured' as const,
   }
 }
 
+/**
+ * Write new documents (with their chunks) to a rag_id and refresh its indexes.
+ * Thesis redundancy depends on the whole publication set, so existing thesis chunks are re-annotated
+ * on copies and only the thesis documents whose flags changed are rewritten.
+ */
+async function writeWithThesisRedundancy(
+  storage: RagStorageBackend,
+  ragId: string,
+  incoming: Array<{ document: RagDocument; chunks: RagChunk[] }>,
+  removeDocumentIds: string[]
+): Promise<void> {
+  const existingDocuments = await storage.listDocuments(ragId)
+  const overwrittenDocIds = new Set([...removeDocumentIds, ...incoming.map(item => item.document.id)])
+
+  const previousSignatures = new Map<string, string>()
+  const existingChunks = (await storage.scanChunks({ ragId, sourceRoles: ['publication', 'thesis'] }))
+    .filter(chunk => !overwrittenDocIds.has(chunk.documentId))
+    .map(chunk => {
+      if (chunk.sourceRole !== 'thesis') return chunk
+      previousSignatures.set(chunk.id, redundancySignature(chunk))
+      return { ...chunk }
+    })
+  annotateThesisRedundancy({ documents: [], chunks: [...existingChunks, ...incoming.flatMap(item => item.chunks)] }, ragId)
+
+  const changedThesisChunks = groupChunksByDocument(existingChunks.filter(chunk => (
+    chunk.sourceRole === 'thesis' && previousSignatures.get(chunk.id) !== redundancySignature(chunk)
+  )))
+  const upsert: NonNullable<DocumentWrite['upsert']> = [...incoming]
+  for (const existing of existingDocuments) {
+    if (!changedThesisChunks.has(existing.id)) continue
+    upsert.push({
+      document: existing,
+      chunks: existingChunks.filter(chunk => chunk.documentId === existing.id),
+    })
+  }
+
+  await storage.writeDocuments(ragId, { upsert, removeDocumentIds })
+  await refreshRagIndexes(storage, ragId)
+}
+
 export async function listRagDocuments(ragId: string): Promise<RagDocument[]> {
-  const store = await readStore()
-  return store.documents.filter(doc => doc.ragId === ragId && doc.status !== 'deleted')
+  const documents = await getStorage().listDocuments(ragId)
+  return documents.filter(doc => doc.status !== 'deleted')
 }
 
 export async function ingestRagDocument(params: {
@@ -529,32 +741,47 @@ export async function ingestRagDocument(params: {
     metadata,
   } = params
 
-  const store = await readStore()
+  const storage = getStorage()
   const inferredSourceRole = inferSourceRole(fileName, sourceType)
   const finalSourceRole = normalizeSourceRole(sourceRole, inferredSourceRole)
   const finalMetadata = normalizeMetadata(metadata)
   const paperKey = resolvePaperKey(fileName, finalMetadata)
-  const { chunkSize, overlap } = getChunkingConfig(finalSourceRole)
+  const { chunkSize, overlap, mode } = getChunkingConfig(finalSourceRole)
 
-  const chunks = chunkText(text, chunkSize, overlap)
+  const chunks: StructuredChunk[] = mode === 'fixed'
+    ? chunkText(text.replace(/\f/g, '\n'), chunkSize, overlap).map(chunk => ({ text: chunk }))
+    : chunkStructuredText(text, chunkSize, overlap)
   const documentId = crypto.randomUUID()
 
+  const textHashes = chunks.map(chunk => getTextHash(chunk.text))
+  const { embeddings, stats } = await embedTexts(
+    chunks.map((chunk, chunkIndex) => ({ text: chunk.text, textHash: textHashes[chunkIndex] }))
+  )
+  if (stats.failed) {
+    console.warn(`[ragStore] ${fileName}: ${stats.failed}/${chunks.length} chunks have no embedding after retries`)
+  }
+
   const ragChunks: RagChunk[] = []
   for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
     const chunk = chunks[chunkIndex]
-    const embedding = await ollamaEmbedding(chunk)
+    const embedding = embeddings[chunkIndex]
     ragChunks.push({
       id: crypto.randomUUID(),
       ragId,
       documentId,
-      text: chunk,
-      textHash: getTextHash(chunk),
+      text: chunk.text,
+      textHash: textHashes[chunkIndex],
       embedding: embedding || undefined,
+      embeddingModel: embedding ? stats.model : undefined,
+      embeddingDim: embedding?.length,
       sourceName: fileName,
       chunkIndex,
       sourceRole: finalSourceRole,
       paperKey,
       documentTitle: finalMetadata?.title,
+      headingPath: chunk.headingPath,
+      pageStart: chunk.pageStart,
+      pageEnd: chunk.pageEnd,
       isRedundant: false,
     })
   }
@@ -571,46 +798,96 @@ export async function ingestRagDocument(params: {
     documentCount: chunks.length,
     sourceRole: finalSourceRole,
     metadata: finalMetadata,
+    missingEmbeddings: stats.failed || undefined,
   }
 
-  const replacedDocIds = new Set(
-    store.documents
-      .filter(doc => doc.ragId === ragId && doc.fileName === fileName)
-      .map(doc => doc.id)
-  )
-
-  store.documents = store.documents.filter(doc => !(doc.ragId === ragId && doc.fileName === fileName))
-  store.documents.push(document)
-  store.chunks = store.chunks.filter(chunk => !replacedDocIds.has(chunk.documentId))
-  store.chunks.push(...ragChunks)
-  annotateThesisRedundancy(store, ragId)
+  const replacedDocIds = (await storage.listDocuments(ragId))
+    .filter(doc => doc.fileName === fileName)
+    .map(doc => doc.id)
 
-  await writeStore(store)
+  await writeWithThesisRedundancy(storage, ragId, [{ document, chunks: ragChunks }], replacedDocIds)
 
   return document
 }
 
 export async function deleteRagDocuments(ragId: string, documentNames: string[]): Promise<number> {
-  const store = await readStore()
+  const storage = getStorage()
   const names = new Set(documentNames)
 
-  const docIdsToDelete = store.documents
-    .filter(doc => doc.ragId === ragId && names.has(doc.fileName))
-    .map(doc => doc.id)
+  const docsToDelete = (await storage.listDocuments(ragId)).filter(doc => names.has(doc.fileName))
 
-  const docIdSet = new Set(docIdsToDelete)
+  await storage.writeDocuments(ragId, {
+    upsert: docsToDelete.map(doc => ({
+      document: { ...doc, status: 'deleted' as const },
+      chunks: [],
+    })),
+  })
+  await refreshRagIndexes(storage, ragId)
+  return docsToDelete.length
+}
 
-  store.documents = store.documents.map(doc => {
-    if (docIdSet.has(doc.id)) {
-      return { ...doc, status: 'deleted' as const }
+/**
+ * Re-embed every chunk of a rag_id that is missing a vector or carries one from another model.
+ * Documents are rewritten one at a time so retrieval keeps working (lexically) on the rest, and an
+ * interrupted run resumes where it left off because finished documents are skipped.
+ */
+export async function reembedRag(params: {
+  ragId: string
+  model?: string
+  onProgress?: (progress: ReembedProgress) => Promise<void> | void
+}): Promise<ReembedProgress> {
+  const { ragId, onProgress } = params
+  const model = params.model || getEmbeddingModel()
+  const storage = getStorage()
+  const documents = (await storage.listDocuments(ragId)).filter(doc => doc.status !== 'deleted')
+  const progress: ReembedProgress = {
+    totalDocuments: documents.length,
+    processedDocuments: 0,
+    reembeddedChunks: 0,
+    cachedChunks: 0,
+    failedChunks: 0,
+  }
+  await onProgress?.({ ...progress })
+
+  for (const document of documents) {
+    const chunks = await storage.scanChunks({ ragId, documentNames: [document.fileName] })
+    const ownChunks = chunks.filter(chunk => chunk.documentId === document.id)
+    const stale = ownChunks.filter(chunk => !chunk.embedding?.length || chunk.embeddingModel !== model)
+
+    if (stale.length) {
+      const { embeddings, stats } = await embedTexts(
+        stale.map(chunk => ({ text: chunk.text, textHash: chunk.textHash || getTextHash(chunk.text) })),
+        { model }
+      )
+      const updated = new Map<string, RagChunk>()
+      stale.forEach((chunk, index) => {
+        const embedding = embeddings[index]
+        if (!embedding) return
+        updated.set(chunk.id, { ...chunk, embedding, embeddingModel: model, embeddingDim: embedding.length })
+      })
+
+      const missingEmbeddings = ownChunks.filter(chunk => {
+        const next = updated.get(chunk.id) || chunk
+        return !next.embedding?.length || next.embeddingModel !== model
+      }).length
+      await storage.writeDocuments(ragId, {
+        upsert: [{
+          document: { ...document, missingEmbeddings: missingEmbeddings || undefined },
+          chunks: ownChunks.map(chunk => updated.get(chunk.id) || chunk),
+        }],
+      })
+
+      progress.reembeddedChunks += stats.embedded
+      progress.cachedChunks += stats.cached
+      progress.failedChunks += stats.failed
     }
-    return doc
-  })
 
-  store.chunks = store.chunks.filter(chunk => !docIdSet.has(chunk.documentId))
+    progress.processedDocuments += 1
+    await onProgress?.({ ...progress })
+  }
 
-  await writeStore(store)
-  return docIdsToDelete.length
+  await refreshRagIndexes(storage, ragId)
+  return progress
 }
 
 export async function retrieveRelevantChunks(params: {
@@ -621,8 +898,12 @@ export async function retrieveRelevantChunks(params: {
   includeDocumentNames?: string[]
   excludeRedundant?: boolean
   maxChunksPerDocument?: number
+  hybrid?: HybridRetrievalOptions
+  onScores?: (trace: RetrievalScoreTrace) => void
+  /** Aborts the query embedding; retrieval then throws instead of falling back to BM25 alone. */
+  signal?: AbortSignal
 }): Promise<RagChunk[]> {
-  const { ragId, query } = params
+  const { ragId, query, onScores, signal } = params
   const topK = params.topK ?? DEFAULT_RAG_TOP_K
   const includeSourceRoles = Array.isArray(params.includeSourceRoles)
     ? params.includeSourceRoles
@@ -635,10 +916,10 @@ export async function retrieveRelevantChunks(params: {
     ? Math.floor(params.maxChunksPerDocument)
     : undefined
 
-  const store = await readStore()
+  const ragChunks = await getStorage().scanChunks({ ragId })
   const roleFilter = includeSourceRoles.length ? new Set(includeSourceRoles) : null
   const nameFilter = includeDocumentNames.length ? new Set(includeDocumentNames) : null
-  let candidates = store.chunks.filter(chunk => chunk.ragId === ragId)
+  let candidates = ragChunks
   if (roleFilter) {
     candidates = candidates.filter(chunk => roleFilter.has(chunk.sourceRole))
   }
@@ -649,39 +930,208 @@ export async function retrieveRelevantChunks(params: {
     candidates = candidates.filter(chunk => !chunk.isRedundant)
   }
 
-  if (!candidates.length) return []
+  if (!candidates.length) {
+    onScores?.({
+      fusion: getHybridConfig(params.hybrid).fusion,
+      query_embedded: false,
+      scanned_chunks: ragChunks.length,
+      candidate_chunks: 0,
+      candidates: [],
+    })
+    return []
+  }
+
+  const { fusion, denseWeight, lexicalWeight, rrfK } = getHybridConfig(params.hybrid)
+  const embeddingModel = getEmbeddingModel()
+  const queryEmbedding = await ollamaEmbedding(query, embeddingModel, signal)
+  const lexicalIndex = await getLexicalIndex(ragId, ragChunks)
+  const candidateIds = new Set(candidates.map(chunk => chunk.id))
+  const lexicalScores = scoreBm25(lexicalIndex, query, candidateIds)
+
+  const denseScores = new Map<string, number>()
+  if (queryEmbedding) {
+    // Vectors from another model (or dimension) are not comparable; those chunks rank on BM25 alone.
+    const dim = queryEmbedding.length
+    const comparableChunks = ragChunks.filter(chunk => hasCompatibleEmbedding(chunk, embeddingModel, dim))
+    const mismatched = ragChunks.filter(chunk => chunk.embedding?.length).length - comparableChunks.length
+    if (mismatched > 0) warnEmbeddingMismatch(ragId, embeddingModel, mismatched)
+
+    const ann = getAnnConfig()
+    const vectorIndex = ann.enabled && candidates.length >= ann.minCandidates
+      ? await syncVectorIndex(ragId, embeddingModel, comparableChunks)
+      : null
+    // ANN only scores the nearest slice of the pool; chunks outside it get no dense contribution.
+    const hits = vectorIndex
+      ? searchVectorIndex(vectorIndex, queryEmbedding, Math.max(200, topK * 20), chunkId => candidateIds.has(chunkId))
+      : null
+
+    if (hits) {
+      for (const hit of hits) denseScores.set(hit.chunkId, hit.score)
+    } else {
+      for (const chunk of candidates) {
+        if (!hasCompatibleEmbedding(chunk, embeddingModel, dim)) continue
+        denseScores.set(chunk.id, cosineSimilarity(queryEmbedding, chunk.embedding as number[]))
+      }
+    }
+  }
 
-  const queryEmbedding = await ollamaEmbedding(query)
+  const denseRanks = rankPositions(denseScores)
+  const lexicalRanks = rankPositions(lexicalScores)
+  const maxLexical = Math.max(0, ...lexicalScores.values())
+  const redundantPenalty = getRedundantThesisPenalty()
 
   const ranked = candidates
     .map(chunk => {
-      let score = queryEmbedding && chunk.embedding
-        ? cosineSimilarity(queryEmbedding, chunk.embedding)
-        : keywordScore(query, chunk.text)
-
-      if (chunk.sourceRole === 'thesis' && chunk.isRedundant && chunk.redundantOf) {
-        score -= getRedundantThesisPenalty()
+      let score: number
+      const isPenalized = chunk.sourceRole === 'thesis' && chunk.isRedundant && chunk.redundantOf
+
+      if (fusion === 'rrf') {
+        // RRF ignores raw score scales, so a chunk missing from one list simply gets no contribution from it.
+        const denseRank = denseRanks.get(chunk.id)
+        const lexicalRank = lexicalRanks.get(chunk.id)
+        score = (denseRank ? denseWeight / (rrfK + denseRank) : 0)
+          + (lexicalRank ? lexicalWeight / (rrfK + lexicalRank) : 0)
+        if (isPenalized) score *= 1 - redundantPenalty
+      } else {
+        const dense = clamp01(denseScores.get(chunk.id) ?? 0)
+        const lexical = maxLexical > 0 ? (lexicalScores.get(chunk.id) || 0) / maxLexical : 0
+        const effectiveDenseWeight = denseScores.size ? denseWeight : 0
+        const totalWeight = effectiveDenseWeight + lexicalWeight
+        score = totalWeight > 0 ? (effectiveDenseWeight * dense + lexicalWeight * lexical) / totalWeight : 0
+        if (isPenalized) score -= redundantPenalty
       }
 
-      return { chunk, score }
+      return { chunk, score, penalty: isPenalized ? redundantPenalty : 0 }
     })
     .sort((a, b) => b.score - a.score)
 
   const boundedTopK = Math.max(1, topK)
+  const selected: RagChunk[] = []
+  const droppedByCap = new Set<string>()
+
   if (!maxChunksPerDocument) {
-    return ranked.slice(0, boundedTopK).map(item => item.chunk)
+    selected.push(...ranked.slice(0, boundedTopK).map(item => item.chunk))
+  } else {
+    const perDocumentCount = new Map<string, number>()
+    for (const item of ranked) {
+      if (selected.length >= boundedTopK) break
+      const count = perDocumentCount.get(item.chunk.documentId) || 0
+      if (count >= maxChunksPerDocument) {
+        droppedByCap.add(item.chunk.id)
+        continue
+      }
+      selected.push(item.chunk)
+      perDocumentCount.set(item.chunk.documentId, count + 1)
+    }
   }
 
-  const selected: RagChunk[] = []
-  const perDocumentCount = new Map<string, number>()
-
-  for (const item of ranked) {
-    if (selected.length >= boundedTopK) break
-    const count = perDocumentCount.get(item.chunk.documentId) || 0
-    if (count >= maxChunksPerDocument) continue
-    selected.push(item.chunk)
-    perDocumentCount.set(item.chunk.documentId, count + 1)
+  if (onScores) {
+    const selectedIds = new Set(selected.map(chunk => chunk.id))
+    onScores({
+      fusion,
+      query_embedded: Boolean(queryEmbedding),
+      scanned_chunks: ragChunks.length,
+      candidate_chunks: candidates.length,
+      candidates: ranked.map(({ chunk, score, penalty }) => ({
+        chunk_id: chunk.id,
+        document: chunk.sourceName,
+        source_role: chunk.sourceRole,
+        dense: denseScores.get(chunk.id) ?? null,
+        lexical: lexicalScores.has(chunk.id) ? lexicalScores.get(chunk.id) as number : null,
+        redundancy_penalty: penalty,
+        score,
+        selected: selectedIds.has(chunk.id),
+        dropped_by: selectedIds.has(chunk.id)
+          ? undefined
+          : droppedByCap.has(chunk.id) ? 'max_chunks_per_document' : 'top_k',
+      })),
+    })
   }
 
   return selected
 }
+
+/**
+ * Export documents and chunks in the store.json format, for one rag_id or all of them.
+ */
+export async function exportRagSnapshot(ragId?: string): Promise<RagStore> {
+  const storage = getStorage()
+  const ragIds = ragId ? [ragId] : await storage.listRagIds()
+  const snapshot: RagStore = { documents: [], chunks: [] }
+
+  for (const id of ragIds) {
+    snapshot.documents.push(...await storage.listDocuments(id))
+    snapshot.chunks.push(...await storage.scanChunks({ ragId: id }))
+  }
+
+  return snapshot
+}
+
+/**
+ * Parse a store.json-format payload, dropping malformed records and chunks whose document is missing.
+ */
+export function normalizeRagSnapshot(raw: unknown): RagStore {
+  const payload = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof RagStore, unknown>>
+  const documents = Array.isArray(payload.documents)
+    ? payload.documents
+        .map(item => normalizeDocument(item))
+        .filter((item): item is RagDocument => Boolean(item))
+    : []
+  const docById = new Map(documents.map(doc => [doc.id, doc]))
+  const chunks = Array.isArray(payload.chunks)
+    ? payload.chunks
+        .map(item => normalizeChunk(item, docById))
+        .filter((item): item is RagChunk => Boolean(item) && docById.has((item as RagChunk).documentId))
+    : []
+
+  return { documents, chunks }
+}
+
+/**
+ * Import a store.json-format payload. `merge` upserts by document id; `replace` also drops
+ * documents of the imported rag_ids that are not in the payload.
+ */
+export async function importRagSnapshot(
+  raw: unknown,
+  options: { mode?: 'merge' | 'replace' } = {}
+): Promise<{ ragIds: string[]; documents: number; chunks: number }> {
+  const { documents, chunks } = normalizeRagSnapshot(raw)
+  const storage = getStorage()
+  const chunksByDocument = groupChunksByDocument(chunks)
+  const ragIds = Array.from(new Set(documents.map(doc => doc.ragId)))
+
+  for (const ragId of ragIds) {
+    const incoming = documents.filter(doc => doc.ragId === ragId)
+    const incomingIds = new Set(incoming.map(doc => doc.id))
+    const removeDocumentIds = options.mode === 'replace'
+      ? (await storage.listDocuments(ragId)).filter(doc => !incomingIds.has(doc.id)).map(doc => doc.id)
+      : []
+
+    await storage.writeDocuments(ragId, {
+      upsert: incoming.map(document => ({ document, chunks: chunksByDocument.get(document.id) || [] })),
+      removeDocumentIds,
+    })
+    await refreshRagIndexes(storage, ragId)
+  }
+
+  return { ragIds, documents: documents.length, chunks: chunks.length }
+}
+
+/**
+ * Apply an archive import or snapshot restore to one rag_id.
+ * With `reannotate`, thesis redundancy is recomputed against the documents that stay in the rag_id;
+ * without it the incoming chunks keep their annotations (the rag_id holds exactly the archived corpus).
+ */
+export async function writeArchivedDocuments(
+  ragId: string,
+  change: { upsert: Array<{ document: RagDocument; chunks: RagChunk[] }>; removeDocumentIds: string[]; reannotate: boolean }
+): Promise<void> {
+  const storage = getStorage()
+  if (change.reannotate) {
+    await writeWithThesisRedundancy(storage, ragId, change.upsert, change.removeDocumentIds)
+    return
+  }
+
+  await storage.writeDocuments(ragId, { upsert: change.upsert, removeDocumentIds: change.removeDocumentIds })
+  await refreshRagIndexes(storage, ragId)
+}
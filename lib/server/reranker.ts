@@ -0,0 +1,169 @@
+/**
+ * Second-stage reranking for retrieved chunks.
+ * Responsibilities:
+ * - Keep a registry of named rerankers (LLM relevance judge, local lexical coverage).
+ * - Rescore a larger candidate pool and return the reordered top-K.
+ * - Report what the stage did so it shows up in retrieval notes.
+ */
+
+import parseLLMJson from '@/lib/jsonParser'
+import { tokenizeForIndex } from '@/lib/server/lexicalIndex'
+import { ollamaChat } from '@/lib/server/ollama'
+import type { RagChunk } from '@/lib/server/ragStore'
+
+export type RerankScore = {
+  chunk: RagChunk
+  score: number
+}
+
+export type Reranker = (query: string, chunks: RagChunk[], signal?: AbortSignal) => Promise<RerankScore[]>
+
+export type RerankResult = {
+  chunks: RagChunk[]
+  note: string
+}
+
+const rerankers = new Map<string, Reranker>()
+
+export function registerReranker(name: string, reranker: Reranker): void {
+  rerankers.set(name.trim().toLowerCase(), reranker)
+}
+
+export function listRerankers(): string[] {
+  return Array.from(rerankers.keys())
+}
+
+export function getRerankConfig() {
+  const strategy = (process.env.RAG_RERANK_STRATEGY || 'none').trim().toLowerCase()
+  const poolMultiplier = Number.parseInt(process.env.RAG_RERANK_POOL_MULTIPLIER || '3', 10)
+  const maxCandidates = Number.parseInt(process.env.RAG_RERANK_MAX_CANDIDATES || '24', 10)
+  const passageChars = Number.parseInt(process.env.RAG_RERANK_PASSAGE_CHARS || '700', 10)
+
+  return {
+    strategy,
+    poolMultiplier: Number.isFinite(poolMultiplier) && poolMultiplier >= 1 ? poolMultiplier : 3,
+    maxCandidates: Number.isFinite(maxCandidates) && maxCandidates > 0 ? maxCandidates : 24,
+    passageChars: Number.isFinite(passageChars) && passageChars > 0 ? passageChars : 700,
+  }
+}
+
+/**
+ * Map a per-request toggle to a registered strategy.
+ * `true` picks the configured default (or `llm` when reranking is off by default); `false`/`none` disables it.
+ */
+export function resolveRerankStrategy(value: unknown): string | null {
+  const { strategy } = getRerankConfig()
+  const configured = strategy !== 'none' && rerankers.has(strategy) ? strategy : null
+
+  if (value === undefined || value === null) return configured
+  if (value === false) return null
+  if (value === true) return configured || 'llm'
+  if (typeof value === 'string') {
+    const name = value.trim().toLowerCase()
+    if (!name || name === 'none') return null
+    return rerankers.has(name) ? name : configured
+  }
+  return configured
+}
+
+export function getRerankPoolSize(topK: number): number {
+  const { poolMultiplier, maxCandidates } = getRerankConfig()
+  return Math.max(topK, Math.min(maxCandidates, topK * poolMultiplier))
+}
+
+function buildJudgePrompt(query: string, chunks: RagChunk[]): string {
+  const { passageChars } = getRerankConfig()
+  const passages = chunks.map((chunk, index) => {
+    const label = chunk.documentTitle || chunk.sourceName
+    return `[${index + 1}] (${label})\n${chunk.text.slice(0, passageChars)}`
+  })
+
+  return [
+    'Rate how useful each passage is for answering the question.',
+    'Score 0 (irrelevant) to 10 (directly answers it with specific evidence).',
+    'Return only JSON: {"scores":[{"id":1,"score":7}]} with one entry per passage.',
+    '',
+    `Question: ${query}`,
+    '',
+    'Passages:',
+    passages.join('\n\n'),
+  ].join('\n')
+}
+
+const llmReranker: Reranker = async (query, chunks, signal) => {
+  const completion = await ollamaChat(
+    [
+      { role: 'system', content: 'You are a retrieval relevance judge. Return only valid JSON.' },
+      { role: 'user', content: buildJudgePrompt(query, chunks) },
+    ],
+    { temperature: 0, signal }
+  )
+
+  const parsed = parseLLMJson(completion)
+  const entries = Array.isArray(parsed?.scores) ? parsed.scores : Array.isArray(parsed) ? parsed : null
+  if (!entries) {
+    throw new Error('relevance judge returned no scores')
+  }
+
+  const judged = new Map<number, number>()
+  for (const entry of entries) {
+    const id = Number.parseInt(String(entry?.id ?? ''), 10)
+    const score = Number.parseFloat(String(entry?.score ?? ''))
+    if (Number.isFinite(id) && Number.isFinite(score)) judged.set(id, score)
+  }
+
+  // Passages the judge skipped sink below every scored passage but keep their retrieval order.
+  return chunks.map((chunk, index) => ({ chunk, score: judged.get(index + 1) ?? -1 }))
+}
+
+const lexicalReranker: Reranker = async (query, chunks) => {
+  const queryTerms = Array.from(new Set(tokenizeForIndex(query)))
+  const queryText = query.toLowerCase().replace(/\s+/g, ' ').trim()
+
+  return chunks.map(chunk => {
+    if (!queryTerms.length) return { chunk, score: 0 }
+    const chunkTerms = new Set(tokenizeForIndex(chunk.text))
+    const coverage = queryTerms.filter(term => chunkTerms.has(term)).length / queryTerms.length
+    const phraseBonus = queryText.length > 8 && chunk.text.toLowerCase().includes(queryText) ? 0.5 : 0
+    return { chunk, score: coverage + phraseBonus }
+  })
+}
+
+registerReranker('llm', llmReranker)
+registerReranker('lexical', lexicalReranker)
+
+export async function rerankChunks(params: {
+  query: string
+  chunks: RagChunk[]
+  topK: number
+  strategy: string
+  signal?: AbortSignal
+}): Promise<RerankResult> {
+  const { query, chunks, strategy, signal } = params
+  const topK = Math.max(1, params.topK)
+  const reranker = rerankers.get(strategy)
+  const baseline = chunks.slice(0, topK)
+
+  if (!reranker || chunks.length <= 1) {
+    return { chunks: baseline, note: `rerank=${strategy} skipped (pool=${chunks.length})` }
+  }
+
+  try {
+    const scored = await reranker(query, chunks, signal)
+    // Array.prototype.sort is stable, so ties keep the first-stage order.
+    const reordered = [...scored].sort((a, b) => b.score - a.score).map(item => item.chunk).slice(0, topK)
+    const baselineIds = new Set(baseline.map(chunk => chunk.id))
+    const promoted = reordered.filter(chunk => !baselineIds.has(chunk.id)).length
+
+    return {
+      chunks: reordered,
+      note: `rerank=${strategy} pool=${chunks.length} kept=${reordered.length} promoted=${promoted}`,
+    }
+  } catch (error) {
+    // A cancelled or timed-out request must not fall back to the retrieval order.
+    if (signal?.aborted) throw error
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    console.warn(`[reranker] ${strategy} rerank failed: ${reason}`)
+    return { chunks: baseline, note: `rerank=${strategy} failed (${reason}); kept retrieval order` }
+  }
+}
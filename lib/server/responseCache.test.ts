@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { after, before, beforeEach, describe, it } from 'node:test'
+import type { AgentExecutionInput } from '@/lib/server/agentRuntime'
+
+type ResponseCacheModule = typeof import('@/lib/server/responseCache')
+
+let responseCache: ResponseCacheModule
+let dataDir: string
+let chatCalls = 0
+let chatReply: Record<string, unknown>
+let embedDelayMs = 0
+
+const RAG_ID = 'cache-test'
+
+const VALID_REPLY = {
+  response_text: 'SANTA aligns structured data with text.',
+  key_points: [],
+  limitations: [],
+  next_steps: [],
+  citations: [],
+  suggested_followups: [],
+}
+
+// Every query embeds to the same vector, so only routing and parameters can keep paraphrases apart.
+async function mockFetch(url: string | URL | Request): Promise<Response> {
+  if (String(url).includes('/api/embed')) {
+    if (embedDelayMs) await new Promise(resolve => setTimeout(resolve, embedDelayMs))
+    return new Response(JSON.stringify({ embeddings: [[0.3, 0.4, 0.5]] }), { status: 200 })
+  }
+  chatCalls += 1
+  return new Response(JSON.stringify({ message: { content: JSON.stringify(chatReply) } }), { status: 200 })
+}
+
+async function ask(message: string, extra: Partial<AgentExecutionInput> = {}) {
+  return responseCache.executeAgentCached({
+    message,
+    agent_id: 'default',
+    user_id: 'tester',
+    session_id: 'cache-test',
+    useConversationMemory: false,
+    rag_id: RAG_ID,
+    ...extra,
+  })
+}
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'response-cache-test-'))
+  process.env.DATA_DIR = dataDir
+  process.env.RESPONSE_CACHE_SEMANTIC_THRESHOLD = '0.95'
+  process.env.GROUNDING_VERIFY_ENABLED = 'false'
+  globalThis.fetch = mockFetch as typeof fetch
+  responseCache = await import('@/lib/server/responseCache')
+
+  // Two papers the router can recognise by name.
+  const ragStore = await import('@/lib/server/ragStore')
+  const papers = ['SANTA', 'ROSITA']
+  const { documents, chunks } = ragStore.normalizeRagSnapshot({
+    documents: papers.map(name => ({ id: name, ragId: RAG_ID, fileName: `${name}.txt`, status: 'active' })),
+    chunks: papers.map(name => ({
+      id: `${name}-c0`,
+      ragId: RAG_ID,
+      documentId: name,
+      sourceName: `${name}.txt`,
+      text: `${name} is a retrieval method for structured data.`,
+      embedding: [0.3, 0.4, 0.5],
+      embeddingModel: 'nomic-embed-text',
+    })),
+  })
+  await ragStore.writeArchivedDocuments(RAG_ID, {
+    upsert: documents.map(document => ({ document, chunks: chunks.filter(chunk => chunk.documentId === document.id) })),
+    removeDocumentIds: [],
+    reannotate: false,
+  })
+})
+
+beforeEach(async () => {
+  await fs.rm(path.join(dataDir, 'cache'), { recursive: true, force: true })
+  chatCalls = 0
+  chatReply = VALID_REPLY
+  embedDelayMs = 0
+})
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+describe('normalizeCacheQuery', () => {
+  it('ignores case, spacing and trailing punctuation', () => {
+    assert.equal(responseCache.normalizeCacheQuery('  What is   SANTA ?! '), 'what is santa')
+  })
+})
+
+describe('executeAgentCached', () => {
+  it('serves a normalized repeat as an exact hit', async () => {
+    const first = await ask('What is SANTA?')
+    assert.equal(first.metadata.cache?.hit, false)
+    const calls = chatCalls
+
+    const second = await ask('what is  santa')
+    assert.equal(second.metadata.cache?.hit, true)
+    assert.equal(second.metadata.cache?.match, 'exact')
+    assert.equal(second.result.response_text, first.result.response_text)
+    assert.equal(chatCalls, calls)
+  })
+
+  it('matches paraphrases semantically only when they route alike', async () => {
+    await ask('What is SANTA?')
+
+    const paraphrase = await ask('Can you explain what SANTA is?')
+    assert.equal(paraphrase.metadata.cache?.hit, true)
+    assert.equal(paraphrase.metadata.cache?.match, 'semantic')
+
+    const otherPaper = await ask('What is ROSITA?')
+    assert.equal(otherPaper.metadata.cache?.hit, false)
+  })
+
+  it('keys answers on generation parameters and honours cache: false', async () => {
+    await ask('What is SANTA?')
+    assert.equal((await ask('What is SANTA?', { temperature: 1.5 })).metadata.cache?.hit, false)
+
+    const calls = chatCalls
+    const bypassed = await ask('What is SANTA?', { useResponseCache: false })
+    assert.equal(bypassed.metadata.cache, undefined)
+    assert.ok(chatCalls > calls)
+  })
+
+  it('does not store answers with schema errors', async () => {
+    chatReply = { response_text: 'SANTA aligns structured data with text.' }
+    const first = await ask('What is SANTA?')
+    assert.ok(first.metadata.schema_errors.length > 0)
+    assert.equal((await ask('What is SANTA?')).metadata.cache?.hit, false)
+  })
+  it('does not store answers whose grounding check was skipped', async () => {
+    process.env.GROUNDING_VERIFY_ENABLED = 'true'
+    process.env.AGENT_GROUNDING_TIMEOUT_MS = '5'
+    embedDelayMs = 50
+    // A cited claim makes the verifier embed it, which now outlasts the grounding timeout.
+    chatReply = { ...VALID_REPLY, response_text: 'SANTA aligns structured data with text [P1] [S1].' }
+    try {
+      const first = await ask('What is SANTA?')
+      assert.equal(first.metadata.grounding, null)
+      assert.ok(first.metadata.retrieval_notes.some(note => note.startsWith('grounding verification skipped')))
+      assert.equal((await ask('What is SANTA?')).metadata.cache?.hit, false)
+    } finally {
+      process.env.GROUNDING_VERIFY_ENABLED = 'false'
+      delete process.env.AGENT_GROUNDING_TIMEOUT_MS
+    }
+  })
+})
@@ -0,0 +1,349 @@
+/**
+ * Agent response cache.
+ * Responsibilities:
+ * - Serve repeated questions without retrieval or generation, keyed on normalized query, agent profile,
+ *   model and generation parameters, per rag_id.
+ * - Match paraphrases by query-embedding similarity above RESPONSE_CACHE_SEMANTIC_THRESHOLD, provided
+ *   they route to the same intent and mentioned documents.
+ * - Drop a rag_id's entries once its corpus version (bumped by every ragStore write) changes.
+ * - Mark hits in response metadata and keep conversation memory in step with cached answers.
+ * - Count hits in memory and fold them into the file on the next store, so hits never rewrite it.
+ * - Store only complete answers: schema failures and skipped grounding checks are not cached.
+ */
+
+import { DEFAULT_RAG_ID } from '@/lib/config/env'
+import { resolveAgentProfile } from '@/lib/server/agentProfiles'
+import {
+  detectQueryRoute,
+  executeAgent,
+  type AgentExecutionHooks,
+  type AgentExecutionInput,
+  type AgentExecutionOutput,
+  type AgentRetrievalEvent,
+} from '@/lib/server/agentRuntime'
+import { appendConversationTurns, getConversationContext } from '@/lib/server/conversationStore'
+import { getGroundingConfig } from '@/lib/server/groundingVerifier'
+import { readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { getDefaultChatProviderName } from '@/lib/server/llmProviders'
+import { getChatModel, getEmbeddingModel, ollamaEmbedding } from '@/lib/server/ollama'
+import { getCorpusVersion } from '@/lib/server/ragStore'
+import { resolveFallbackRagId } from '@/lib/server/tenants'
+import { cosineSimilarity, sanitizeFileName } from '@/lib/server/text'
+import { createHash } from 'crypto'
+
+type QueryRoute = Awaited<ReturnType<typeof detectQueryRoute>>
+
+type ResponseCacheEntry = {
+  /** Hash of the normalized query plus `params_key`; exact hits compare this. */
+  key: string
+  params_key: string
+  query: string
+  embedding: number[] | null
+  embedding_model: string
+  /** Intent and mentioned documents of the query; semantic hits must route the same way. */
+  route: QueryRoute | null
+  response: AgentExecutionOutput
+  retrieval: AgentRetrievalEvent | null
+  created_at: string
+  last_hit_at: string | null
+  hits: number
+}
+
+type ResponseCacheFile = {
+  rag_id: string
+  corpus_version: string
+  entries: ResponseCacheEntry[]
+}
+
+type HitStats = { hits: number; last_hit_at: string }
+
+const globalResponseCache = globalThis as typeof globalThis & {
+  /** Hits not yet written to disk, keyed by rag_id then entry key. */
+  __researchTwinResponseCacheHits?: Map<string, Map<string, HitStats>>
+}
+
+const pendingHits = globalResponseCache.__researchTwinResponseCacheHits ?? new Map<string, Map<string, HitStats>>()
+globalResponseCache.__researchTwinResponseCacheHits = pendingHits
+
+export function getResponseCacheConfig() {
+  const ttlMs = Number.parseInt(process.env.RESPONSE_CACHE_TTL_MS || '86400000', 10)
+  const maxEntries = Number.parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES || '200', 10)
+  const threshold = Number.parseFloat(process.env.RESPONSE_CACHE_SEMANTIC_THRESHOLD || '0.95')
+
+  return {
+    enabled: (process.env.RESPONSE_CACHE_ENABLED || 'true').trim().toLowerCase() !== 'false',
+    ttlMs: Number.isFinite(ttlMs) && ttlMs > 0 ? ttlMs : 86_400_000,
+    maxEntries: Number.isFinite(maxEntries) && maxEntries > 0 ? maxEntries : 200,
+    // 0 turns semantic matching off; only exact (normalized) repeats hit.
+    semanticThreshold: Number.isFinite(threshold) && threshold >= 0 && threshold <= 1 ? threshold : 0.95,
+  }
+}
+
+function cachePath(ragId: string): string {
+  return resolveDataPath('cache', 'responses', `${sanitizeFileName(ragId)}.json`)
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+export function normalizeCacheQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.]+$/, '')
+    .trim()
+}
+
+/**
+ * Everything besides the query and corpus that shapes the answer. The profile version is included
+ * so persona or catalog edits miss the cache.
+ */
+async function buildParamsKey(input: AgentExecutionInput): Promise<string> {
+  const profile = await resolveAgentProfile(input.agent_id, input.tenant_id)
+  const provider = input.provider ?? profile.model.provider ?? getDefaultChatProviderName()
+
+  return hash(JSON.stringify({
+    agent: `${profile.agent_id}@${profile.version}`,
+    provider,
+    model: input.chatModel ?? profile.model.chat_model ?? getChatModel(provider),
+    temperature: input.temperature ?? profile.model.temperature ?? null,
+    top_p: input.topP ?? profile.model.top_p ?? null,
+    top_k: input.topK ?? null,
+    max_tokens: input.maxTokens ?? null,
+    intent: input.intent ?? null,
+    source_roles: input.sourceRoles ?? null,
+    max_chunks_per_document: input.maxChunksPerDocument ?? null,
+    retrieval_fusion: input.retrievalFusion ?? null,
+    rerank: input.rerank ?? null,
+  }))
+}
+
+/**
+ * Version of the corpus the answer would be drawn from: the rag_id itself plus its empty-corpus
+ * fallback, since retrieveIntentContext may answer from either.
+ */
+async function resolveCorpusVersion(input: AgentExecutionInput): Promise<{ ragId: string; version: string }> {
+  const ragId = input.rag_id || (await resolveAgentProfile(input.agent_id, input.tenant_id)).default_rag_id || DEFAULT_RAG_ID
+  const fallbackRagId = await resolveFallbackRagId(ragId)
+  const versions = [await getCorpusVersion(ragId)]
+  if (fallbackRagId) versions.push(await getCorpusVersion(fallbackRagId))
+  return { ragId, version: versions.join('+') }
+}
+
+async function readCacheFile(ragId: string, corpusVersion: string): Promise<ResponseCacheFile> {
+  const empty: ResponseCacheFile = { rag_id: ragId, corpus_version: corpusVersion, entries: [] }
+  const stored = await readJsonFileIfExists<ResponseCacheFile | null>(cachePath(ragId), null)
+  // Entries from another corpus version are stale; the next write replaces them.
+  if (!stored || stored.corpus_version !== corpusVersion || !Array.isArray(stored.entries)) return empty
+
+  const { ttlMs } = getResponseCacheConfig()
+  const now = Date.now()
+  return { ...stored, entries: stored.entries.filter(entry => now - Date.parse(entry.created_at) <= ttlMs) }
+}
+
+function sameRoute(a: QueryRoute, b: QueryRoute): boolean {
+  return a.intent === b.intent && a.documents.join('\n') === b.documents.join('\n')
+}
+
+/**
+ * Exact key match first. Otherwise the most similar entry above the threshold, but only among
+ * entries routed like this query: paraphrases that name another paper ("What is SANTA?" vs
+ * "What is ROSITA?") embed closely yet need different evidence.
+ */
+function findEntry(
+  file: ResponseCacheFile,
+  key: string,
+  paramsKey: string,
+  semantic: { embedding: number[]; route: QueryRoute } | null,
+  embeddingModel: string
+): { entry: ResponseCacheEntry; match: 'exact' | 'semantic'; similarity: number | null } | null {
+  const exact = file.entries.find(entry => entry.key === key)
+  if (exact) return { entry: exact, match: 'exact', similarity: null }
+
+  const { semanticThreshold } = getResponseCacheConfig()
+  if (!semantic || semanticThreshold <= 0) return null
+  const { embedding, route } = semantic
+
+  let best: { entry: ResponseCacheEntry; similarity: number } | null = null
+  for (const entry of file.entries) {
+    if (entry.params_key !== paramsKey || entry.embedding_model !== embeddingModel) continue
+    if (!entry.route || !sameRoute(entry.route, route)) continue
+    if (!entry.embedding || entry.embedding.length !== embedding.length) continue
+    const similarity = cosineSimilarity(embedding, entry.embedding)
+    if (similarity >= semanticThreshold && (!best || similarity > best.similarity)) best = { entry, similarity }
+  }
+
+  return best ? { entry: best.entry, match: 'semantic', similarity: Math.round(best.similarity * 1000) / 1000 } : null
+}
+
+function recordHit(ragId: string, entry: ResponseCacheEntry): void {
+  const hits = pendingHits.get(ragId) ?? new Map<string, HitStats>()
+  pendingHits.set(ragId, hits)
+  const stats = hits.get(entry.key)
+  hits.set(entry.key, { hits: (stats?.hits ?? 0) + 1, last_hit_at: new Date().toISOString() })
+}
+
+/**
+ * Fold this process's pending hits for `ragId` into `entries` and clear them. Hits on entries that
+ * are no longer stored are dropped.
+ */
+function applyPendingHits(ragId: string, entries: ResponseCacheEntry[]): ResponseCacheEntry[] {
+  const hits = pendingHits.get(ragId)
+  if (!hits) return entries
+  pendingHits.delete(ragId)
+  return entries.map(entry => {
+    const stats = hits.get(entry.key)
+    return stats ? { ...entry, hits: entry.hits + stats.hits, last_hit_at: stats.last_hit_at } : entry
+  })
+}
+
+// Least recently used entries are evicted first once a rag_id holds maxEntries answers.
+function pruneEntries(entries: ResponseCacheEntry[]): ResponseCacheEntry[] {
+  const { maxEntries } = getResponseCacheConfig()
+  if (entries.length <= maxEntries) return entries
+  const recency = (entry: ResponseCacheEntry) => entry.last_hit_at || entry.created_at
+  return [...entries].sort((a, b) => recency(b).localeCompare(recency(a))).slice(0, maxEntries)
+}
+
+/**
+ * Answers depend on prior turns and uploaded files, so only stateless questions are cached:
+ * no assets, and either no conversation memory or an empty session.
+ */
+async function isCacheable(input: AgentExecutionInput): Promise<boolean> {
+  if (input.useResponseCache === false || !getResponseCacheConfig().enabled) return false
+  if (Array.isArray(input.assets) && input.assets.length > 0) return false
+  if (input.useConversationMemory === false || !input.session_id) return true
+  const conversation = await getConversationContext({
+    sessionId: input.session_id,
+    agentId: input.agent_id,
+    tenantId: input.tenant_id,
+  })
+  return conversation.turns.length === 0
+}
+
+/**
+ * A degraded answer (schema errors, or grounding that should have run but was skipped) is served once
+ * and not replayed to later callers.
+ */
+function isStorable(output: AgentExecutionOutput): boolean {
+  if (output.metadata.schema_errors.length > 0) return false
+  const groundingExpected = getGroundingConfig().enabled && output.result.evidence.length > 0
+  return !groundingExpected || output.metadata.grounding !== null
+}
+
+async function recordCachedTurn(input: AgentExecutionInput, output: AgentExecutionOutput, intent: string | undefined) {
+  if (input.useConversationMemory === false || !input.session_id) return
+
+  const cited = output.result.evidence.filter(span => span.cited)
+  const timestamp = new Date().toISOString()
+  try {
+    await appendConversationTurns({
+      sessionId: input.session_id,
+      agentId: input.agent_id,
+      tenantId: input.tenant_id,
+      userId: input.user_id,
+      turns: [
+        { role: 'user', content: input.message, timestamp },
+        {
+          role: 'twin',
+          content: output.result.response_text,
+          timestamp,
+          intent,
+          citedChunkIds: cited.map(span => span.chunk_id),
+          citedDocumentNames: Array.from(new Set(cited.map(span => span.document))),
+        },
+      ],
+    })
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    console.warn(`[responseCache] Failed to persist conversation turn for ${input.session_id}: ${reason}`)
+  }
+}
+
+/**
+ * executeAgent behind the response cache. Hits replay the stored retrieval event and answer
+ * through the hooks (the answer arrives as one token) and set `metadata.cache.hit`.
+ * Only misses write the file; hits are counted in memory until then. Concurrent misses for one
+ * rag_id may each write the file; the last write wins, which only costs a cache entry.
+ */
+export async function executeAgentCached(
+  input: AgentExecutionInput,
+  hooks: AgentExecutionHooks = {}
+): Promise<AgentExecutionOutput> {
+  if (!(await isCacheable(input))) return executeAgent(input, hooks)
+
+  const { ragId, version } = await resolveCorpusVersion(input)
+  const paramsKey = await buildParamsKey(input)
+  const normalizedQuery = normalizeCacheQuery(input.message)
+  const key = hash(`${normalizedQuery}\n${paramsKey}`)
+  const embeddingModel = getEmbeddingModel()
+  const file = await readCacheFile(ragId, version)
+
+  let found = findEntry(file, key, paramsKey, null, embeddingModel)
+  const { semanticThreshold } = getResponseCacheConfig()
+  const embedding = !found && semanticThreshold > 0
+    ? await ollamaEmbedding(normalizedQuery, embeddingModel, hooks.signal)
+    : null
+  const route = embedding ? await detectQueryRoute({ ragId, query: input.message, intent: input.intent }) : null
+  if (!found && embedding && route) found = findEntry(file, key, paramsKey, { embedding, route }, embeddingModel)
+
+  if (found) {
+    const { entry, match, similarity } = found
+    recordHit(ragId, entry)
+
+    if (entry.retrieval) hooks.onRetrieval?.(entry.retrieval)
+    hooks.onToken?.(entry.response.result.response_text)
+    await recordCachedTurn(input, entry.response, entry.retrieval?.intent)
+
+    return {
+      ...entry.response,
+      metadata: {
+        ...entry.response.metadata,
+        timestamp: new Date().toISOString(),
+        cache: { hit: true, match, similarity, cached_at: entry.created_at, corpus_version: version },
+      },
+    }
+  }
+
+  let retrieval: AgentRetrievalEvent | null = null
+  const output = await executeAgent(input, {
+    ...hooks,
+    onRetrieval: event => {
+      retrieval = event
+      hooks.onRetrieval?.(event)
+    },
+  })
+
+  const missMetadata = {
+    ...output.metadata,
+    cache: { hit: false, match: null, similarity: null, cached_at: null, corpus_version: version },
+  }
+  if (!isStorable(output)) return { ...output, metadata: missMetadata }
+
+  const entry: ResponseCacheEntry = {
+    key,
+    params_key: paramsKey,
+    query: input.message,
+    embedding,
+    embedding_model: embeddingModel,
+    route,
+    response: output,
+    retrieval,
+    created_at: new Date().toISOString(),
+    last_hit_at: null,
+    hits: 0,
+  }
+  // Re-read so entries written while this answer was generated are kept.
+  const latest = await readCacheFile(ragId, version)
+  const kept = applyPendingHits(ragId, latest.entries.filter(item => item.key !== key))
+  await writeJsonFileAtomic(cachePath(ragId), {
+    ...latest,
+    entries: pruneEntries([...kept, entry]),
+  }).catch(error => {
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    console.warn(`[responseCache] Failed to store response for ${ragId}: ${reason}`)
+  })
+
+  return { ...output, metadata: missMetadata }
+}
@@ -0,0 +1,148 @@
+/**
+ * Agent response schema checks.
+ * Responsibilities:
+ * - Load the response shape from `response_schemas/research_digital_twin_agent_response.json`.
+ * - Validate parsed model output against that shape and the response_text contract.
+ * - Build the repair prompt sent back to the model when validation fails.
+ * - Convert the shape to JSON Schema for providers with schema-constrained generation.
+ */
+
+import agentResponseDefinition from '@/response_schemas/research_digital_twin_agent_response.json'
+
+/**
+ * Shape notation used by the schema file: a type name ("string"), a one-element array
+ * describing every item, or an object whose keys are all required.
+ */
+export type ResponseShape = string | ResponseShape[] | { [key: string]: ResponseShape }
+
+export function getJsonRepairConfig() {
+  const maxRepairAttempts = Number.parseInt(process.env.AGENT_JSON_REPAIR_MAX_RETRIES || '2', 10)
+  const maxErrorsInPrompt = Number.parseInt(process.env.AGENT_JSON_REPAIR_MAX_ERRORS || '8', 10)
+
+  return {
+    maxRepairAttempts: Number.isFinite(maxRepairAttempts) && maxRepairAttempts >= 0 ? maxRepairAttempts : 2,
+    maxErrorsInPrompt: Number.isFinite(maxErrorsInPrompt) && maxErrorsInPrompt > 0 ? maxErrorsInPrompt : 8,
+  }
+}
+
+export function getStructuredOutputConfig() {
+  return {
+    enabled: (process.env.AGENT_STRUCTURED_OUTPUT || 'true').trim().toLowerCase() !== 'false',
+  }
+}
+
+export function getAgentResponseShape(): ResponseShape {
+  return agentResponseDefinition.response_schema as ResponseShape
+}
+
+function shapeToJsonSchema(shape: ResponseShape): Record<string, unknown> {
+  if (typeof shape === 'string') return { type: shape }
+  if (Array.isArray(shape)) {
+    return shape[0] === undefined ? { type: 'array' } : { type: 'array', items: shapeToJsonSchema(shape[0]) }
+  }
+
+  const properties: Record<string, unknown> = {}
+  for (const [key, childShape] of Object.entries(shape)) {
+    properties[key] = shapeToJsonSchema(childShape)
+  }
+  // Strict structured-output modes require every property listed and no extras.
+  return { type: 'object', properties, required: Object.keys(shape), additionalProperties: false }
+}
+
+/**
+ * JSON Schema equivalent of the response shape, passed to providers as `jsonSchema`.
+ */
+export function getAgentResponseJsonSchema(): { name: string; schema: Record<string, unknown> } {
+  return {
+    name: 'research_digital_twin_agent_response',
+    schema: shapeToJsonSchema(getAgentResponseShape()),
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function validateShape(value: unknown, shape: ResponseShape, path: string, errors: string[]): void {
+  if (typeof shape === 'string') {
+    if (typeof value !== shape) errors.push(`${path}: expected ${shape}, got ${describeValue(value)}`)
+    return
+  }
+
+  if (Array.isArray(shape)) {
+    if (!Array.isArray(value)) {
+      errors.push(`${path}: expected array, got ${describeValue(value)}`)
+      return
+    }
+    const itemShape = shape[0]
+    if (itemShape === undefined) return
+    value.forEach((item, index) => validateShape(item, itemShape, `${path}[${index}]`, errors))
+    return
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${path}: expected object, got ${describeValue(value)}`)
+    return
+  }
+
+  const record = value as Record<string, unknown>
+  for (const [key, childShape] of Object.entries(shape)) {
+    const childPath = path ? `${path}.${key}` : key
+    if (!(key in record)) {
+      errors.push(`${childPath}: missing required field`)
+      continue
+    }
+    validateShape(record[key], childShape, childPath, errors)
+  }
+}
+
+/**
+ * Validate the output of parseLLMJson. Returns human-readable errors; an empty list means valid.
+ */
+export function validateAgentResponse(parsed: unknown): string[] {
+  const isParseFailure =
+    parsed
+    && typeof parsed === 'object'
+    && (parsed as Record<string, unknown>).success === false
+    && typeof (parsed as Record<string, unknown>).error === 'string'
+  if (!parsed || isParseFailure) {
+    return ['response is not a valid JSON object']
+  }
+
+  // Same unwrapping as normalizeParsedResult: some models nest the payload under `result`.
+  const record = parsed as Record<string, unknown>
+  const source = record.result && typeof record.result === 'object' ? record.result : parsed
+
+  const errors: string[] = []
+  validateShape(source, getAgentResponseShape(), '', errors)
+
+  const responseText = (source as Record<string, unknown>)?.response_text
+  if (typeof responseText === 'string') {
+    if (!responseText.trim()) errors.push('response_text: must not be empty')
+    if (/\{\s*"(response_text|citations|suggested_followups)"\s*:/.test(responseText)) {
+      errors.push('response_text: must not embed another JSON object')
+    }
+    if (/<\/?think>/i.test(responseText)) {
+      errors.push('response_text: must not contain <think> reasoning')
+    }
+  }
+
+  return errors
+}
+
+export function buildRepairPrompt(errors: string[]): string {
+  const { maxErrorsInPrompt } = getJsonRepairConfig()
+  const listed = errors.slice(0, maxErrorsInPrompt).map(error => `- ${error}`)
+  if (errors.length > listed.length) listed.push(`- ...and ${errors.length - listed.length} more`)
+
+  return [
+    'Your previous reply did not match the required JSON response format:',
+    ...listed,
+    '',
+    'Return the same answer again as ONLY a JSON object with this structure, keeping the evidence markers:',
+    JSON.stringify(getAgentResponseShape()),
+    'No markdown fences, no explanation, no text before or after the JSON.',
+  ].join('\n')
+}
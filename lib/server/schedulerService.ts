@@ -1,6 +1,7 @@
-import { readJsonFile, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
-import { executeAgent } from '@/lib/server/agentRuntime'
-import { DEFAULT_RAG_ID } from '@/lib/config/env'
+import { readJsonFile, readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { executeAgentCached } from '@/lib/server/responseCache'
+import { reembedRag, type ReembedProgress } from '@/lib/server/ragStore'
+import { getEmbeddingModel } from '@/lib/server/ollama'
 
 export type Schedule = {
   id: string
@@ -17,6 +18,8 @@ export type Schedule = {
   next_run_time: string | null
   last_run_at: string | null
   last_run_success: boolean | null
+  /** Owning tenant; absent for schedules created by admin callers. */
+  tenant_id?: string
 }
 
 export type ExecutionLog = {
@@ -35,17 +38,42 @@ export type ExecutionLog = {
   error_message: string | null
 }
 
+export type BackgroundJobStatus = 'queued' | 'running' | 'completed' | 'failed'
+
+export type ReembedJob = {
+  id: string
+  type: 'reembed'
+  rag_id: string
+  model: string
+  status: BackgroundJobStatus
+  created_at: string
+  updated_at: string
+  started_at: string | null
+  finished_at: string | null
+  progress: ReembedProgress & { percent: number }
+  error_message: string | null
+}
+
 type SchedulerStore = {
   schedules: Schedule[]
   executions: ExecutionLog[]
 }
 
+type JobStore = {
+  jobs: ReembedJob[]
+}
+
 const SCHEDULER_STORE_PATH = resolveDataPath('scheduler', 'store.json')
+// Jobs live in their own file: the schedule tick holds store.json for the length of an agent run.
+const JOB_STORE_PATH = resolveDataPath('scheduler', 'jobs.json')
+const MAX_STORED_JOBS = 200
 
 const globalScheduler = globalThis as typeof globalThis & {
   __researchTwinSchedulerStarted?: boolean
   __researchTwinSchedulerTick?: NodeJS.Timeout
   __researchTwinSchedulerLock?: boolean
+  __researchTwinJobLock?: boolean
+  __researchTwinJobStoreQueue?: Promise<unknown>
 }
 
 async function readStore(): Promise<SchedulerStore> {
@@ -59,6 +87,32 @@ async function writeStore(store: SchedulerStore): Promise<void> {
   await writeJsonFileAtomic(SCHEDULER_STORE_PATH, store)
 }
 
+/**
+ * Serialized read-modify-write of the job store so progress updates and new jobs never overwrite each other.
+ */
+function mutateJobStore<T>(mutate: (store: JobStore) => T): Promise<T> {
+  const previous = globalScheduler.__researchTwinJobStoreQueue || Promise.resolve()
+  const next = previous.catch(() => undefined).then(async () => {
+    const store = await readJobStoreFile()
+    const result = mutate(store)
+    await writeJsonFileAtomic(JOB_STORE_PATH, store)
+    return result
+  })
+  globalScheduler.__researchTwinJobStoreQueue = next
+  return next
+}
+
+async function readJobStoreFile(): Promise<JobStore> {
+  // The tick polls this file, so a missing file (no jobs yet) must not log a fallback warning.
+  const store = await readJsonFileIfExists<JobStore>(JOB_STORE_PATH, { jobs: [] })
+  return Array.isArray(store.jobs) ? store : { jobs: [] }
+}
+
+async function readJobStore(): Promise<JobStore> {
+  await globalScheduler.__researchTwinJobStoreQueue?.catch(() => undefined)
+  return readJobStoreFile()
+}
+
 function parseField(field: string, value: number, min: number, max: number): boolean {
   if (field === '*') return true
 
@@ -163,12 +217,14 @@ async function executeScheduleInternal(schedule: Schedule): Promise<{ success: b
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
     try {
       const sessionId = `schedule-${schedule.id}-${Date.now()}`
-      const response = await executeAgent({
+      const response = await executeAgentCached({
         message: schedule.message,
         agent_id: schedule.agent_id,
         user_id: schedule.user_id,
         session_id: sessionId,
-        rag_id: DEFAULT_RAG_ID,
+        // rag_id comes from the agent profile so tenant schedules stay on the tenant's corpus.
+        tenant_id: schedule.tenant_id,
+        useConversationMemory: false,
       })
 
       return {
@@ -242,6 +298,87 @@ async function processDueSchedules(): Promise<void> {
   }
 }
 
+function toJobProgress(progress: ReembedProgress): ReembedJob['progress'] {
+  const percent = progress.totalDocuments
+    ? Math.round((progress.processedDocuments / progress.totalDocuments) * 100)
+    : 100
+  return { ...progress, percent }
+}
+
+async function updateJob(jobId: string, patch: Partial<ReembedJob>): Promise<void> {
+  await mutateJobStore(store => {
+    const job = store.jobs.find(item => item.id === jobId)
+    if (!job) return
+    Object.assign(job, patch, { updated_at: new Date().toISOString() })
+  })
+}
+
+/**
+ * Run one job to a terminal status. Returns false when the job store could not record that status,
+ * so the caller stops instead of picking the same job again.
+ */
+async function runReembedJob(job: ReembedJob): Promise<boolean> {
+  const startedAt = new Date().toISOString()
+
+  try {
+    await updateJob(job.id, { status: 'running', started_at: job.started_at || startedAt, error_message: null })
+    const progress = await reembedRag({
+      ragId: job.rag_id,
+      model: job.model,
+      onProgress: update => updateJob(job.id, { progress: toJobProgress(update) }),
+    })
+
+    await updateJob(job.id, {
+      status: 'completed',
+      progress: toJobProgress(progress),
+      finished_at: new Date().toISOString(),
+      error_message: progress.failedChunks
+        ? `${progress.failedChunks} chunks could not be embedded; run the job again to retry them`
+        : null,
+    })
+    return true
+  } catch (error) {
+    try {
+      await updateJob(job.id, {
+        status: 'failed',
+        finished_at: new Date().toISOString(),
+        error_message: error instanceof Error ? error.message : 'Unknown re-embedding error',
+      })
+      return true
+    } catch (updateError) {
+      const reason = updateError instanceof Error ? updateError.message : 'unknown error'
+      console.warn(`[scheduler] Could not record the status of re-embedding job ${job.id}: ${reason}`)
+      return false
+    }
+  }
+}
+
+async function processBackgroundJobs(): Promise<void> {
+  if (globalScheduler.__researchTwinJobLock) {
+    return
+  }
+
+  globalScheduler.__researchTwinJobLock = true
+  try {
+    while (true) {
+      // A job still marked running while the lock was free was interrupted by a restart; re-embedding
+      // skips finished documents, so it simply resumes.
+      const store = await readJobStore()
+      const next = [...store.jobs]
+        .reverse()
+        .find(job => job.status === 'queued' || job.status === 'running')
+      if (!next) break
+
+      if (!(await runReembedJob(next))) break
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    console.warn(`[scheduler] Background job processing stopped: ${reason}`)
+  } finally {
+    globalScheduler.__researchTwinJobLock = false
+  }
+}
+
 export function initializeSchedulerEngine(): void {
   if (globalScheduler.__researchTwinSchedulerStarted) {
     return
@@ -250,11 +387,72 @@ export function initializeSchedulerEngine(): void {
   globalScheduler.__researchTwinSchedulerStarted = true
   globalScheduler.__researchTwinSchedulerTick = setInterval(() => {
     void processDueSchedules()
+    void processBackgroundJobs()
   }, 30_000)
 }
 
+export async function createReembedJob(params: {
+  rag_id: string
+  model?: string
+}): Promise<{ job: ReembedJob; created: boolean }> {
+  const model = params.model?.trim() || getEmbeddingModel()
+
+  const result = await mutateJobStore(store => {
+    const active = store.jobs.find(job => (
+      job.rag_id === params.rag_id
+      && job.model === model
+      && (job.status === 'queued' || job.status === 'running')
+    ))
+    if (active) return { job: active, created: false }
+
+    const now = new Date().toISOString()
+    const job: ReembedJob = {
+      id: crypto.randomUUID(),
+      type: 'reembed',
+      rag_id: params.rag_id,
+      model,
+      status: 'queued',
+      created_at: now,
+      updated_at: now,
+      started_at: null,
+      finished_at: null,
+      progress: toJobProgress({
+        totalDocuments: 0,
+        processedDocuments: 0,
+        reembeddedChunks: 0,
+        cachedChunks: 0,
+        failedChunks: 0,
+      }),
+      error_message: null,
+    }
+
+    store.jobs.unshift(job)
+    if (store.jobs.length > MAX_STORED_JOBS) {
+      store.jobs = store.jobs.slice(0, MAX_STORED_JOBS)
+    }
+    return { job, created: true }
+  })
+
+  // Start right away instead of waiting for the next tick.
+  void processBackgroundJobs()
+  return result
+}
+
+export async function listJobs(params?: { ragId?: string }): Promise<{ jobs: ReembedJob[]; total: number }> {
+  const store = await readJobStore()
+  const jobs = params?.ragId ? store.jobs.filter(job => job.rag_id === params.ragId) : store.jobs
+  return { jobs, total: jobs.length }
+}
+
+export async function getJob(jobId: string): Promise<ReembedJob | null> {
+  const store = await readJobStore()
+  return store.jobs.find(job => job.id === jobId) || null
+}
+
 export async function listSchedules(params?: {
   agentId?: string
+  /** Only this tenant's schedules; null for schedules created without a tenant. */
+  tenantId?: string | null
   is_active?: boolean
   skip?: number
   limit?: number
@@ -265,6 +463,9 @@ export async function listSchedules(params?: {
   if (params?.agentId) {
     schedules = schedules.filter(schedule => schedule.agent_id === params.agentId)
   }
+  if (params?.tenantId !== undefined) {
+    schedules = schedules.filter(schedule => (schedule.tenant_id ?? null) === params.tenantId)
+  }
   if (params?.is_active !== undefined) {
     schedules = schedules.filter(schedule => schedule.is_active === params.is_active)
   }
@@ -284,11 +485,16 @@ export async function getSchedule(scheduleId: string): Promise<Schedule | null>
   return store.schedules.find(schedule => schedule.id === scheduleId) || null
 }
 
-export async function getSchedulesForAgent(agentId: string): Promise<{ agent_id: string; schedules: Schedule[]; webhooks: [] }> {
+export async function getSchedulesForAgent(
+  agentId: string,
+  tenantId?: string | null
+): Promise<{ agent_id: string; schedules: Schedule[]; webhooks: [] }> {
   const store = await readStore()
   return {
     agent_id: agentId,
-    schedules: store.schedules.filter(schedule => schedule.agent_id === agentId),
+    schedules: store.schedules.filter(schedule => (
+      schedule.agent_id === agentId && (tenantId === undefined || (schedule.tenant_id ?? null) === tenantId)
+    )),
     webhooks: [],
   }
 }
@@ -311,6 +517,8 @@ export async function getScheduleLogs(scheduleId: string, params?: {
 
 export async function getRecentExecutions(params?: {
   agentId?: string
+  /** Only runs of this tenant's schedules; null for schedules created without a tenant. */
+  tenantId?: string | null
   success?: boolean
   hours?: number
   days?: number
@@ -325,6 +533,13 @@ export async function getRecentExecutions(params?: {
     executions = executions.filter(execution => execution.agent_id === params.agentId)
   }
 
+  if (params?.tenantId !== undefined) {
+    const tenantScheduleIds = new Set(
+      store.schedules.filter(schedule => (schedule.tenant_id ?? null) === params.tenantId).map(schedule => schedule.id)
+    )
+    executions = executions.filter(execution => tenantScheduleIds.has(execution.schedule_id))
+  }
+
   if (params?.success !== undefined) {
     executions = executions.filter(execution => execution.success === params.success)
   }
@@ -359,6 +574,7 @@ export async function createSchedule(params: {
   max_retries?: number
   retry_delay?: number
   user_id?: string
+  tenant_id?: string
 }): Promise<Schedule> {
   const now = new Date().toISOString()
   const schedule: Schedule = {
@@ -376,6 +592,7 @@ export async function createSchedule(params: {
     next_run_time: computeNextRun(params.cron_expression),
     last_run_at: null,
     last_run_success: null,
+    ...(params.tenant_id ? { tenant_id: params.tenant_id } : {}),
   }
 
   const store = await readStore()
@@ -1,4 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
+import {
+  canAccessAgent,
+  canAccessRag,
+  findTenantByToken,
+  getOwnedResources,
+  type ApiPrincipal,
+} from '@/lib/server/tenants'
 
 type RateLimitEntry = {
   count: number
@@ -21,6 +28,9 @@ if (!globalForRateLimit.__researchTwinRateLimit) {
   globalForRateLimit.__researchTwinRateLimit = rateLimitStore
 }
 
+// Principal resolved for each authenticated request; read back by enforceTenantAccess.
+const requestPrincipals = new WeakMap<NextRequest, ApiPrincipal>()
+
 function getClientIp(request: NextRequest): string {
   const forwarded = request.headers.get('x-forwarded-for')
   if (forwarded) {
@@ -51,15 +61,12 @@ function getAuthHeaderToken(request: NextRequest): string | null {
   return null
 }
 
+function hasAdminCredentials(): boolean {
+  return Boolean(process.env.API_AUTH_TOKEN || (process.env.API_BASIC_USER && process.env.API_BASIC_PASS))
+}
+
 function isAuthValid(request: NextRequest): boolean {
   const requiredBearer = process.env.API_AUTH_TOKEN
-  const basicUser = process.env.API_BASIC_USER
-  const basicPass = process.env.API_BASIC_PASS
-
-  if (!requiredBearer && !(basicUser && basicPass)) {
-    return true
-  }
-
   const headerToken = getAuthHeaderToken(request)
   const customToken = request.headers.get('x-api-token')
 
@@ -74,6 +81,66 @@ function isAuthValid(request: NextRequest): boolean {
   return false
 }
 
+/**
+ * A tenant token identifies a tenant principal and the global credentials identify an admin.
+ * Without configured credentials, callers are admins only until the first tenant exists; after
+ * that they are anonymous and limited to resources no tenant owns. Returns null when configured
+ * credentials do not match.
+ */
+async function resolvePrincipal(request: NextRequest): Promise<ApiPrincipal | null> {
+  const headerToken = getAuthHeaderToken(request)
+  const presented = request.headers.get('x-api-token') || (headerToken !== '__basic_ok__' ? headerToken : null)
+  if (presented) {
+    const tenant = await findTenantByToken(presented)
+    if (tenant) return { kind: 'tenant', tenant }
+  }
+
+  if (!hasAdminCredentials()) {
+    const owned = await getOwnedResources()
+    return owned
+      ? { kind: 'anonymous', owned_rag_ids: owned.rag_ids, owned_agent_ids: owned.agent_ids }
+      : { kind: 'admin' }
+  }
+
+  return isAuthValid(request) ? { kind: 'admin' } : null
+}
+
+// Requests that skipped enforceApiSecurity get nothing rather than admin rights.
+export function getApiPrincipal(request: NextRequest): ApiPrincipal {
+  return requestPrincipals.get(request) ?? { kind: 'denied' }
+}
+
+/**
+ * Check that the caller may use the given rag_ids and agent_ids (or, with adminOnly, is not a tenant).
+ * Call after enforceApiSecurity, once the route has parsed which resources the request names.
+ */
+export function enforceTenantAccess(
+  request: NextRequest,
+  resources: { ragIds?: string[]; agentIds?: string[]; adminOnly?: boolean }
+): NextResponse | null {
+  const principal = getApiPrincipal(request)
+  if (principal.kind === 'admin') return null
+
+  const deniedRag = resources.ragIds?.find(ragId => !canAccessRag(principal, ragId))
+  const deniedAgent = resources.agentIds?.find(agentId => !canAccessAgent(principal, agentId))
+  const denied = resources.adminOnly
+    ? 'this action'
+    : deniedRag !== undefined
+      ? `rag_id "${deniedRag}"`
+      : deniedAgent !== undefined
+        ? `agent_id "${deniedAgent}"`
+        : null
+  if (!denied) return null
+
+  const caller = principal.kind === 'tenant'
+    ? `Tenant "${principal.tenant.tenant_id}"`
+    : principal.kind === 'anonymous' ? 'Anonymous callers' : 'Unauthenticated requests'
+  return NextResponse.json(
+    { success: false, error: `${caller} may not access ${denied}` },
+    { status: 403 }
+  )
+}
+
 function getRateLimitConfig(options?: Pick<SecurityOptions, 'maxRequests' | 'windowMs'>) {
   const maxRequests = options?.maxRequests
     ?? Number.parseInt(process.env.RATE_LIMIT_MAX || '120', 10)
@@ -119,11 +186,14 @@ function checkRateLimit(key: string, maxRequests: number, windowMs: number): {
   }
 }
 
-export function enforceApiSecurity(
+export async function enforceApiSecurity(
   request: NextRequest,
   options: SecurityOptions
-): NextResponse | null {
-  if (!options.skipAuth && !isAuthValid(request)) {
+): Promise<NextResponse | null> {
+  const principal = await resolvePrincipal(request)
+  if (principal) requestPrincipals.set(request, principal)
+
+  if (!options.skipAuth && !principal) {
     return NextResponse.json(
       { success: false, error: 'Unauthorized' },
       {
@@ -0,0 +1,281 @@
+/**
+ * Tenant registry.
+ * Responsibilities:
+ * - Store tenants (an owner with their agent_ids, rag_ids and API tokens) in data/tenants/registry.json.
+ * - Issue and revoke tenant API tokens; only SHA-256 hashes are persisted.
+ * - Answer ownership questions (which tenant owns a rag_id or agent_id) and the empty-corpus fallback policy.
+ */
+
+import { DEFAULT_RAG_ID } from '@/lib/config/env'
+import { readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { createHash, randomBytes } from 'crypto'
+
+export type TenantToken = {
+  token_id: string
+  label: string
+  token_hash: string
+  created_at: string
+}
+
+export type Tenant = {
+  tenant_id: string
+  name: string
+  agent_ids: string[]
+  rag_ids: string[]
+  /** rag_id searched when one of this tenant's corpora is empty; null disables the fallback. */
+  fallback_rag_id: string | null
+  tokens: TenantToken[]
+  created_at: string
+  updated_at: string
+}
+
+/** Tenant as returned by the API: token hashes are never exposed. */
+export type TenantView = Omit<Tenant, 'tokens'> & {
+  tokens: Array<Omit<TenantToken, 'token_hash'>>
+}
+
+/**
+ * Caller identity resolved by enforceApiSecurity. Admin callers are not scoped to a tenant.
+ * Anonymous callers (no credentials on a server without admin credentials, once a tenant exists)
+ * may only use resources no tenant owns. `denied` stands for a request that never went through
+ * enforceApiSecurity and may use nothing.
+ */
+export type ApiPrincipal =
+  | { kind: 'admin' }
+  | { kind: 'tenant'; tenant: Tenant }
+  | { kind: 'anonymous'; owned_rag_ids: string[]; owned_agent_ids: string[] }
+  | { kind: 'denied' }
+
+type TenantRegistry = {
+  tenants: Tenant[]
+}
+
+const REGISTRY_PATH = resolveDataPath('tenants', 'registry.json')
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/
+
+async function readRegistry(): Promise<TenantRegistry> {
+  const registry = await readJsonFileIfExists<TenantRegistry>(REGISTRY_PATH, { tenants: [] })
+  return { tenants: Array.isArray(registry.tenants) ? registry.tenants : [] }
+}
+
+async function writeRegistry(registry: TenantRegistry): Promise<void> {
+  await writeJsonFileAtomic(REGISTRY_PATH, registry)
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function normalizeIdList(value: unknown, field: string): string[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) throw new Error(`${field} must be an array`)
+  return Array.from(new Set(value.map(item => String(item ?? '').trim()).filter(Boolean)))
+}
+
+export function toTenantView(tenant: Tenant): TenantView {
+  return {
+    ...tenant,
+    tokens: tenant.tokens.map(({ token_hash: _hash, ...token }) => token),
+  }
+}
+
+export async function listTenants(): Promise<Tenant[]> {
+  const registry = await readRegistry()
+  return registry.tenants
+}
+
+export async function getTenant(tenantId: string): Promise<Tenant | null> {
+  const registry = await readRegistry()
+  return registry.tenants.find(tenant => tenant.tenant_id === tenantId) || null
+}
+
+/**
+ * Create or update a tenant. A rag_id or agent_id may belong to one tenant only; claiming one
+ * that another tenant owns throws. Existing tokens are kept.
+ */
+export async function saveTenant(raw: unknown): Promise<Tenant> {
+  if (!raw || typeof raw !== 'object') throw new Error('tenant must be an object')
+  const value = raw as Record<string, unknown>
+  const tenantId = String(value.tenant_id ?? '').trim().toLowerCase()
+  if (!TENANT_ID_PATTERN.test(tenantId)) {
+    throw new Error('tenant_id must be 1-64 lowercase letters, digits, "-" or "_"')
+  }
+
+  const agentIds = normalizeIdList(value.agent_ids, 'agent_ids')
+  const ragIds = normalizeIdList(value.rag_ids, 'rag_ids')
+  const fallbackRagId =
+    typeof value.fallback_rag_id === 'string' && value.fallback_rag_id.trim() ? value.fallback_rag_id.trim() : null
+
+  const registry = await readRegistry()
+  for (const other of registry.tenants) {
+    if (other.tenant_id === tenantId) continue
+    const ragConflict = ragIds.find(ragId => other.rag_ids.includes(ragId))
+    if (ragConflict) throw new Error(`rag_id "${ragConflict}" already belongs to tenant "${other.tenant_id}"`)
+    const agentConflict = agentIds.find(agentId => other.agent_ids.includes(agentId))
+    if (agentConflict) throw new Error(`agent_id "${agentConflict}" already belongs to tenant "${other.tenant_id}"`)
+  }
+
+  const now = new Date().toISOString()
+  const existing = registry.tenants.find(tenant => tenant.tenant_id === tenantId)
+  const tenant: Tenant = {
+    tenant_id: tenantId,
+    name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : existing?.name || tenantId,
+    agent_ids: agentIds,
+    rag_ids: ragIds,
+    fallback_rag_id: fallbackRagId,
+    tokens: existing?.tokens || [],
+    created_at: existing?.created_at || now,
+    updated_at: now,
+  }
+
+  registry.tenants = [...registry.tenants.filter(item => item.tenant_id !== tenantId), tenant]
+  await writeRegistry(registry)
+  return tenant
+}
+
+export async function deleteTenant(tenantId: string): Promise<boolean> {
+  const registry = await readRegistry()
+  const remaining = registry.tenants.filter(tenant => tenant.tenant_id !== tenantId)
+  if (remaining.length === registry.tenants.length) return false
+  await writeRegistry({ tenants: remaining })
+  return true
+}
+
+/**
+ * Issue a token for a tenant. The plain token is only returned here; the registry keeps its hash.
+ */
+export async function createTenantToken(
+  tenantId: string,
+  label?: string
+): Promise<{ token: string; record: Omit<TenantToken, 'token_hash'> } | null> {
+  const registry = await readRegistry()
+  const tenant = registry.tenants.find(item => item.tenant_id === tenantId)
+  if (!tenant) return null
+
+  const token = `rt_${randomBytes(24).toString('base64url')}`
+  const record: TenantToken = {
+    token_id: crypto.randomUUID(),
+    label: label?.trim() || 'default',
+    token_hash: hashToken(token),
+    created_at: new Date().toISOString(),
+  }
+  tenant.tokens.push(record)
+  tenant.updated_at = record.created_at
+  await writeRegistry(registry)
+
+  const { token_hash: _hash, ...publicRecord } = record
+  return { token, record: publicRecord }
+}
+
+export async function revokeTenantToken(tenantId: string, tokenId: string): Promise<boolean> {
+  const registry = await readRegistry()
+  const tenant = registry.tenants.find(item => item.tenant_id === tenantId)
+  if (!tenant) return false
+
+  const remaining = tenant.tokens.filter(token => token.token_id !== tokenId)
+  if (remaining.length === tenant.tokens.length) return false
+  tenant.tokens = remaining
+  tenant.updated_at = new Date().toISOString()
+  await writeRegistry(registry)
+  return true
+}
+
+export async function findTenantByToken(token: string): Promise<Tenant | null> {
+  if (!token) return null
+  const hash = hashToken(token)
+  const registry = await readRegistry()
+  return registry.tenants.find(tenant => tenant.tokens.some(item => item.token_hash === hash)) || null
+}
+
+export async function getRagOwner(ragId: string): Promise<Tenant | null> {
+  const registry = await readRegistry()
+  return registry.tenants.find(tenant => tenant.rag_ids.includes(ragId)) || null
+}
+
+export async function getAgentOwner(agentId: string): Promise<Tenant | null> {
+  const registry = await readRegistry()
+  return registry.tenants.find(tenant => tenant.agent_ids.includes(agentId)) || null
+}
+
+/**
+ * rag_ids and agent_ids owned by any tenant, or null while no tenant exists.
+ */
+export async function getOwnedResources(): Promise<{ rag_ids: string[]; agent_ids: string[] } | null> {
+  const registry = await readRegistry()
+  if (!registry.tenants.length) return null
+  return {
+    rag_ids: registry.tenants.flatMap(tenant => tenant.rag_ids),
+    agent_ids: registry.tenants.flatMap(tenant => tenant.agent_ids),
+  }
+}
+
+export function canAccessRag(principal: ApiPrincipal, ragId: string): boolean {
+  switch (principal.kind) {
+    case 'admin':
+      return true
+    case 'tenant':
+      return principal.tenant.rag_ids.includes(ragId)
+    case 'anonymous':
+      return !principal.owned_rag_ids.includes(ragId)
+    default:
+      return false
+  }
+}
+
+export function canAccessAgent(principal: ApiPrincipal, agentId: string): boolean {
+  switch (principal.kind) {
+    case 'admin':
+      return true
+    case 'tenant':
+      return principal.tenant.agent_ids.includes(agentId)
+    case 'anonymous':
+      return !principal.owned_agent_ids.includes(agentId)
+    default:
+      return false
+  }
+}
+
+/**
+ * Tenant scope for data stored per tenant (tasks, schedules, assets): the tenant's id, null for
+ * data stored without a tenant (what anonymous callers see), undefined for all data (admins).
+ * A denied principal has no scope.
+ */
+export function getTenantScope(principal: ApiPrincipal): string | null | undefined {
+  switch (principal.kind) {
+    case 'admin':
+      return undefined
+    case 'tenant':
+      return principal.tenant.tenant_id
+    case 'anonymous':
+      return null
+    default:
+      throw new Error('Request was not authenticated')
+  }
+}
+
+/**
+ * rag_id filter for listings of stored runs: an allowlist for tenants, a denylist of tenant-owned
+ * corpora for anonymous callers, nothing for admins.
+ */
+export function getRagScope(principal: ApiPrincipal): { ragIds?: string[]; excludeRagIds?: string[] } {
+  switch (principal.kind) {
+    case 'admin':
+      return {}
+    case 'tenant':
+      return { ragIds: principal.tenant.rag_ids }
+    case 'anonymous':
+      return { excludeRagIds: principal.owned_rag_ids }
+    default:
+      return { ragIds: [] }
+  }
+}
+
+/**
+ * rag_id to search when `ragId` has no documents. Tenant corpora only fall back to the
+ * tenant's configured fallback_rag_id; unowned corpora keep the DEFAULT_RAG_ID fallback.
+ */
+export async function resolveFallbackRagId(ragId: string): Promise<string | null> {
+  const owner = await getRagOwner(ragId)
+  const fallback = owner ? owner.fallback_rag_id : DEFAULT_RAG_ID
+  return fallback && fallback !== ragId ? fallback : null
+}
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { chunkStructuredText, PAGE_BREAK, splitSentences } from '@/lib/server/text'
+
+const PAGES = [
+  'A Study of SANTA\n\nAbstract: We introduce SANTA, a method for aligning structured data with text.',
+  '1 Introduction\n\nStructured data appears in many retrieval settings. SANTA targets that gap.',
+  '2 Method\n\nSANTA pretrains on code and product descriptions. It uses contrastive objectives.',
+]
+
+function pagesOf(text: string) {
+  return chunkStructuredText(text, 120, 0).map(chunk => ({
+    pageStart: chunk.pageStart,
+    pageEnd: chunk.pageEnd,
+    text: chunk.text,
+  }))
+}
+
+function assertThreePages(text: string) {
+  const chunks = pagesOf(text)
+  assert.equal(chunks[0].pageStart, 1)
+  assert.ok(chunks[0].text.includes('We introduce SANTA'))
+
+  const pageOf = (needle: string) => chunks.find(chunk => chunk.text.includes(needle))?.pageStart
+  assert.equal(pageOf('We introduce SANTA'), 1)
+  assert.equal(pageOf('Structured data appears'), 2)
+  assert.equal(pageOf('SANTA pretrains'), 3)
+}
+
+describe('chunkStructuredText page numbers', () => {
+  it('numbers pdf-parse output (padding before the first form feed) from page 1', () => {
+    assertThreePages(PAGES.map(page => `\n\n${PAGE_BREAK}${page}`).join(''))
+  })
+
+  it('keeps page 1 when the text starts with a form feed', () => {
+    assertThreePages(PAGES.map(page => `${PAGE_BREAK}${page}`).join('\n\n'))
+  })
+
+  it('keeps page 1 when the leading form feed was trimmed away', () => {
+    assertThreePages(PAGES.map(page => `${PAGE_BREAK}${page}`).join('\n\n').slice(1))
+  })
+
+  it('leaves pages unset for text without form feeds', () => {
+    const chunks = pagesOf(PAGES.join('\n\n'))
+    assert.ok(chunks.length > 0)
+    assert.ok(chunks.every(chunk => chunk.pageStart === undefined && chunk.pageEnd === undefined))
+  })
+})
+
+describe('splitSentences', () => {
+  it('splits on sentence ends but not after abbreviations', () => {
+    assert.deepEqual(splitSentences('SANTA beats ROSITA, cf. Fig. 3 and Smith et al. 2021. Results hold. (See Tab. 2.) Done!'), [
+      'SANTA beats ROSITA, cf. Fig. 3 and Smith et al. 2021.',
+      'Results hold.',
+      '(See Tab. 2.) Done!',
+    ])
+  })
+
+  it('keeps decimals and lowercase continuations whole', () => {
+    assert.deepEqual(splitSentences('Accuracy rose to 91.5 percent. e.g. on tables it rose too.'), [
+      'Accuracy rose to 91.5 percent. e.g. on tables it rose too.',
+    ])
+  })
+})
+
+describe('chunkStructuredText headings', () => {
+  const THESIS = [
+    'Chapter 2: Structured Retrieval',
+    '',
+    '2.1 Background',
+    '',
+    'Tables are common in papers. They resist plain text retrieval.',
+    '',
+    '2.1.1 Table Encoders',
+    '',
+    'SANTA encodes rows as text. ROSITA encodes cells directly.',
+    '',
+    '3 Method',
+    '',
+    'We align tables and questions with a contrastive loss.',
+  ].join('\n')
+
+  it('records chapter and numbered section paths', () => {
+    const chunks = chunkStructuredText(THESIS, 80, 0)
+    const pathOf = (needle: string) => chunks.find(chunk => chunk.text.includes(needle))?.headingPath
+    assert.equal(pathOf('Tables are common'), 'Chapter 2: Structured Retrieval > 2.1 Background')
+    assert.equal(pathOf('SANTA encodes rows'), 'Chapter 2: Structured Retrieval > 2.1 Background > 2.1.1 Table Encoders')
+    assert.equal(pathOf('contrastive loss'), 'Chapter 2: Structured Retrieval > 3 Method')
+  })
+
+  it('does not start a new section for table rows or sentences', () => {
+    const text = 'Results\n\n1 SANTA 91.2 88.4 90.1 87.3\n2 Baseline results improved.\nBoth rows are from Table 1.'
+    const chunks = chunkStructuredText(text, 200, 0)
+    assert.deepEqual(chunks.map(chunk => chunk.headingPath), ['Results'])
+  })
+
+  it('carries overlap as whole sentences', () => {
+    const text = 'First sentence here. Second sentence here. Third sentence here. Fourth sentence here.'
+    const chunks = chunkStructuredText(text, 45, 25)
+    assert.ok(chunks.length > 1)
+    for (const chunk of chunks) {
+      assert.match(chunk.text, /^[A-Z][a-z]+ sentence here\./)
+      assert.match(chunk.text, /\.$/)
+    }
+    assert.ok(chunks[1].text.startsWith('Second sentence here.'))
+  })
+})
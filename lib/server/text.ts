@@ -19,6 +19,230 @@ export function chunkText(text: string, chunkSize: number, overlap: number): str
   return chunks.filter(Boolean)
 }
 
+export type StructuredChunk = {
+  text: string
+  headingPath?: string
+  pageStart?: number
+  pageEnd?: number
+}
+
+type TextUnit = {
+  text: string
+  headingPath: string
+  page?: number
+}
+
+const KNOWN_SECTION_HEADINGS = [
+  'abstract',
+  'introduction',
+  'related work',
+  'related works',
+  'background',
+  'preliminaries',
+  'problem setup',
+  'problem formulation',
+  'method',
+  'methods',
+  'methodology',
+  'approach',
+  'proposed method',
+  'proposed approach',
+  'experiments',
+  'experimental setup',
+  'experimental results',
+  'results',
+  'evaluation',
+  'ablation study',
+  'ablation studies',
+  'analysis',
+  'discussion',
+  'limitations',
+  'future work',
+  'conclusion',
+  'conclusions',
+  'conclusion and future work',
+  'acknowledgements',
+  'acknowledgments',
+  'references',
+  'bibliography',
+  'appendix',
+  'supplementary material',
+]
+
+const SENTENCE_ABBREVIATIONS = /(?:\b(?:e\.g|i\.e|et al|etc|vs|cf|fig|figs|eq|eqs|sec|tab|no|approx|resp)|\b[A-Z])\.$/i
+
+// Page text from PDF extraction is separated by form feeds (see extractPdfText in assetStore).
+export const PAGE_BREAK = '\f'
+
+function parseHeading(line: string): { level: number; label: string; chapter?: boolean } | null {
+  const trimmed = line.trim()
+  if (!trimmed || trimmed.length > 90 || /[.,;]$/.test(trimmed)) return null
+
+  const chapter = trimmed.match(/^chapter\s+(\d+|[ivxlc]+)\b[\s:.-]*(.*)$/i)
+  if (chapter) {
+    const title = chapter[2].trim()
+    return { level: 0, label: `Chapter ${chapter[1]}${title ? `: ${title}` : ''}`, chapter: true }
+  }
+
+  const numbered = trimmed.match(/^(\d{1,2}(?:\.\d{1,2}){0,3})\.?\s+([A-Z][A-Za-z0-9 ,:&()\/-]{1,80})$/)
+  if (numbered) {
+    const title = numbered[2].trim()
+    const words = title.split(/\s+/)
+    // Table rows and numbered list items tend to be long or digit-heavy; section titles are short words.
+    if (words.length > 12 || (title.match(/\d/g) || []).length > 4) return null
+    return { level: numbered[1].split('.').length, label: `${numbered[1]} ${title}` }
+  }
+
+  const roman = trimmed.match(/^([IVX]{1,4})\.?\s+([A-Z][A-Za-z ]{2,60})$/)
+  const plain = (roman ? roman[2] : trimmed).replace(/:$/, '').trim()
+  if (KNOWN_SECTION_HEADINGS.includes(plain.toLowerCase())) {
+    return { level: 1, label: roman ? `${roman[1]}. ${plain}` : plain }
+  }
+
+  return null
+}
+
+export function splitSentences(text: string): string[] {
+  const pieces = text.split(/(?<=[.!?])\s+(?=[A-Z0-9(\[])/)
+  const sentences: string[] = []
+
+  for (const piece of pieces) {
+    const last = sentences[sentences.length - 1]
+    // Re-join splits that happened after abbreviations like "et al." or "Fig.".
+    if (last && SENTENCE_ABBREVIATIONS.test(last)) {
+      sentences[sentences.length - 1] = `${last} ${piece}`
+    } else {
+      sentences.push(piece)
+    }
+  }
+
+  return sentences.map(item => item.trim()).filter(Boolean)
+}
+
+function toTextUnits(text: string): TextUnit[] {
+  const normalized = text.replace(/\r\n/g, '\n')
+  const hasPageMarkers = normalized.includes(PAGE_BREAK)
+  const pages = normalized.split(PAGE_BREAK)
+  // Every PDF page starts with a form feed, so text before the first one is padding. When that padding
+  // was trimmed away, or the text starts with content, the leading segment is page 1 itself.
+  const leadingIsPadding = !pages[0].trim()
+  if (hasPageMarkers && leadingIsPadding) pages.shift()
+  const units: TextUnit[] = []
+  let chapter = ''
+  let sections: string[] = []
+
+  const currentHeadingPath = () => [chapter, ...sections].filter(Boolean).join(' > ')
+
+  pages.forEach((pageText, pageIndex) => {
+    const page = hasPageMarkers ? pageIndex + 1 : undefined
+    let paragraph: string[] = []
+
+    const flushParagraph = () => {
+      const joined = paragraph.join(' ').replace(/-\s+(?=[a-z])/g, '').replace(/\s+/g, ' ').trim()
+      paragraph = []
+      if (!joined) return
+      for (const sentence of splitSentences(joined)) {
+        units.push({ text: sentence, headingPath: currentHeadingPath(), page })
+      }
+    }
+
+    for (const line of pageText.split('\n')) {
+      if (!line.trim()) {
+        flushParagraph()
+        continue
+      }
+
+      const heading = parseHeading(line)
+      if (!heading) {
+        const inlineAbstract = line.trim().match(/^abstract\s*[:.\u2014-]\s*(.+)$/i)
+        if (inlineAbstract) {
+          flushParagraph()
+          sections = ['Abstract']
+          paragraph.push(inlineAbstract[1])
+          continue
+        }
+        paragraph.push(line.trim())
+        continue
+      }
+
+      flushParagraph()
+      if (heading.chapter) {
+        chapter = heading.label
+        sections = []
+      } else {
+        sections = [...sections.slice(0, heading.level - 1), heading.label]
+      }
+    }
+
+    flushParagraph()
+  })
+
+  return units
+}
+
+/**
+ * Chunk text along section, page and sentence boundaries.
+ * Chunks never cross a section heading once they are reasonably full, and overlap is carried
+ * as whole trailing sentences so no chunk starts mid-sentence.
+ */
+export function chunkStructuredText(text: string, chunkSize: number, overlap: number): StructuredChunk[] {
+  const units = toTextUnits(text)
+  const chunks: StructuredChunk[] = []
+  const minSectionChunk = Math.floor(chunkSize / 4)
+  let current: TextUnit[] = []
+  let currentLength = 0
+
+  const flush = () => {
+    if (!current.length) return
+    const pages = current.map(unit => unit.page).filter((page): page is number => typeof page === 'number')
+    chunks.push({
+      text: current.map(unit => unit.text).join(' '),
+      headingPath: current.find(unit => unit.headingPath)?.headingPath || undefined,
+      pageStart: pages.length ? Math.min(...pages) : undefined,
+      pageEnd: pages.length ? Math.max(...pages) : undefined,
+    })
+  }
+
+  const carryOverlap = (sameSection: boolean): TextUnit[] => {
+    if (!sameSection || overlap <= 0) return []
+    const carried: TextUnit[] = []
+    let carriedLength = 0
+    for (let i = current.length - 1; i > 0; i--) {
+      const length = current[i].text.length + 1
+      if (carriedLength + length > overlap) break
+      carried.unshift(current[i])
+      carriedLength += length
+    }
+    return carried
+  }
+
+  for (const unit of units) {
+    const pieces = unit.text.length > chunkSize
+      ? chunkText(unit.text, chunkSize, 0).map(piece => ({ ...unit, text: piece }))
+      : [unit]
+
+    for (const piece of pieces) {
+      const lastHeading = current[current.length - 1]?.headingPath
+      const sectionChanged = current.length > 0 && lastHeading !== piece.headingPath
+
+      if (
+        current.length > 0
+        && ((sectionChanged && currentLength >= minSectionChunk) || currentLength + piece.text.length + 1 > chunkSize)
+      ) {
+        flush()
+        current = carryOverlap(!sectionChanged)
+        currentLength = current.reduce((sum, item) => sum + item.text.length + 1, 0)
+      }
+
+      current.push(piece)
+      currentLength += piece.text.length + 1
+    }
+  }
+
+  flush()
+  return chunks
+}
+
 export function stripHtmlToText(html: string): string {
   return html
     .replace(/<script[\s\S]*?<\/script>/gi, ' ')
@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { after, before, describe, it } from 'node:test'
+
+type VectorIndexModule = typeof import('@/lib/server/vectorIndex')
+
+let vectorIndex: VectorIndexModule
+let dataDir: string
+
+// Deterministic vectors so the brute-force expectations are stable between runs.
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296 - 0.5
+  }
+}
+
+function makeChunks(count: number, dim: number, seed: number) {
+  const random = seededRandom(seed)
+  return Array.from({ length: count }, (_, i) => ({
+    id: `c${i}`,
+    embedding: Array.from({ length: dim }, () => random()),
+  }))
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return dot / Math.sqrt(normA * normB)
+}
+
+function bruteForce(chunks: Array<{ id: string; embedding: number[] }>, query: number[], k: number): string[] {
+  return chunks
+    .map(chunk => ({ id: chunk.id, score: cosine(chunk.embedding, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(item => item.id)
+}
+
+before(async () => {
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'vector-index-test-'))
+  process.env.DATA_DIR = dataDir
+  vectorIndex = await import('@/lib/server/vectorIndex')
+})
+
+after(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true })
+})
+
+describe('searchVectorIndex', () => {
+  it('returns the nearest accepted chunks', async () => {
+    const chunks = makeChunks(120, 8, 7)
+    const index = await vectorIndex.syncVectorIndex('search', 'model-a', chunks)
+    assert.ok(index)
+
+    const query = chunks[3].embedding
+    const hits = vectorIndex.searchVectorIndex(index, query, 5)
+    assert.deepEqual(hits?.map(hit => hit.chunkId), bruteForce(chunks, query, 5))
+
+    const accepted = new Set(chunks.filter((_, i) => i % 3 === 0).map(chunk => chunk.id))
+    const filtered = vectorIndex.searchVectorIndex(index, query, 5, chunkId => accepted.has(chunkId))
+    const expected = bruteForce(chunks.filter(chunk => accepted.has(chunk.id)), query, 5)
+    assert.deepEqual(filtered?.map(hit => hit.chunkId), expected)
+  })
+
+  it('returns null for a query of another dimension', async () => {
+    const index = await vectorIndex.syncVectorIndex('search', 'model-a', makeChunks(120, 8, 7))
+    assert.ok(index)
+    assert.equal(vectorIndex.searchVectorIndex(index, [1, 0, 0], 5), null)
+  })
+})
+
+describe('syncVectorIndex', () => {
+  it('relinks chunks whose vector changed under the same id', async () => {
+    const chunks = makeChunks(60, 8, 11)
+    const first = await vectorIndex.syncVectorIndex('changed', 'model-a', chunks)
+    assert.ok(first)
+    const before = first.positions.get('c5')
+
+    const replacement = makeChunks(1, 8, 99)[0].embedding
+    const updated = chunks.map(chunk => chunk.id === 'c5' ? { ...chunk, embedding: replacement } : chunk)
+    const second = await vectorIndex.syncVectorIndex('changed', 'model-a', updated)
+    assert.ok(second)
+    assert.notEqual(second.positions.get('c5'), before)
+    assert.equal(second.positions.size, 60)
+
+    const hits = vectorIndex.searchVectorIndex(second, replacement, 3)
+    assert.deepEqual(hits?.map(hit => hit.chunkId), bruteForce(updated, replacement, 3))
+  })
+
+  it('rebuilds the graph when the embedding model changes', async () => {
+    const chunks = makeChunks(40, 8, 13)
+    const first = await vectorIndex.syncVectorIndex('model', 'model-a', chunks)
+    assert.ok(first)
+
+    const second = await vectorIndex.syncVectorIndex('model', 'model-b', makeChunks(40, 8, 17))
+    assert.ok(second)
+    assert.notEqual(second, first)
+    assert.equal(second.embeddingModel, 'model-b')
+    assert.equal(second.nodes.length, 40)
+  })
+})
@@ -0,0 +1,436 @@
+/**
+ * Approximate nearest-neighbour index (HNSW) over chunk embeddings.
+ * Responsibilities:
+ * - Build and persist one graph per rag_id (graph only; vectors come from the chunk store).
+ * - Keep the graph in sync with the chunk set by inserting new chunks, unlinking removed ones and
+ *   relinking chunks whose vector changed.
+ * - Answer top-k cosine queries with a caller-supplied acceptance filter.
+ */
+
+import { readJsonFileIfExists, resolveDataPath, writeJsonFileAtomic } from '@/lib/server/fsStore'
+import { sanitizeFileName } from '@/lib/server/text'
+
+type HnswNode = {
+  id: string
+  level: number
+  links: number[][]
+  checksum: number
+}
+
+type PersistedVectorIndex = {
+  version: 2
+  ragId: string
+  embeddingModel: string
+  dim: number
+  m: number
+  efConstruction: number
+  entryPoint: number
+  maxLevel: number
+  updatedAt: string
+  nodes: Array<HnswNode | null>
+}
+
+export type LoadedVectorIndex = PersistedVectorIndex & {
+  vectors: Array<number[] | undefined>
+  norms: number[]
+  positions: Map<string, number>
+}
+
+type ScoredNode = {
+  node: number
+  dist: number
+}
+
+export type VectorHit = {
+  chunkId: string
+  score: number
+}
+
+const globalVectorIndex = globalThis as typeof globalThis & {
+  __researchTwinVectorIndexes?: Map<string, LoadedVectorIndex>
+}
+
+const vectorIndexCache = globalVectorIndex.__researchTwinVectorIndexes ?? new Map<string, LoadedVectorIndex>()
+if (!globalVectorIndex.__researchTwinVectorIndexes) {
+  globalVectorIndex.__researchTwinVectorIndexes = vectorIndexCache
+}
+
+export function getAnnConfig() {
+  const minCandidates = Number.parseInt(process.env.RAG_ANN_MIN_CANDIDATES || '2000', 10)
+  const m = Number.parseInt(process.env.RAG_HNSW_M || '16', 10)
+  const efConstruction = Number.parseInt(process.env.RAG_HNSW_EF_CONSTRUCTION || '100', 10)
+  const efSearch = Number.parseInt(process.env.RAG_HNSW_EF_SEARCH || '64', 10)
+
+  return {
+    enabled: process.env.RAG_ANN_ENABLED !== 'false',
+    minCandidates: Number.isFinite(minCandidates) && minCandidates > 0 ? minCandidates : 2000,
+    m: Number.isFinite(m) && m >= 4 ? m : 16,
+    efConstruction: Number.isFinite(efConstruction) && efConstruction > 0 ? efConstruction : 100,
+    efSearch: Number.isFinite(efSearch) && efSearch > 0 ? efSearch : 64,
+  }
+}
+
+function vectorIndexPath(ragId: string): string {
+  return resolveDataPath('rag', 'index', `${sanitizeFileName(ragId)}.hnsw.json`)
+}
+
+function vectorNorm(vector: number[]): number {
+  let sum = 0
+  for (const value of vector) sum += value * value
+  return Math.sqrt(sum)
+}
+
+/**
+ * Cheap position-weighted sum used to notice a chunk whose vector changed under the same id
+ * (re-embedding with a same-dimension model, snapshot restores).
+ */
+function vectorChecksum(vector: number[]): number {
+  let sum = 0
+  for (let i = 0; i < vector.length; i++) sum += vector[i] * ((i % 13) + 1)
+  return Math.round(sum * 1e6) / 1e6
+}
+
+function distanceTo(index: LoadedVectorIndex, node: number, query: number[], queryNorm: number): number {
+  const vector = index.vectors[node]
+  const norm = index.norms[node]
+  if (!vector || !norm || !queryNorm) return 2
+
+  let dot = 0
+  for (let i = 0; i < vector.length; i++) dot += vector[i] * query[i]
+  return 1 - dot / (norm * queryNorm)
+}
+
+function insertSorted(list: ScoredNode[], item: ScoredNode): void {
+  let low = 0
+  let high = list.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (list[mid].dist < item.dist) low = mid + 1
+    else high = mid
+  }
+  list.splice(low, 0, item)
+}
+
+function searchLayer(
+  index: LoadedVectorIndex,
+  query: number[],
+  queryNorm: number,
+  entryPoints: number[],
+  ef: number,
+  layer: number
+): ScoredNode[] {
+  const visited = new Set<number>(entryPoints)
+  const candidates: ScoredNode[] = []
+  const results: ScoredNode[] = []
+
+  for (const node of entryPoints) {
+    const scored = { node, dist: distanceTo(index, node, query, queryNorm) }
+    insertSorted(candidates, scored)
+    insertSorted(results, scored)
+  }
+
+  while (candidates.length) {
+    const current = candidates.shift() as ScoredNode
+    if (results.length >= ef && current.dist > results[results.length - 1].dist) break
+
+    for (const neighbor of index.nodes[current.node]?.links[layer] || []) {
+      if (visited.has(neighbor)) continue
+      visited.add(neighbor)
+      if (!index.nodes[neighbor]) continue
+
+      const dist = distanceTo(index, neighbor, query, queryNorm)
+      if (results.length < ef || dist < results[results.length - 1].dist) {
+        insertSorted(candidates, { node: neighbor, dist })
+        insertSorted(results, { node: neighbor, dist })
+        if (results.length > ef) results.pop()
+      }
+    }
+  }
+
+  return results
+}
+
+function maxLinksForLayer(index: LoadedVectorIndex, layer: number): number {
+  return layer === 0 ? index.m * 2 : index.m
+}
+
+function pruneLinks(index: LoadedVectorIndex, node: number, layer: number): void {
+  const owner = index.nodes[node]
+  const vector = index.vectors[node]
+  if (!owner || !vector) return
+
+  const maxLinks = maxLinksForLayer(index, layer)
+  const unique = Array.from(new Set(owner.links[layer])).filter(link => link !== node && index.nodes[link])
+  if (unique.length <= maxLinks) {
+    owner.links[layer] = unique
+    return
+  }
+
+  const norm = index.norms[node]
+  owner.links[layer] = unique
+    .map(link => ({ node: link, dist: distanceTo(index, link, vector, norm) }))
+    .sort((a, b) => a.dist - b.dist)
+    .slice(0, maxLinks)
+    .map(item => item.node)
+}
+
+function randomLevel(m: number): number {
+  const mL = 1 / Math.log(m)
+  return Math.floor(-Math.log(1 - Math.random()) * mL)
+}
+
+function insertNode(index: LoadedVectorIndex, chunkId: string, vector: number[]): void {
+  const position = index.nodes.length
+  const level = randomLevel(index.m)
+  const norm = vectorNorm(vector)
+
+  index.nodes.push({
+    id: chunkId,
+    level,
+    links: Array.from({ length: level + 1 }, () => []),
+    checksum: vectorChecksum(vector),
+  })
+  index.vectors[position] = vector
+  index.norms[position] = norm
+  index.positions.set(chunkId, position)
+
+  if (index.entryPoint < 0) {
+    index.entryPoint = position
+    index.maxLevel = level
+    return
+  }
+
+  let entry = index.entryPoint
+  for (let layer = index.maxLevel; layer > level; layer--) {
+    entry = searchLayer(index, vector, norm, [entry], 1, layer)[0]?.node ?? entry
+  }
+
+  for (let layer = Math.min(level, index.maxLevel); layer >= 0; layer--) {
+    const found = searchLayer(index, vector, norm, [entry], index.efConstruction, layer)
+      .filter(item => item.node !== position)
+    const selected = found.slice(0, index.m).map(item => item.node)
+    ;(index.nodes[position] as HnswNode).links[layer] = selected
+
+    for (const neighbor of selected) {
+      const links = index.nodes[neighbor]?.links[layer]
+      if (!links) continue
+      links.push(position)
+      if (links.length > maxLinksForLayer(index, layer)) pruneLinks(index, neighbor, layer)
+    }
+
+    if (found.length) entry = found[0].node
+  }
+
+  if (level > index.maxLevel) {
+    index.entryPoint = position
+    index.maxLevel = level
+  }
+}
+
+/**
+ * Unlink nodes and reconnect each removed node's neighbours to each other so the graph stays navigable.
+ * All nodes are tombstoned before repair so removed nodes are never used as replacement links.
+ */
+function removeNodes(index: LoadedVectorIndex, positionsToRemove: number[]): void {
+  const removed: HnswNode[] = []
+  for (const position of positionsToRemove) {
+    const node = index.nodes[position]
+    if (!node) continue
+    removed.push(node)
+    index.nodes[position] = null
+    index.vectors[position] = undefined
+    index.norms[position] = 0
+    index.positions.delete(node.id)
+  }
+
+  for (const node of removed) {
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphans = Array.from(new Set(node.links[layer])).filter(link => index.nodes[link])
+      for (const neighbor of orphans) {
+        const owner = index.nodes[neighbor]
+        if (!owner?.links[layer]) continue
+        owner.links[layer] = owner.links[layer]
+          .filter(link => index.nodes[link])
+          .concat(orphans.filter(link => link !== neighbor))
+        pruneLinks(index, neighbor, layer)
+      }
+    }
+  }
+
+  if (index.entryPoint >= 0 && !index.nodes[index.entryPoint]) {
+    let nextEntry = -1
+    let nextLevel = 0
+    index.nodes.forEach((node, nodePosition) => {
+      if (node && (nextEntry < 0 || node.level > nextLevel)) {
+        nextEntry = nodePosition
+        nextLevel = node.level
+      }
+    })
+    index.entryPoint = nextEntry
+    index.maxLevel = nextLevel
+  }
+}
+
+function compactIndex(index: LoadedVectorIndex): void {
+  const remap = new Map<number, number>()
+  index.nodes.forEach((node, position) => {
+    if (node) remap.set(position, remap.size)
+  })
+
+  const nodes: HnswNode[] = []
+  const vectors: Array<number[] | undefined> = []
+  const norms: number[] = []
+  index.nodes.forEach((node, position) => {
+    if (!node) return
+    nodes.push({
+      ...node,
+      links: node.links.map(links => links.filter(link => remap.has(link)).map(link => remap.get(link) as number)),
+    })
+    vectors.push(index.vectors[position])
+    norms.push(index.norms[position])
+  })
+
+  index.nodes = nodes
+  index.vectors = vectors
+  index.norms = norms
+  index.positions = new Map(nodes.map((node, position) => [node.id, position]))
+  index.entryPoint = index.entryPoint >= 0 ? remap.get(index.entryPoint) ?? -1 : -1
+}
+
+function createEmptyIndex(ragId: string, embeddingModel: string, dim: number): LoadedVectorIndex {
+  const { m, efConstruction } = getAnnConfig()
+  return {
+    version: 2,
+    ragId,
+    embeddingModel,
+    dim,
+    m,
+    efConstruction,
+    entryPoint: -1,
+    maxLevel: 0,
+    updatedAt: new Date().toISOString(),
+    nodes: [],
+    vectors: [],
+    norms: [],
+    positions: new Map(),
+  }
+}
+
+async function readPersistedIndex(ragId: string): Promise<LoadedVectorIndex | null> {
+  const persisted = await readJsonFileIfExists<PersistedVectorIndex | null>(vectorIndexPath(ragId), null)
+  if (!persisted || persisted.version !== 2 || !Array.isArray(persisted.nodes)) return null
+
+  const positions = new Map<string, number>()
+  persisted.nodes.forEach((node, position) => {
+    if (node) positions.set(node.id, position)
+  })
+  return { ...persisted, vectors: [], norms: [], positions }
+}
+
+async function persistIndex(index: LoadedVectorIndex): Promise<void> {
+  const { vectors: _vectors, norms: _norms, positions: _positions, ...persisted } = index
+  try {
+    await writeJsonFileAtomic(vectorIndexPath(index.ragId), { ...persisted, updatedAt: new Date().toISOString() })
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error'
+    console.warn(`[vectorIndex] Could not persist index for ${index.ragId}: ${reason}`)
+  }
+}
+
+/**
+ * Bring the graph for a rag_id in line with its chunks: attach current vectors, unlink removed or changed
+ * chunks, (re)insert them, and compact once a fifth of the slots are empty. A different embedding model
+ * rebuilds the graph outright. Persists only when the graph changed.
+ */
+export async function syncVectorIndex(
+  ragId: string,
+  embeddingModel: string,
+  chunks: Array<{ id: string; embedding?: number[] }>
+): Promise<LoadedVectorIndex | null> {
+  const embedded = chunks.filter(chunk => chunk.embedding?.length)
+  if (!embedded.length) return null
+
+  const dim = (embedded[0].embedding as number[]).length
+  let index = vectorIndexCache.get(ragId) || await readPersistedIndex(ragId)
+  let changed = false
+
+  if (!index || index.dim !== dim || index.embeddingModel !== embeddingModel) {
+    index = createEmptyIndex(ragId, embeddingModel, dim)
+    changed = true
+  }
+
+  const current = new Map<string, number[]>()
+  for (const chunk of embedded) {
+    if (chunk.embedding?.length === dim) current.set(chunk.id, chunk.embedding)
+  }
+
+  // Attach vectors first: unlinking and pruning compare neighbours by distance.
+  // Nodes whose vector no longer matches their links are unlinked and inserted again below.
+  const stalePositions: number[] = []
+  for (const [chunkId, position] of index.positions) {
+    const vector = current.get(chunkId)
+    index.vectors[position] = vector
+    index.norms[position] = vector ? vectorNorm(vector) : 0
+    if (!vector || vectorChecksum(vector) !== index.nodes[position]?.checksum) stalePositions.push(position)
+  }
+
+  if (stalePositions.length > 0 && stalePositions.length / index.positions.size > 0.2) {
+    // Repairing around a large removal degrades the graph more than rebuilding it does.
+    index = createEmptyIndex(ragId, embeddingModel, dim)
+  } else if (stalePositions.length > 0) {
+    removeNodes(index, stalePositions)
+  }
+  changed = changed || stalePositions.length > 0
+
+  for (const [chunkId, vector] of current) {
+    if (index.positions.has(chunkId)) continue
+    insertNode(index, chunkId, vector)
+    changed = true
+  }
+
+  const emptySlots = index.nodes.length - index.positions.size
+  if (emptySlots > 0 && emptySlots / index.nodes.length > 0.2) {
+    compactIndex(index)
+    changed = true
+  }
+
+  vectorIndexCache.set(ragId, index)
+  if (changed) await persistIndex(index)
+  return index
+}
+
+export function searchVectorIndex(
+  index: LoadedVectorIndex,
+  query: number[],
+  k: number,
+  accept?: (chunkId: string) => boolean
+): VectorHit[] | null {
+  if (index.entryPoint < 0 || query.length !== index.dim) return null
+
+  const queryNorm = vectorNorm(query)
+  const { efSearch } = getAnnConfig()
+  const liveCount = index.positions.size
+
+  let entry = index.entryPoint
+  for (let layer = index.maxLevel; layer > 0; layer--) {
+    entry = searchLayer(index, query, queryNorm, [entry], 1, layer)[0]?.node ?? entry
+  }
+
+  // Filters are applied after the graph search; widen ef until enough accepted hits come back.
+  let ef = Math.max(efSearch, k)
+  const maxEf = Math.min(liveCount, Math.max(efSearch * 16, k * 8))
+  let hits: ScoredNode[] = []
+  while (true) {
+    const found = searchLayer(index, query, queryNorm, [entry], ef, 0)
+    hits = accept
+      ? found.filter(item => accept((index.nodes[item.node] as HnswNode).id))
+      : found
+    if (hits.length >= k || ef >= maxEf) break
+    ef = Math.min(maxEf, ef * 2)
+  }
+
+  return hits.slice(0, k).map(item => ({
+    chunkId: (index.nodes[item.node] as HnswNode).id,
+    score: 1 - item.dist,
+  }))
+}